@@ -0,0 +1,603 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  convertOpenAIStreamToClaude,
+  createStreamState,
+  getFinalStreamEvents,
+} from "../converters/stream";
+import { ClaudeAnyContentRequest } from "../types/claude";
+import { applyModelRoutes } from "../utils/routing";
+import { AnthropicAdapter } from "./anthropic";
+import { CopilotAdapter } from "./copilot";
+import { createAdapter } from "./factory";
+import { GeminiAdapter } from "./gemini";
+import { KiroAdapter, resolveKiroModelId } from "./kiro";
+import { OpenAIAdapter } from "./openai";
+
+const thinkingRequest = (
+  model: string,
+  budget_tokens: number,
+): ClaudeAnyContentRequest => ({
+  model,
+  max_tokens: 64000,
+  thinking: { type: "enabled", budget_tokens },
+  messages: [{ role: "user", content: "hi" }],
+});
+
+describe("adapter thinking mapping", () => {
+  it("buckets the budget into OpenAI reasoning_effort", () => {
+    const adapter = new OpenAIAdapter();
+
+    expect(
+      adapter.transformRequest(thinkingRequest("gpt-5", 1024)).reasoning_effort,
+    ).toBe("low");
+    expect(
+      adapter.transformRequest(thinkingRequest("gpt-5", 10000))
+        .reasoning_effort,
+    ).toBe("medium");
+    expect(
+      adapter.transformRequest(thinkingRequest("gpt-5", 31999))
+        .reasoning_effort,
+    ).toBe("high");
+  });
+
+  it("drops thinking for models that do not reason", () => {
+    const adapter = new OpenAIAdapter();
+
+    expect(
+      adapter.transformRequest(thinkingRequest("gpt-4.1", 10000))
+        .reasoning_effort,
+    ).toBeUndefined();
+    expect(
+      new CopilotAdapter().transformRequest(thinkingRequest("gpt-4o", 10000))
+        .reasoning_effort,
+    ).toBeUndefined();
+    expect(
+      adapter.transformRequest(thinkingRequest("openai/o4-mini", 10000))
+        .reasoning_effort,
+    ).toBe("medium");
+  });
+
+  it("leaves reasoning controls unset without thinking", () => {
+    const result = new OpenAIAdapter().transformRequest({
+      model: "gpt-5",
+      thinking: { type: "disabled" },
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(result.reasoning_effort).toBeUndefined();
+    expect(result.extra_body).toBeUndefined();
+  });
+
+  it("passes the budget to Gemini thinking_config", () => {
+    const result = new GeminiAdapter().transformRequest(
+      thinkingRequest("gemini-2.5-pro", 10000),
+    );
+
+    expect(result.reasoning_effort).toBeUndefined();
+    expect(result.extra_body).toEqual({
+      google: {
+        thinking_config: { thinking_budget: 10000, include_thoughts: true },
+      },
+    });
+  });
+
+  it("uses thinking_budget for Claude models on Copilot", () => {
+    const adapter = new CopilotAdapter();
+
+    const claude = adapter.transformRequest(
+      thinkingRequest("claude-sonnet-4.5", 10000),
+    );
+    expect(claude.thinking_budget).toBe(10000);
+    expect(claude.reasoning_effort).toBeUndefined();
+
+    const gpt = adapter.transformRequest(thinkingRequest("gpt-5", 31999));
+    expect(gpt.reasoning_effort).toBe("high");
+    expect(gpt.thinking_budget).toBeUndefined();
+  });
+});
+
+describe("anthropic passthrough", () => {
+  it("is picked for Anthropic compatible upstreams", () => {
+    for (const baseUrl of [
+      "api.anthropic.com",
+      "openrouter.ai/api",
+      "api.deepseek.com/anthropic",
+    ]) {
+      expect(createAdapter(baseUrl).provider).toBe("anthropic");
+    }
+    expect(createAdapter("api.openai.com").provider).toBe("openai");
+  });
+
+  it("forwards the payload untouched and swaps auth", async () => {
+    const request: ClaudeAnyContentRequest = {
+      model: "deepseek-chat",
+      thinking: { type: "enabled", budget_tokens: 2048 },
+      messages: [{ role: "user", content: "hi" }],
+    };
+
+    const gateway = new AnthropicAdapter("api.deepseek.com/anthropic");
+    expect(gateway.transformRequest(request)).toBe(request);
+    expect(await gateway.getAuthHeaders("sk-1")).toEqual({
+      Authorization: "Bearer sk-1",
+    });
+    expect(await new AnthropicAdapter().getAuthHeaders("sk-2")).toEqual({
+      "x-api-key": "sk-2",
+    });
+  });
+
+  it("keeps upstream stream headers except hop by hop ones", async () => {
+    const upstream = new Response("event: ping\ndata: {}\n\n", {
+      headers: {
+        "content-type": "text/event-stream; charset=utf-8",
+        "request-id": "req_1",
+        "anthropic-ratelimit-requests-remaining": "49",
+        "retry-after": "3",
+        "content-encoding": "gzip",
+        "content-length": "24",
+        connection: "keep-alive",
+      },
+    });
+
+    const res = await new AnthropicAdapter().handleStreamResponse({}, upstream);
+    expect(Object.fromEntries(res.headers.entries())).toEqual({
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      "request-id": "req_1",
+      "anthropic-ratelimit-requests-remaining": "49",
+      "retry-after": "3",
+    });
+  });
+});
+
+describe("kiro endpoints", () => {
+  it("takes the region and host from the base url", async () => {
+    const adapter = createAdapter("q.eu-central-1.amazonaws.com");
+    expect(adapter.provider).toBe("kiro");
+    expect(adapter.baseUrl).toBe("q.eu-central-1.amazonaws.com");
+    expect((await adapter.getAuthHeaders("aoa-token")).host).toBe(
+      "q.eu-central-1.amazonaws.com",
+    );
+
+    expect(createAdapter("codewhisperer.us-east-1.amazonaws.com").baseUrl).toBe(
+      "codewhisperer.us-east-1.amazonaws.com",
+    );
+  });
+
+  it("leaves other AWS hosts to the OpenAI adapter", () => {
+    expect(
+      createAdapter("bedrock-runtime.us-east-1.amazonaws.com/openai/v1")
+        .provider,
+    ).toBe("openai");
+    expect(createAdapter("my-gateway.aws.example.com").provider).toBe("openai");
+    expect(
+      createAdapter("q.us-east-1.amazonaws.com.example.com").provider,
+    ).toBe("openai");
+    expect(createAdapter("q.us-east-1.amazonaws.com/").provider).toBe("kiro");
+  });
+});
+
+describe("kiro request mapping", () => {
+  it("renders system blocks, images and thinking mode", () => {
+    const adapter = new KiroAdapter();
+    const payload = adapter.transformRequest({
+      model: "claude-sonnet-4.5",
+      max_tokens: 64000,
+      thinking: { type: "enabled", budget_tokens: 8000 },
+      system: [
+        { type: "text", text: "You are Claude Code." },
+        { type: "text", text: "Be brief." },
+      ],
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is in this screenshot?" },
+            {
+              type: "image",
+              source: { type: "base64", media_type: "image/png", data: "iVBO" },
+            },
+          ],
+        },
+      ],
+    });
+
+    const message = payload.conversationState.currentMessage.userInputMessage;
+    expect(message.content).toBe(
+      "<thinking_mode>enabled</thinking_mode><max_thinking_length>8000</max_thinking_length>\n\nYou are Claude Code.\n\nBe brief.\n\nWhat is in this screenshot?",
+    );
+    expect(message.images).toEqual([
+      { format: "png", source: { bytes: "iVBO" } },
+    ]);
+  });
+
+  it("sends Sonnet 4.5 under its internal id only upstream", () => {
+    const adapter = new KiroAdapter();
+    const request = applyModelRoutes(
+      {
+        model: "claude-sonnet-4-5-20250929",
+        messages: [{ role: "user", content: "hi" }],
+      },
+      [],
+      adapter.defaultModelRoutes,
+      adapter.baseUrl,
+    );
+    expect(request.model).toBe("claude-sonnet-4.5");
+
+    const payload = adapter.transformRequest(request);
+    expect(
+      payload.conversationState.currentMessage.userInputMessage.modelId,
+    ).toBe("CLAUDE_SONNET_4_5_20250929_V1_0");
+    expect(
+      adapter.transformResponse({ content: "hi" }, request.model).model,
+    ).toBe("claude-sonnet-4.5");
+  });
+
+  it("normalises history into alternating turns", () => {
+    const payload = new KiroAdapter().transformRequest({
+      model: "claude-sonnet-4.5",
+      messages: [
+        { role: "assistant", content: "Resuming." },
+        {
+          role: "assistant",
+          content: [
+            { type: "tool_use", id: "t1", name: "Bash", input: { cmd: "ls" } },
+            { type: "tool_use", id: "t2", name: "Bash", input: { cmd: "pwd" } },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "t1", content: "a.ts" },
+            { type: "tool_result", tool_use_id: "gone", content: "stale" },
+          ],
+        },
+        { role: "user", content: "Now fix it" },
+      ],
+    });
+
+    const { history, currentMessage } = payload.conversationState;
+    expect(history.map((turn: any) => Object.keys(turn)[0])).toEqual([
+      "userInputMessage",
+      "assistantResponseMessage",
+    ]);
+    expect(history[1].assistantResponseMessage.content).toBe("Resuming.");
+    expect(history[1].assistantResponseMessage.toolUses).toHaveLength(2);
+
+    const current = currentMessage.userInputMessage;
+    expect(current.content).toBe("[Tool result gone]\nstale\n\nNow fix it");
+    expect(current.userInputMessageContext.toolResults).toEqual([
+      { content: [{ text: "a.ts" }], status: "success", toolUseId: "t1" },
+      {
+        content: [{ text: "Tool result is not available." }],
+        status: "error",
+        toolUseId: "t2",
+      },
+    ]);
+  });
+
+  it("marks failed tool results as errors", () => {
+    const payload = new KiroAdapter().transformRequest({
+      model: "claude-sonnet-4.5",
+      messages: [
+        {
+          role: "assistant",
+          content: [
+            { type: "tool_use", id: "t1", name: "Bash", input: { cmd: "ls" } },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: "t1",
+              content: "ls: permission denied",
+              is_error: true,
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(
+      payload.conversationState.currentMessage.userInputMessage
+        .userInputMessageContext.toolResults,
+    ).toEqual([
+      {
+        content: [{ text: "ls: permission denied" }],
+        status: "error",
+        toolUseId: "t1",
+      },
+    ]);
+  });
+
+  it("keeps the conversation id across turns of a session", () => {
+    const adapter = new KiroAdapter();
+    const system = [{ type: "text" as const, text: "You are Claude Code." }];
+    const first = adapter.transformRequest({
+      model: "claude-sonnet-4.5",
+      system,
+      messages: [{ role: "user", content: "hi" }],
+    });
+    const second = adapter.transformRequest({
+      model: "claude-sonnet-4.5",
+      system,
+      messages: [
+        { role: "user", content: "hi" },
+        { role: "assistant", content: "Hello!" },
+        { role: "user", content: "bye" },
+      ],
+    });
+    const other = adapter.transformRequest({
+      model: "claude-sonnet-4.5",
+      system,
+      messages: [{ role: "user", content: "hello" }],
+    });
+
+    const id = first.conversationState.conversationId;
+    expect(id).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/,
+    );
+    expect(second.conversationState.conversationId).toBe(id);
+    expect(other.conversationState.conversationId).not.toBe(id);
+  });
+});
+
+describe("kiro model discovery", () => {
+  const models = [
+    { id: "auto" },
+    { id: "CLAUDE_SONNET_4_5_20250929_V1_0" },
+    { id: "claude-haiku-4.5" },
+    { id: "claude-opus-4.5" },
+  ];
+
+  it("maps Claude names onto the account's model ids", () => {
+    expect(resolveKiroModelId("claude-sonnet-4-5-20250929", models)).toBe(
+      "CLAUDE_SONNET_4_5_20250929_V1_0",
+    );
+    expect(resolveKiroModelId("claude-haiku-4-5", models)).toBe(
+      "claude-haiku-4.5",
+    );
+    expect(resolveKiroModelId("claude-opus-4.5", models)).toBe(
+      "claude-opus-4.5",
+    );
+    expect(resolveKiroModelId("auto", models)).toBe("auto");
+  });
+
+  it("leaves unknown models alone", () => {
+    expect(resolveKiroModelId("claude-3-7-sonnet-latest", models)).toBe(
+      undefined,
+    );
+    expect(resolveKiroModelId("claude-opus-4-1", models)).toBe(undefined);
+  });
+});
+
+describe("copilot capabilities", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubCopilot = () =>
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        if (url === "https://api.github.com/copilot_internal/v2/token") {
+          return Response.json({
+            token: "copilot-token",
+            expires_at: Math.floor(Date.now() / 1000) + 1800,
+          });
+        }
+        expect(url).toBe("https://api.githubcopilot.com/models");
+        return Response.json({
+          data: [
+            {
+              id: "gpt-4.1",
+              capabilities: { supports: { tool_calls: true, vision: true } },
+            },
+            {
+              id: "o3-mini",
+              capabilities: { supports: { tool_calls: true } },
+            },
+            { id: "text-embedding-3-small", capabilities: { supports: {} } },
+          ],
+        });
+      }),
+    );
+
+  const imageMessage = {
+    role: "user" as const,
+    content: [
+      {
+        type: "image" as const,
+        source: { type: "base64" as const, media_type: "image/png", data: "" },
+      },
+    ],
+  };
+
+  it("marks tool result turns as agent initiated and flags images", async () => {
+    stubCopilot();
+    const request: ClaudeAnyContentRequest = {
+      model: "gpt-4.1",
+      messages: [
+        { role: "user", content: "look" },
+        {
+          role: "assistant",
+          content: [{ type: "tool_use", id: "t1", name: "Read", input: {} }],
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: "t1",
+              content: [imageMessage.content[0]],
+            },
+          ],
+        },
+      ],
+    };
+
+    const adapter = new CopilotAdapter();
+    await adapter.prepareRequest(
+      adapter.transformRequest(request),
+      request,
+      "ghu-capabilities-1",
+      adapter.baseUrl,
+    );
+    const headers = await adapter.getAuthHeaders("ghu-capabilities-1");
+    expect(headers["X-Initiator"]).toBe("agent");
+    expect(headers["Copilot-Vision-Request"]).toBe("true");
+
+    const plain = new CopilotAdapter();
+    const plainRequest: ClaudeAnyContentRequest = {
+      model: "gpt-4.1",
+      messages: [{ role: "user", content: "hi" }],
+    };
+    await plain.prepareRequest(
+      plain.transformRequest(plainRequest),
+      plainRequest,
+      "ghu-capabilities-1",
+      plain.baseUrl,
+    );
+    const plainHeaders = await plain.getAuthHeaders("ghu-capabilities-1");
+    expect(plainHeaders["X-Initiator"]).toBe("user");
+    expect(plainHeaders["Copilot-Vision-Request"]).toBeUndefined();
+  });
+
+  it("rejects tools and images the model does not support", async () => {
+    stubCopilot();
+    const prepare = (request: ClaudeAnyContentRequest) => {
+      const adapter = new CopilotAdapter();
+      return adapter.prepareRequest(
+        adapter.transformRequest(request),
+        request,
+        "ghu-capabilities-2",
+        adapter.baseUrl,
+      );
+    };
+
+    await expect(
+      prepare({ model: "o3-mini", messages: [imageMessage] }),
+    ).rejects.toMatchObject({
+      type: "invalid_request_error",
+      message: "Copilot model o3-mini does not support image input",
+    });
+    await expect(
+      prepare({
+        model: "text-embedding-3-small",
+        messages: [{ role: "user", content: "hi" }],
+        tools: [{ name: "Read", input_schema: { type: "object" } }],
+      }),
+    ).rejects.toMatchObject({
+      type: "invalid_request_error",
+      message: "Copilot model text-embedding-3-small does not support tool use",
+    });
+    await expect(
+      prepare({ model: "unlisted-model", messages: [imageMessage] }),
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("strict tool arguments", () => {
+  const readSchema = {
+    type: "object",
+    properties: {
+      path: { type: "string" },
+      limit: { type: "number" },
+      options: {
+        type: "object",
+        properties: { encoding: { type: "string" } },
+      },
+    },
+    required: ["path"],
+  };
+  const strictArguments =
+    '{"path":"a.txt","limit":null,"options":{"encoding":null}}';
+
+  it("drops nulls for omitted optional arguments", () => {
+    const adapter = new OpenAIAdapter();
+    adapter.toolSchemaProfile = "openai-strict";
+    adapter.transformRequest({
+      model: "gpt-5",
+      messages: [{ role: "user", content: "read a.txt" }],
+      tools: [{ name: "read", input_schema: readSchema }],
+    });
+
+    const response = adapter.transformResponse({
+      id: "chatcmpl-1",
+      object: "chat.completion",
+      created: 0,
+      model: "gpt-5",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: { name: "read", arguments: strictArguments },
+              },
+            ],
+          },
+          finish_reason: "tool_calls",
+        },
+      ],
+    } as any);
+    expect(response.content[0].input).toEqual({
+      path: "a.txt",
+      options: {},
+    });
+  });
+
+  it("holds streamed arguments back until the call completes", () => {
+    const state = createStreamState();
+    state.strictToolSchemas = { read: readSchema };
+    const chunk = (toolCall: any, finish_reason: string | null = null) =>
+      ({
+        id: "chatcmpl-1",
+        object: "chat.completion.chunk",
+        created: 0,
+        model: "gpt-5",
+        choices: [
+          { index: 0, delta: { tool_calls: [toolCall] }, finish_reason },
+        ],
+      }) as any;
+
+    const events = [
+      ...convertOpenAIStreamToClaude(
+        chunk({
+          index: 0,
+          id: "call_1",
+          function: { name: "read", arguments: strictArguments.slice(0, 20) },
+        }),
+        state,
+      ),
+      ...convertOpenAIStreamToClaude(
+        chunk(
+          { index: 0, function: { arguments: strictArguments.slice(20) } },
+          "tool_calls",
+        ),
+        state,
+      ),
+      ...getFinalStreamEvents(state),
+    ];
+
+    const deltas = events.filter(
+      (event) => event.delta?.type === "input_json_delta",
+    );
+    expect(deltas).toEqual([
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: {
+          type: "input_json_delta",
+          partial_json: '{"path":"a.txt","options":{}}',
+        },
+      },
+    ]);
+    expect(events.at(-3)).toEqual({ type: "content_block_stop", index: 0 });
+  });
+});
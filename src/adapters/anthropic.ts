@@ -0,0 +1,114 @@
+import {
+  ClaudeAnyContentRequest,
+  ClaudeErrorResponse,
+  ClaudeResponse,
+} from "../types/claude";
+import { UpstreamModel } from "../types/models";
+import { BaseAdapter } from "./base";
+
+/**
+ * Headers that only apply to the upstream connection or the body as fetch
+ * received it, the already decoded stream is re-encoded by the runtime
+ */
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "content-encoding",
+  "content-length",
+];
+
+/**
+ * Passthrough adapter for upstreams that already speak the Anthropic
+ * Messages API. Payloads, `anthropic-*` headers and SSE go through untouched,
+ * only the model (see routing) and the auth header are swapped.
+ */
+export class AnthropicAdapter extends BaseAdapter {
+  readonly provider = "anthropic";
+  readonly baseUrl: string;
+
+  constructor(baseUrl: string = "api.anthropic.com") {
+    super();
+    this.baseUrl = baseUrl;
+  }
+
+  async getAuthHeaders(apiKey: string): Promise<Record<string, string>> {
+    // Third party gateways (OpenRouter, DeepSeek, ...) expect a bearer token
+    if (this.baseUrl.startsWith("api.anthropic.com")) {
+      return { "x-api-key": apiKey };
+    }
+    return { Authorization: `Bearer ${apiKey}` };
+  }
+
+  /**
+   * Third party `.../anthropic` endpoints rarely accept document blocks
+   */
+  get supportsDocuments(): boolean {
+    return !this.baseUrl.endsWith("/anthropic");
+  }
+
+  getCompletionPath(): string {
+    return "/v1/messages";
+  }
+
+  async listModels(apiKey: string): Promise<UpstreamModel[]> {
+    return this.fetchOpenAIModels(
+      `https://${this.baseUrl}/v1/models?limit=1000`,
+      apiKey,
+      { "anthropic-version": "2023-06-01" },
+    );
+  }
+
+  getCountTokensPath(): string {
+    return "/v1/messages/count_tokens";
+  }
+
+  transformRequest(claudeRequest: ClaudeAnyContentRequest): any {
+    return claudeRequest;
+  }
+
+  async handleJsonResponse(response: Response): Promise<any> {
+    return (await response.json()) as ClaudeResponse;
+  }
+
+  transformResponse(claudeResponse: any): ClaudeResponse {
+    return claudeResponse;
+  }
+
+  async transformHttpError(response: Response): Promise<ClaudeErrorResponse> {
+    try {
+      const body = (await response.clone().json()) as any;
+      if (body?.type === "error" && body.error) {
+        return body as ClaudeErrorResponse;
+      }
+    } catch (e) {
+      // Not an Anthropic error body, fall back to the OpenAI style parsing
+    }
+    return super.transformHttpError(response);
+  }
+
+  /**
+   * Keeps the upstream headers (`request-id`, `anthropic-ratelimit-*`,
+   * `retry-after`) minus the ones that describe the upstream connection
+   */
+  async handleStreamResponse(c: any, upstreamResponse: Response): Promise<any> {
+    const headers = new Headers(upstreamResponse.headers);
+    for (const name of HOP_BY_HOP_HEADERS) {
+      headers.delete(name);
+    }
+    headers.set("Content-Type", "text/event-stream");
+    if (!headers.has("Cache-Control")) {
+      headers.set("Cache-Control", "no-cache");
+    }
+
+    return new Response(upstreamResponse.body, {
+      status: upstreamResponse.status,
+      headers,
+    });
+  }
+}
@@ -1,10 +1,25 @@
 import { stream } from "hono/streaming";
+import {
+  applyCacheCreationSplit,
+  CacheTtl,
+  getCacheTtl,
+} from "../converters/cache";
+import {
+  CLAUDE_CONTENT_TYPES,
+  REASONING_EFFORT_MODELS,
+} from "../converters/constants";
 import {
   convertOpenAIErrorToClaude,
   handleOpenAIErrorResponse,
+  normalizeClaudeErrorType,
+  UpstreamResponseError,
 } from "../converters/error";
-import { convertClaudeRequestToOpenAI } from "../converters/request";
+import {
+  convertClaudeRequestToOpenAI,
+  convertClaudeThinkingToReasoningEffort,
+} from "../converters/request";
 import { convertOpenAINonStreamToClaude } from "../converters/response";
+import { dropOmittedArguments, SchemaProfile } from "../converters/schema";
 import {
   convertOpenAIStreamToClaude,
   createStreamState,
@@ -16,26 +31,171 @@ import {
   ClaudeErrorResponse,
   ClaudeResponse,
   ClaudeStreamResponse,
+  ClaudeThinking,
+  ClaudeUsage,
 } from "../types/claude";
 import { StreamConversionState } from "../types/conversion";
+import { UpstreamModel } from "../types/models";
+import { RetryConfig } from "../types/retry";
+import { ModelRoute } from "../types/routing";
 import {
+  ChatUsage,
   OpenAIChatCompletionsResponse,
   OpenAIChatCompletionsStreamResponse,
   OpenAIRequest,
 } from "../types/openai";
+import { DEFAULT_RETRY_CONFIG } from "../utils/retry";
 
 export abstract class BaseAdapter implements ModelAdapter {
   abstract readonly provider: string;
   abstract readonly baseUrl: string;
+  readonly defaultModelRoutes: ModelRoute[] = [];
+  readonly retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG;
+  toolSchemaProfile: SchemaProfile = "openai";
+
+  /** Ttl of the client's cache breakpoints, set by prepareRequest */
+  protected cacheTtl?: CacheTtl;
+  /** Tokens written to an upstream cache while preparing this request */
+  protected cacheCreationTokens = 0;
+  /** Original schemas of tools sent as strict functions, set by transformRequest */
+  protected strictToolSchemas?: Record<string, any>;
+
+  get supportsDocuments(): boolean {
+    return false;
+  }
 
   transformRequest(claudeRequest: ClaudeAnyContentRequest): OpenAIRequest {
-    return convertClaudeRequestToOpenAI(claudeRequest);
+    const schemaProfile = this.getToolSchemaProfile(claudeRequest);
+    this.recordStrictTools(claudeRequest, schemaProfile);
+    const openaiRequest = convertClaudeRequestToOpenAI(
+      claudeRequest,
+      schemaProfile,
+    );
+    if (claudeRequest.thinking) {
+      this.applyThinking(openaiRequest, claudeRequest.thinking);
+    }
+    this.applyPromptCache(openaiRequest, claudeRequest);
+    return openaiRequest;
+  }
+
+  /**
+   * JSON Schema dialect for tool parameters, per request so adapters serving
+   * several model families can pick by model
+   */
+  protected getToolSchemaProfile(
+    claudeRequest: ClaudeAnyContentRequest,
+  ): SchemaProfile {
+    return this.toolSchemaProfile;
+  }
+
+  /**
+   * Keep the original schemas of tools sent in strict mode, their optional
+   * arguments come back as nulls that are dropped from the response
+   */
+  protected recordStrictTools(
+    claudeRequest: ClaudeAnyContentRequest,
+    schemaProfile: SchemaProfile,
+  ): void {
+    if (schemaProfile !== "openai-strict" || !claudeRequest.tools?.length) {
+      return;
+    }
+    this.strictToolSchemas = Object.fromEntries(
+      claudeRequest.tools.map((tool) => [tool.name, tool.input_schema]),
+    );
+  }
+
+  /**
+   * Drop the nulls strict upstreams send for omitted optional arguments
+   */
+  protected dropOmittedToolArguments(claudeResponse: ClaudeResponse): void {
+    if (!this.strictToolSchemas) return;
+    for (const content of claudeResponse.content) {
+      const schema = this.strictToolSchemas[content.name || ""];
+      if (content.type === CLAUDE_CONTENT_TYPES.TOOL_USE && schema) {
+        content.input = dropOmittedArguments(schema, content.input);
+      }
+    }
+  }
+
+  /**
+   * Async work before the upstream call, after transformRequest. Adapters are
+   * created per request, so per request state can live on the instance.
+   */
+  async prepareRequest(
+    upstreamRequest: any,
+    claudeRequest: ClaudeAnyContentRequest,
+    apiKey: string,
+    baseUrl: string,
+  ): Promise<void> {
+    this.cacheTtl = getCacheTtl(claudeRequest);
+  }
+
+  /**
+   * Map `cache_control` breakpoints onto the provider's prompt caching.
+   * Most OpenAI compatible upstreams cache prefixes implicitly.
+   */
+  protected applyPromptCache(
+    openaiRequest: OpenAIRequest,
+    claudeRequest: ClaudeAnyContentRequest,
+  ): void {}
+
+  /**
+   * Report cache writes made for this request and the ttl breakdown
+   */
+  protected applyCacheUsage(usage?: ClaudeUsage): void {
+    if (!usage) return;
+
+    if (this.cacheCreationTokens) {
+      // The upstream counts a freshly created cache as read
+      const created = Math.min(
+        this.cacheCreationTokens,
+        usage.cache_read_input_tokens || 0,
+      );
+      usage.cache_read_input_tokens =
+        (usage.cache_read_input_tokens || 0) - created;
+      usage.cache_creation_input_tokens =
+        (usage.cache_creation_input_tokens || 0) + created;
+    }
+    applyCacheCreationSplit(usage, this.cacheTtl);
+  }
+
+  /**
+   * Map Claude extended thinking onto the provider's reasoning control.
+   * Defaults to OpenAI `reasoning_effort`, thinking is dropped for models
+   * that do not reason.
+   */
+  protected applyThinking(
+    openaiRequest: OpenAIRequest,
+    thinking: ClaudeThinking,
+  ): void {
+    if (!this.supportsReasoningEffort(openaiRequest.model)) {
+      return;
+    }
+    const effort = convertClaudeThinkingToReasoningEffort(thinking);
+    if (effort) {
+      openaiRequest.reasoning_effort = effort;
+    }
+  }
+
+  /**
+   * Whether the model takes `reasoning_effort`, non-reasoning models reject it
+   */
+  protected supportsReasoningEffort(model: string): boolean {
+    return REASONING_EFFORT_MODELS.test(model);
   }
 
   transformResponse(
     openaiResponse: OpenAIChatCompletionsResponse,
+    model?: string,
+    stopSequences?: string[],
   ): ClaudeResponse {
-    return convertOpenAINonStreamToClaude(openaiResponse);
+    const claudeResponse = convertOpenAINonStreamToClaude(
+      openaiResponse,
+      stopSequences,
+    );
+    this.dropOmittedToolArguments(claudeResponse);
+    this.applyCacheUsage(claudeResponse.usage);
+    return claudeResponse;
   }
 
   transformStreamResponse(
@@ -59,8 +219,14 @@ export abstract class BaseAdapter implements ModelAdapter {
     return (await openaiResponse.json()) as OpenAIChatCompletionsResponse;
   }
 
-  async handleStreamResponse(c: any, openAIResponse: Response): Promise<any> {
-    const state = createStreamState();
+  async handleStreamResponse(
+    c: any,
+    openAIResponse: Response,
+    model?: string,
+    stopSequences?: string[],
+  ): Promise<any> {
+    const state = createStreamState(stopSequences);
+    state.strictToolSchemas = this.strictToolSchemas;
     c.header("Content-Type", "text/event-stream");
 
     return stream(c, async (streamWriter) => {
@@ -104,8 +270,9 @@ export abstract class BaseAdapter implements ModelAdapter {
           }
         }
 
-        const finalEvents = getFinalStreamEvents(state, finalUsage);
+        const finalEvents = this.finalizeStream(state, finalUsage);
         for (const event of finalEvents) {
+          this.applyCacheUsage(event.usage);
           await streamWriter.write(
             `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
           );
@@ -118,7 +285,94 @@ export abstract class BaseAdapter implements ModelAdapter {
     });
   }
 
+  /**
+   * Closing events once the upstream stream ends
+   */
+  protected finalizeStream(
+    state: StreamConversionState,
+    usage?: ChatUsage,
+  ): ClaudeStreamResponse[] {
+    return getFinalStreamEvents(state, usage);
+  }
+
+  /**
+   * Extra headers for a given upstream attempt (1-based)
+   */
+  getAttemptHeaders(
+    attempt: number,
+    maxAttempts: number,
+  ): Record<string, string> {
+    return {};
+  }
+
   abstract getAuthHeaders(apiKey: string): Promise<Record<string, string>>;
 
-  abstract getCompletionPath(): string;
+  async listModels(apiKey: string): Promise<UpstreamModel[] | undefined> {
+    return undefined;
+  }
+
+  /**
+   * GET an upstream model list endpoint, rejections become Claude errors
+   */
+  protected async fetchModels(
+    url: string,
+    apiKey: string,
+    extraHeaders: Record<string, string> = {},
+  ): Promise<any> {
+    const response = await fetch(url, {
+      method: "GET",
+      headers: { ...(await this.getAuthHeaders(apiKey)), ...extraHeaders },
+    });
+    if (!response.ok) {
+      const { error } = normalizeClaudeErrorType(
+        await this.transformHttpError(response),
+        response.status,
+      );
+      throw new UpstreamResponseError(
+        error.type,
+        error.message,
+        response.status,
+      );
+    }
+    return response.json();
+  }
+
+  /**
+   * List from an OpenAI style `{ data: [{ id, created }] }` endpoint. Also
+   * reads `name`, `display_name` and `created_at` where upstreams send them.
+   */
+  protected async fetchOpenAIModels(
+    url: string,
+    apiKey: string,
+    extraHeaders?: Record<string, string>,
+  ): Promise<UpstreamModel[]> {
+    const body = await this.fetchModels(url, apiKey, extraHeaders);
+    return (body?.data || []).map((model: any): UpstreamModel => ({
+      id: model.id,
+      display_name: model.display_name || model.name,
+      created_at:
+        model.created_at ||
+        (model.created
+          ? new Date(model.created * 1000).toISOString()
+          : undefined),
+    }));
+  }
+
+  /**
+   * Headers to add to a non-streaming response, known once the upstream
+   * response has been read
+   */
+  getResponseHeaders(): Record<string, string> {
+    return {};
+  }
+
+  /**
+   * Called once when the upstream rejects the request, return true after
+   * obtaining fresh credentials to have it sent again
+   */
+  async refreshAuth(response: Response, apiKey: string): Promise<boolean> {
+    return false;
+  }
+
+  abstract getCompletionPath(claudeRequest?: ClaudeAnyContentRequest): string;
 }
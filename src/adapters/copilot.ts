@@ -1,13 +1,162 @@
+import { convertClaudeThinkingToReasoningEffort } from "../converters/request";
+import { UpstreamResponseError } from "../converters/error";
+import { SchemaProfile } from "../converters/schema";
+import {
+  ClaudeAnyContentMessage,
+  ClaudeAnyContentRequest,
+  ClaudeThinking,
+} from "../types/claude";
+import { UpstreamModel } from "../types/models";
+import { OpenAIRequest } from "../types/openai";
+import { RetryConfig } from "../types/retry";
 import { getCopilotToken } from "../utils/auth";
+import { hashString } from "../utils/hash";
+import { DEFAULT_RETRY_CONFIG } from "../utils/retry";
 import { BaseAdapter } from "./base";
 
+/**
+ * How long a token's model catalogue is reused, and how long a failed lookup
+ * is before it is retried
+ */
+const COPILOT_MODELS_TTL_MS = 60 * 60 * 1000;
+const COPILOT_MODELS_RETRY_MS = 5 * 60 * 1000;
+
+/**
+ * Entry of Copilot's `GET /models`
+ */
+interface CopilotModel {
+  id: string;
+  name?: string;
+  capabilities?: {
+    /** `chat` or `embeddings` */
+    type?: string;
+    supports?: {
+      tool_calls?: boolean;
+      vision?: boolean;
+    };
+  };
+}
+
+/**
+ * `/models` results per GitHub token (hashed)
+ */
+const copilotModelsCache = new Map<
+  string,
+  { models: CopilotModel[]; expiresAt: number }
+>();
+
+/**
+ * A turn that only returns tool results continues the agent loop, Copilot
+ * bills it as an agent request instead of a premium user request
+ */
+function isAgentTurn(messages: ClaudeAnyContentMessage[]): boolean {
+  const last = messages[messages.length - 1];
+  return (
+    last?.role === "user" &&
+    Array.isArray(last.content) &&
+    last.content.some((block: any) => block.type === "tool_result")
+  );
+}
+
+function hasImages(messages: ClaudeAnyContentMessage[]): boolean {
+  return messages.some(
+    (message) =>
+      Array.isArray(message.content) &&
+      message.content.some(
+        (block: any) =>
+          block.type === "image" ||
+          (block.type === "tool_result" &&
+            Array.isArray(block.content) &&
+            block.content.some((part: any) => part.type === "image")),
+      ),
+  );
+}
+
 export class CopilotAdapter extends BaseAdapter {
   readonly provider = "copilot";
   readonly baseUrl = "api.githubcopilot.com";
 
+  // Copilot rate limits per user over minutes, a quick second try rarely
+  // helps but its Retry-After is worth waiting for
+  readonly retryConfig: RetryConfig = {
+    ...DEFAULT_RETRY_CONFIG,
+    maxAttempts: 2,
+    maxRetryAfterMs: 60_000,
+  };
+
+  private initiator: "user" | "agent" = "user";
+  private vision = false;
+
+  async prepareRequest(
+    upstreamRequest: any,
+    claudeRequest: ClaudeAnyContentRequest,
+    apiKey: string,
+    baseUrl: string,
+  ): Promise<void> {
+    await super.prepareRequest(upstreamRequest, claudeRequest, apiKey, baseUrl);
+    this.initiator = isAgentTurn(claudeRequest.messages) ? "agent" : "user";
+    this.vision = hasImages(claudeRequest.messages);
+
+    const models = await this.getAvailableModels(apiKey);
+    const model = models.find((m) => m.id === claudeRequest.model);
+    const supports = model?.capabilities?.supports;
+    if (!supports) {
+      // Unknown to the catalogue, let Copilot decide
+      return;
+    }
+
+    if (claudeRequest.tools?.length && !supports.tool_calls) {
+      throw new UpstreamResponseError(
+        "invalid_request_error",
+        `Copilot model ${model.id} does not support tool use`,
+      );
+    }
+    if (this.vision && !supports.vision) {
+      throw new UpstreamResponseError(
+        "invalid_request_error",
+        `Copilot model ${model.id} does not support image input`,
+      );
+    }
+  }
+
+  /**
+   * Copilot's model catalogue, cached per token. Lookup failures yield an
+   * empty list so requests go out unchecked.
+   */
+  private async getAvailableModels(apiKey: string): Promise<CopilotModel[]> {
+    const cacheKey = hashString(apiKey);
+    const cached = copilotModelsCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.models;
+    }
+
+    let models: CopilotModel[] = [];
+    let ttl = COPILOT_MODELS_TTL_MS;
+    try {
+      const body = await this.fetchModels(
+        `https://${this.baseUrl}/models`,
+        apiKey,
+      );
+      models = body.data || [];
+    } catch (error) {
+      console.warn("[CopilotAdapter] model catalogue lookup failed:", error);
+      ttl = COPILOT_MODELS_RETRY_MS;
+    }
+
+    copilotModelsCache.set(cacheKey, { models, expiresAt: Date.now() + ttl });
+    return models;
+  }
+
+  async listModels(apiKey: string): Promise<UpstreamModel[]> {
+    const models = await this.getAvailableModels(apiKey);
+    return models
+      .filter((model) => (model.capabilities?.type || "chat") === "chat")
+      .map((model) => ({ id: model.id, display_name: model.name }));
+  }
+
   async getAuthHeaders(apiKey: string): Promise<Record<string, string>> {
     const realToken = await getCopilotToken(apiKey);
-    return {
+    const headers: Record<string, string> = {
       Authorization: `Bearer ${realToken}`,
       "Copilot-Integration-Id": "vscode-chat",
       "Editor-Version": "vscode/1.95.3",
@@ -17,11 +166,49 @@ export class CopilotAdapter extends BaseAdapter {
       "X-Github-Api-Version": "2025-04-01",
       "X-Request-Id": `${crypto.randomUUID()}`,
       "X-Vscode-User-Agent-Library-Version": "electron-fetch",
-      "X-Initiator": "user",
+      "X-Initiator": this.initiator,
     };
+    if (this.vision) {
+      headers["Copilot-Vision-Request"] = "true";
+    }
+    return headers;
   }
 
   getCompletionPath(): string {
     return "/chat/completions";
   }
+
+  /**
+   * Copilot fronts Gemini models with the same restricted schema support
+   */
+  protected getToolSchemaProfile(
+    claudeRequest: ClaudeAnyContentRequest,
+  ): SchemaProfile {
+    return claudeRequest.model.startsWith("gemini")
+      ? "gemini"
+      : this.toolSchemaProfile;
+  }
+
+  /**
+   * Copilot serves Claude models with a raw `thinking_budget`, reasoning
+   * models take `reasoning_effort`.
+   */
+  protected applyThinking(
+    openaiRequest: OpenAIRequest,
+    thinking: ClaudeThinking,
+  ): void {
+    if (thinking.type !== "enabled") {
+      return;
+    }
+
+    if (openaiRequest.model.startsWith("claude")) {
+      openaiRequest.thinking_budget = thinking.budget_tokens;
+      return;
+    }
+
+    if (this.supportsReasoningEffort(openaiRequest.model)) {
+      openaiRequest.reasoning_effort =
+        convertClaudeThinkingToReasoningEffort(thinking);
+    }
+  }
 }
@@ -1,21 +1,49 @@
 import { ModelAdapter } from "../types/adapter";
+import { AnthropicAdapter } from "./anthropic";
 import { CopilotAdapter } from "./copilot";
 import { GeminiAdapter } from "./gemini";
+import { GeminiNativeAdapter } from "./gemini-native";
 import { KiroAdapter } from "./kiro";
 import { OpenAIAdapter } from "./openai";
+import { OpenAIResponsesAdapter } from "./openai-responses";
+
+/**
+ * Upstreams that natively speak the Anthropic Messages API
+ */
+const ANTHROPIC_COMPATIBLE_PATTERN =
+  /^(api\.anthropic\.com|openrouter\.ai\/api)\/?$|\/anthropic\/?$/;
+
+/**
+ * Kiro / Amazon Q endpoints, e.g. `q.eu-central-1.amazonaws.com` or
+ * `codewhisperer.us-east-1.amazonaws.com`, capturing the region
+ */
+const KIRO_HOST_PATTERN =
+  /^(q|codewhisperer)\.([a-z0-9-]+)\.amazonaws\.com(?=[/:]|$)/;
 
 export function createAdapter(baseUrl: string): ModelAdapter {
+  if (ANTHROPIC_COMPATIBLE_PATTERN.test(baseUrl)) {
+    return new AnthropicAdapter(baseUrl.replace(/\/$/, ""));
+  }
+
   if (baseUrl.includes("generativelanguage.googleapis.com")) {
-    return new GeminiAdapter();
+    // `/v1beta/openai` is the compatibility layer, anything else is native
+    return baseUrl.includes("/openai")
+      ? new GeminiAdapter()
+      : new GeminiNativeAdapter();
   }
 
   if (baseUrl.includes("api.githubcopilot.com")) {
     return new CopilotAdapter();
   }
 
-  if (baseUrl.includes("codewhisperer") || baseUrl.includes("aws")) {
-    return new KiroAdapter();
+  const kiroHost = KIRO_HOST_PATTERN.exec(baseUrl);
+  if (kiroHost) {
+    return new KiroAdapter(kiroHost[2], kiroHost[0]);
+  }
+
+  if (/\/responses\/?$/.test(baseUrl)) {
+    return new OpenAIResponsesAdapter(baseUrl.replace(/\/$/, ""));
   }
 
-  return new OpenAIAdapter();
+  return new OpenAIAdapter(baseUrl.replace(/\/$/, ""));
 }
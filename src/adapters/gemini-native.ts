@@ -0,0 +1,226 @@
+import { CACHE_TTL_SECONDS, getPrefixCacheTtl } from "../converters/cache";
+import { SchemaProfile } from "../converters/schema";
+import {
+  convertClaudeRequestToGemini,
+  convertGeminiErrorToClaude,
+  convertGeminiResponseToClaude,
+  convertGeminiStreamToClaude,
+} from "../converters/gemini";
+import { buildFinalStreamEvents } from "../converters/stream";
+import {
+  ClaudeAnyContentRequest,
+  ClaudeErrorResponse,
+  ClaudeResponse,
+  ClaudeStreamResponse,
+} from "../types/claude";
+import { StreamConversionState } from "../types/conversion";
+import { GeminiRequest, GeminiResponse } from "../types/gemini";
+import { UpstreamModel } from "../types/models";
+import { hashString } from "../utils/hash";
+import { BaseAdapter } from "./base";
+
+/**
+ * cachedContents created for stable request prefixes, keyed by credential,
+ * model and prefix. A missing name records a prefix Gemini refused to cache
+ * (e.g. below the minimum token count) so it is not retried every turn.
+ */
+const cachedContentCache = new Map<
+  string,
+  { name?: string; tokens: number; expires_at: number }
+>();
+
+/**
+ * Gemini adapter speaking the native generateContent API, used when the base
+ * URL points at `/v1beta` rather than the `/v1beta/openai` compatibility layer
+ */
+export class GeminiNativeAdapter extends BaseAdapter {
+  readonly provider = "gemini-native";
+  readonly baseUrl = "generativelanguage.googleapis.com";
+  toolSchemaProfile: SchemaProfile = "gemini";
+
+  get supportsDocuments(): boolean {
+    return true;
+  }
+
+  async getAuthHeaders(apiKey: string): Promise<Record<string, string>> {
+    return {
+      "x-goog-api-key": apiKey,
+      "Content-Type": "application/json",
+    };
+  }
+
+  /**
+   * models.list, keeping models that can generate content (not embeddings)
+   */
+  async listModels(apiKey: string): Promise<UpstreamModel[]> {
+    const models: UpstreamModel[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({ pageSize: "1000" });
+      if (pageToken) params.set("pageToken", pageToken);
+
+      const body = await this.fetchModels(
+        `https://${this.baseUrl}/v1beta/models?${params}`,
+        apiKey,
+      );
+      for (const model of body.models || []) {
+        if (!model.supportedGenerationMethods?.includes("generateContent")) {
+          continue;
+        }
+        models.push({
+          id: model.name.replace(/^models\//, ""),
+          display_name: model.displayName,
+        });
+      }
+      pageToken = body.nextPageToken;
+    } while (pageToken);
+
+    return models;
+  }
+
+  getCompletionPath(claudeRequest?: ClaudeAnyContentRequest): string {
+    const model = claudeRequest?.model || "";
+    return claudeRequest?.stream
+      ? `/models/${model}:streamGenerateContent?alt=sse`
+      : `/models/${model}:generateContent`;
+  }
+
+  transformRequest(claudeRequest: ClaudeAnyContentRequest): any {
+    return convertClaudeRequestToGemini(claudeRequest);
+  }
+
+  /**
+   * Move the system instruction and tools into a cachedContent when the
+   * client put a cache breakpoint on them. Breakpoints inside the
+   * conversation are left to Gemini's implicit prefix caching.
+   */
+  async prepareRequest(
+    geminiRequest: GeminiRequest,
+    claudeRequest: ClaudeAnyContentRequest,
+    apiKey: string,
+    baseUrl: string,
+  ): Promise<void> {
+    await super.prepareRequest(geminiRequest, claudeRequest, apiKey, baseUrl);
+
+    const ttl = getPrefixCacheTtl(claudeRequest);
+    if (!ttl || (!geminiRequest.systemInstruction && !geminiRequest.tools)) {
+      return;
+    }
+
+    const prefix = {
+      systemInstruction: geminiRequest.systemInstruction,
+      tools: geminiRequest.tools,
+      toolConfig: geminiRequest.toolConfig,
+    };
+    const model = claudeRequest.model;
+    const key = hashString(JSON.stringify([apiKey, model, ttl, prefix]));
+    const now = Date.now();
+
+    let cached = cachedContentCache.get(key);
+    if (!cached || cached.expires_at <= now + 30_000) {
+      cached = await this.createCachedContent(
+        baseUrl,
+        apiKey,
+        model,
+        prefix,
+        CACHE_TTL_SECONDS[ttl],
+      );
+      cachedContentCache.set(key, cached);
+      this.cacheCreationTokens = cached.tokens;
+    }
+
+    if (!cached.name) {
+      return;
+    }
+
+    geminiRequest.cachedContent = cached.name;
+    delete geminiRequest.systemInstruction;
+    delete geminiRequest.tools;
+    delete geminiRequest.toolConfig;
+  }
+
+  private async createCachedContent(
+    baseUrl: string,
+    apiKey: string,
+    model: string,
+    prefix: Pick<GeminiRequest, "systemInstruction" | "tools" | "toolConfig">,
+    ttlSeconds: number,
+  ): Promise<{ name?: string; tokens: number; expires_at: number }> {
+    const expires_at = Date.now() + ttlSeconds * 1000;
+
+    try {
+      const response = await fetch(`https://${baseUrl}/cachedContents`, {
+        method: "POST",
+        headers: await this.getAuthHeaders(apiKey),
+        body: JSON.stringify({
+          model: `models/${model}`,
+          ...prefix,
+          ttl: `${ttlSeconds}s`,
+        }),
+      });
+
+      if (!response.ok) {
+        console.warn(
+          "Gemini cachedContents creation failed: ",
+          response.status,
+          await response.text(),
+        );
+        return { tokens: 0, expires_at };
+      }
+
+      const created = (await response.json()) as {
+        name: string;
+        expireTime?: string;
+        usageMetadata?: { totalTokenCount?: number };
+      };
+      return {
+        name: created.name,
+        tokens: created.usageMetadata?.totalTokenCount || 0,
+        expires_at: created.expireTime
+          ? Date.parse(created.expireTime)
+          : expires_at,
+      };
+    } catch (e) {
+      console.warn("Gemini cachedContents creation failed: ", e);
+      return { tokens: 0, expires_at };
+    }
+  }
+
+  async handleJsonResponse(response: Response): Promise<any> {
+    return (await response.json()) as GeminiResponse;
+  }
+
+  transformResponse(geminiResponse: any, model?: string): ClaudeResponse {
+    const claudeResponse = convertGeminiResponseToClaude(geminiResponse, model);
+    this.applyCacheUsage(claudeResponse.usage);
+    return claudeResponse;
+  }
+
+  transformStreamResponse(
+    geminiChunk: any,
+    state: StreamConversionState,
+  ): ClaudeStreamResponse[] {
+    return convertGeminiStreamToClaude(geminiChunk, state);
+  }
+
+  async transformHttpError(response: Response): Promise<ClaudeErrorResponse> {
+    try {
+      return convertGeminiErrorToClaude(await response.json());
+    } catch (e: any) {
+      return {
+        type: "error",
+        error: {
+          type: "api_error",
+          message: `HTTP ${response.status}: ${response.statusText}`,
+        },
+      };
+    }
+  }
+
+  protected finalizeStream(
+    state: StreamConversionState,
+  ): ClaudeStreamResponse[] {
+    return buildFinalStreamEvents(state, state.usage);
+  }
+}
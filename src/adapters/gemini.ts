@@ -1,8 +1,13 @@
+import { SchemaProfile } from "../converters/schema";
+import { ClaudeThinking } from "../types/claude";
+import { UpstreamModel } from "../types/models";
+import { OpenAIRequest } from "../types/openai";
 import { BaseAdapter } from "./base";
 
 export class GeminiAdapter extends BaseAdapter {
   readonly provider = "gemini";
   readonly baseUrl = "generativelanguage.googleapis.com";
+  toolSchemaProfile: SchemaProfile = "gemini";
 
   async getAuthHeaders(apiKey: string): Promise<Record<string, string>> {
     return {
@@ -13,4 +18,41 @@ export class GeminiAdapter extends BaseAdapter {
   getCompletionPath(): string {
     return "/chat/completions";
   }
+
+  /**
+   * The compatibility layer lists ids as `models/<id>`, requests take the
+   * bare id
+   */
+  async listModels(apiKey: string): Promise<UpstreamModel[]> {
+    const models = await this.fetchOpenAIModels(
+      `https://${this.baseUrl}/v1beta/openai/models`,
+      apiKey,
+    );
+    return models.map((model) => ({
+      ...model,
+      id: model.id.replace(/^models\//, ""),
+    }));
+  }
+
+  /**
+   * Gemini takes the thinking budget as-is through `extra_body`, and only
+   * returns thought summaries when `include_thoughts` is set.
+   */
+  protected applyThinking(
+    openaiRequest: OpenAIRequest,
+    thinking: ClaudeThinking,
+  ): void {
+    if (thinking.type !== "enabled") {
+      return;
+    }
+
+    openaiRequest.extra_body = {
+      google: {
+        thinking_config: {
+          thinking_budget: thinking.budget_tokens,
+          include_thoughts: true,
+        },
+      },
+    };
+  }
 }
@@ -1,6 +1,9 @@
+export * from "./anthropic";
 export * from "./base";
 export * from "./copilot";
 export * from "./factory";
 export * from "./gemini";
+export * from "./gemini-native";
 export * from "./kiro";
 export * from "./openai";
+export * from "./openai-responses";
@@ -1,237 +1,237 @@
-import { createStreamState } from "../converters/stream";
-import { ClaudeAnyContentRequest } from "../types/claude";
+import { REASONING_EFFORT_BUDGETS } from "../converters/constants";
+import { UpstreamResponseError } from "../converters/error";
+import { ClaudeAnyContentRequest, ClaudeContent } from "../types/claude";
+import { RetryConfig } from "../types/retry";
+import { ModelRoute } from "../types/routing";
+import {
+  getKiroToken,
+  KiroCredentials,
+  parseKiroCredentials,
+} from "../utils/auth";
+import { EventStreamDecoder, EventStreamMessage } from "../utils/eventstream";
+import { UpstreamModel } from "../types/models";
+import { hashString } from "../utils/hash";
+import { DEFAULT_RETRY_CONFIG } from "../utils/retry";
+import { countClaudeTokens } from "../utils/tokens";
 import { BaseAdapter } from "./base";
 
 /**
- * AWS Event Stream Parser for Kiro API
- * Kiro API returns responses in a text-based format with JSON embedded.
- * This parser uses text pattern matching to extract JSON events from the stream.
+ * Response header carrying Kiro's `contextUsagePercentage` as sent
  */
-class AwsEventStreamParser {
-  private buffer: string = "";
-  private lastContent: string | null = null;
-  private currentToolCall: any = null;
-  private toolCalls: any[] = [];
-  private decoder: TextDecoder;
-
-  constructor() {
-    // Use stream mode to handle multi-byte UTF-8 chars split across chunks
-    this.decoder = new TextDecoder("utf-8", { fatal: false, ignoreBOM: false });
-  }
-
-  // Patterns for finding JSON events (ordered by priority)
-  private EVENT_PATTERNS = [
-    { pattern: '{"content":', type: "content" },
-    { pattern: '{"name":', type: "tool_start" },
-    { pattern: '{"input":', type: "tool_input" },
-    { pattern: '{"stop":', type: "tool_stop" },
-    { pattern: '{"followupPrompt":', type: "followup" },
-    { pattern: '{"usage":', type: "usage" },
-    { pattern: '{"contextUsagePercentage":', type: "context_usage" },
-  ];
+export const KIRO_CONTEXT_USAGE_HEADER = "x-anythropic-context-usage";
 
-  feed(chunk: Uint8Array): any[] {
-    // Decode chunk to string and append to buffer
-    // Use stream: true to handle multi-byte UTF-8 chars split across chunks
-    try {
-      const textChunk = this.decoder.decode(chunk, { stream: true });
-      this.buffer += textChunk;
-    } catch (e) {
-      console.warn("[AwsEventStreamParser] Failed to decode chunk:", e);
-      return [];
-    }
-
-    const events: any[] = [];
-
-    // Process buffer until no more complete events found
-    while (true) {
-      // Find the earliest pattern in buffer
-      let earliestPos = -1;
-      let earliestType = "";
-
-      for (const { pattern, type } of this.EVENT_PATTERNS) {
-        const pos = this.buffer.indexOf(pattern);
-        if (pos !== -1 && (earliestPos === -1 || pos < earliestPos)) {
-          earliestPos = pos;
-          earliestType = type;
-        }
-      }
-
-      if (earliestPos === -1) {
-        break; // No patterns found
-      }
+/**
+ * Context window used to turn the reported context usage percentage into
+ * input tokens, when ListAvailableModels does not give the model's own
+ */
+const KIRO_CONTEXT_WINDOW = 200_000;
 
-      // Find the matching closing brace
-      const jsonEnd = this._findMatchingBrace(this.buffer, earliestPos);
-      if (jsonEnd === -1) {
-        // JSON not complete, wait for more data
-        break;
-      }
+/**
+ * Public model names Kiro only accepts under an internal ID
+ */
+const KIRO_INTERNAL_MODEL_IDS: Record<string, string> = {
+  "claude-sonnet-4.5": "CLAUDE_SONNET_4_5_20250929_V1_0",
+};
 
-      // Extract and parse JSON
-      const jsonStr = this.buffer.substring(earliestPos, jsonEnd + 1);
-      this.buffer = this.buffer.substring(jsonEnd + 1);
+/**
+ * How long a credential's model list is reused, and how long a failed
+ * lookup is before it is retried
+ */
+const KIRO_MODELS_TTL_MS = 60 * 60 * 1000;
+const KIRO_MODELS_RETRY_MS = 5 * 60 * 1000;
 
-      try {
-        const data = JSON.parse(jsonStr);
-        const event = this._processEvent(data, earliestType);
-        if (event) {
-          events.push(event);
-        }
-      } catch (e) {
-        console.warn(
-          `[AwsEventStreamParser] Failed to parse JSON: ${jsonStr.substring(0, 100)}`,
-        );
-      }
-    }
+/**
+ * ListAvailableModels results per credential (hashed)
+ */
+const kiroModelsCache = new Map<
+  string,
+  { models: UpstreamModel[]; expiresAt: number }
+>();
 
-    return events;
+/**
+ * Family and version of a Claude model name, so `claude-sonnet-4-5-20250929`,
+ * `claude-sonnet-4.5` and `CLAUDE_SONNET_4_5_20250929_V1_0` compare equal
+ */
+function kiroModelKey(name: string): string {
+  const lower = name.toLowerCase();
+  const family = /(opus|sonnet|haiku)/.exec(lower)?.[1];
+  if (!family) {
+    return lower;
   }
+  const version = /(?:^|\D)(\d)(?:[._-](\d))?(?!\d)/.exec(
+    lower.replace(/\d{8}/g, ""),
+  );
+  if (!version) {
+    return family;
+  }
+  return `${family}-${version[1]}${version[2] ? `.${version[2]}` : ""}`;
+}
 
-  /**
-   * Find the position of the matching closing brace, considering nesting and strings
-   */
-  private _findMatchingBrace(text: string, startPos: number): number {
-    if (startPos >= text.length || text[startPos] !== "{") {
-      return -1;
-    }
-
-    let braceCount = 0;
-    let inString = false;
-    let escapeNext = false;
-
-    for (let i = startPos; i < text.length; i++) {
-      const char = text[i];
+/**
+ * Pick the account's model id for a requested name, exact ids win
+ */
+export function resolveKiroModelId(
+  model: string,
+  models: UpstreamModel[],
+): string | undefined {
+  if (models.some((m) => m.id === model)) {
+    return model;
+  }
+  const key = kiroModelKey(model);
+  return models.find((m) => kiroModelKey(m.id) === key)?.id;
+}
 
-      if (escapeNext) {
-        escapeNext = false;
-        continue;
-      }
+/**
+ * Kiro exception types mapped onto Claude error types
+ */
+const KIRO_EXCEPTION_TYPES: Record<string, string> = {
+  ThrottlingException: "rate_limit_error",
+  ServiceQuotaExceededException: "rate_limit_error",
+  ValidationException: "invalid_request_error",
+  AccessDeniedException: "permission_error",
+  ResourceNotFoundException: "not_found_error",
+  InternalServerException: "api_error",
+};
 
-      if (char === "\\" && inString) {
-        escapeNext = true;
-        continue;
-      }
+/**
+ * Turns Kiro's `application/vnd.amazon.eventstream` response into content,
+ * usage and error events. Tool use fragments are collected and returned by
+ * getToolCalls once the stream is done.
+ */
+class AwsEventStreamParser {
+  private decoder = new EventStreamDecoder();
+  private textDecoder = new TextDecoder("utf-8");
+  private currentToolCall: any = null;
+  private toolCalls: any[] = [];
 
-      if (char === '"' && !escapeNext) {
-        inString = !inString;
-        continue;
-      }
+  feed(chunk: Uint8Array): any[] {
+    const events: any[] = [];
 
-      if (!inString) {
-        if (char === "{") {
-          braceCount++;
-        } else if (char === "}") {
-          braceCount--;
-          if (braceCount === 0) {
-            return i;
-          }
-        }
+    for (const message of this.decoder.feed(chunk)) {
+      const event = this._processMessage(message);
+      if (event) {
+        events.push(event);
       }
     }
 
-    return -1; // No matching brace found
-  }
-
-  private _processEvent(data: any, eventType: string): any | null {
-    if (eventType === "content") {
-      return this._processContentEvent(data);
-    } else if (eventType === "tool_start") {
-      return this._processToolStartEvent(data);
-    } else if (eventType === "tool_input") {
-      return this._processToolInputEvent(data);
-    } else if (eventType === "tool_stop") {
-      return this._processToolStopEvent(data);
-    } else if (eventType === "usage") {
-      return this._processUsageEvent(data);
-    } else if (eventType === "context_usage") {
-      return this._processContextUsageEvent(data);
-    }
-    return null;
+    return events;
   }
 
-  private _processContentEvent(data: any): any | null {
-    const content = data.content;
-    if (!content) {
-      return null;
-    }
+  private _processMessage(message: EventStreamMessage): any | null {
+    const messageType = message.headers[":message-type"];
+    const text = this.textDecoder.decode(message.payload);
 
-    // Skip followupPrompt
-    if (data.followupPrompt) {
-      return null;
+    if (messageType === "exception" || messageType === "error") {
+      return this._processExceptionMessage(message, text);
     }
 
-    // Deduplicate repeating content
-    if (content === this.lastContent) {
-      console.debug(
-        `[AwsEventStreamParser] Skipping duplicate content: "${content.substring(0, 50)}..."`,
+    let data: any;
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch (e) {
+      console.warn(
+        `[AwsEventStreamParser] Failed to parse payload: ${text.substring(0, 100)}`,
       );
       return null;
     }
 
-    console.debug(
-      `[AwsEventStreamParser] Content event: "${content.substring(0, 100)}..." (prev was: "${this.lastContent?.substring(0, 50) || "null"}...")`,
-    );
-    this.lastContent = content;
-    return { type: "content", data: content };
+    switch (message.headers[":event-type"]) {
+      case "assistantResponseEvent":
+        return this._processContentEvent(data);
+      case "reasoningContentEvent":
+        return data.text ? { type: "thinking", data: data.text } : null;
+      case "toolUseEvent":
+        return this._processToolUseEvent(data);
+      case "meteringEvent":
+        return this._processUsageEvent(data);
+      case "contextUsageEvent":
+        return this._processContextUsageEvent(data);
+      default:
+        // followupPromptEvent, messageMetadataEvent, codeReferenceEvent, ...
+        return null;
+    }
   }
 
-  private _processToolStartEvent(data: any): any | null {
-    // Finalize previous tool call if exists
-    if (this.currentToolCall) {
-      this._finalizeToolCall();
-    }
+  private _processExceptionMessage(
+    message: EventStreamMessage,
+    text: string,
+  ): any {
+    const exceptionType = String(
+      message.headers[":exception-type"] ||
+        message.headers[":error-code"] ||
+        "InternalServerException",
+    );
 
-    // input can be string or object
-    let inputStr = "";
-    if (data.input) {
-      if (typeof data.input === "object") {
-        inputStr = JSON.stringify(data.input);
-      } else {
-        inputStr = String(data.input);
-      }
+    let errorMessage = String(message.headers[":error-message"] || text);
+    try {
+      errorMessage = JSON.parse(text).message || errorMessage;
+    } catch (e) {
+      // Plain text payload
     }
 
-    this.currentToolCall = {
-      id: data.toolUseId || this._generateToolCallId(),
-      type: "function",
-      function: {
-        name: data.name || "",
-        arguments: inputStr,
+    return {
+      type: "error",
+      data: {
+        type: KIRO_EXCEPTION_TYPES[exceptionType] || "api_error",
+        message: `${exceptionType}: ${errorMessage}`,
       },
     };
+  }
 
-    if (data.stop) {
+  private _processContentEvent(data: any): any | null {
+    if (!data.content) {
+      return null;
+    }
+    return { type: "content", data: data.content };
+  }
+
+  /**
+   * Tool input arrives as string fragments across several events sharing a
+   * toolUseId, the last one carries `stop: true`
+   */
+  private _processToolUseEvent(data: any): any | null {
+    if (
+      data.toolUseId &&
+      this.currentToolCall &&
+      this.currentToolCall.id !== data.toolUseId
+    ) {
       this._finalizeToolCall();
     }
 
-    return null;
-  }
+    if (!this.currentToolCall) {
+      this.currentToolCall = {
+        id: data.toolUseId || this._generateToolCallId(),
+        type: "function",
+        function: {
+          name: data.name || "",
+          arguments: "",
+        },
+      };
+    }
 
-  private _processToolInputEvent(data: any): any | null {
-    if (this.currentToolCall) {
-      let inputStr = "";
-      if (data.input) {
-        if (typeof data.input === "object") {
-          inputStr = JSON.stringify(data.input);
-        } else {
-          inputStr = String(data.input);
-        }
-      }
-      this.currentToolCall.function.arguments += inputStr;
+    if (data.input !== undefined && data.input !== null) {
+      this.currentToolCall.function.arguments +=
+        typeof data.input === "object"
+          ? JSON.stringify(data.input)
+          : String(data.input);
     }
-    return null;
-  }
 
-  private _processToolStopEvent(data: any): any | null {
-    if (this.currentToolCall && data.stop) {
+    if (data.stop) {
       this._finalizeToolCall();
     }
+
     return null;
   }
 
   private _processUsageEvent(data: any): any | null {
-    return { type: "usage", data: data.usage || data };
+    const usage = typeof data.usage === "object" ? data.usage : data;
+    const inputTokens = usage.inputTokens ?? usage.promptTokens;
+    const outputTokens = usage.outputTokens ?? usage.completionTokens;
+    // meteringEvent usually reports credits rather than tokens
+    if (inputTokens === undefined && outputTokens === undefined) {
+      return null;
+    }
+    return { type: "usage", data: { inputTokens, outputTokens } };
   }
 
   private _processContextUsageEvent(data: any): any | null {
@@ -294,19 +294,240 @@ class AwsEventStreamParser {
   private _generateToolCallId(): string {
     return `tool_${Date.now()}_${Math.random().toString(36).substr(2, 4)}`;
   }
+}
+
+/**
+ * Tool arguments assembled from the stream, an object even when malformed
+ */
+function parseToolArguments(args: string | undefined): Record<string, any> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (e) {
+    console.warn(`[KiroAdapter] Invalid tool arguments: ${args.slice(0, 100)}`);
+    return {};
+  }
+}
+
+/**
+ * Stand-in content for turns Kiro would otherwise reject as empty or missing
+ */
+const KIRO_PLACEHOLDER_USER = "Continue.";
+const KIRO_PLACEHOLDER_ASSISTANT = "Understood.";
+const KIRO_MISSING_TOOL_RESULT = "Tool result is not available.";
+
+function mergeText(a: string, b: string): string {
+  return [a, b].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Reshape converted turns into what Kiro accepts: strictly alternating
+ * user/assistant, starting and ending with a user turn, every tool result
+ * answering a tool use of the turn before it and every tool use answered.
+ */
+function normalizeKiroHistory(turns: any[], model: string): any[] {
+  const userTurn = (content: string) => ({
+    userInputMessage: { content, modelId: model, origin: "AI_EDITOR" },
+  });
+
+  // Merge consecutive turns from the same role
+  const merged: any[] = [];
+  for (const turn of turns) {
+    const previous = merged[merged.length - 1];
+    if (turn.userInputMessage && previous?.userInputMessage) {
+      const target = previous.userInputMessage;
+      const source = turn.userInputMessage;
+      target.content = mergeText(target.content, source.content);
+      if (source.images) {
+        target.images = [...(target.images || []), ...source.images];
+      }
+      const toolResults = source.userInputMessageContext?.toolResults;
+      if (toolResults) {
+        target.userInputMessageContext = {
+          toolResults: [
+            ...(target.userInputMessageContext?.toolResults || []),
+            ...toolResults,
+          ],
+        };
+      }
+    } else if (
+      turn.assistantResponseMessage &&
+      previous?.assistantResponseMessage
+    ) {
+      const target = previous.assistantResponseMessage;
+      const source = turn.assistantResponseMessage;
+      target.content = mergeText(target.content, source.content);
+      if (source.toolUses) {
+        target.toolUses = [...(target.toolUses || []), ...source.toolUses];
+      }
+    } else {
+      merged.push(turn);
+    }
+  }
 
-  getBuffer(): string {
-    return this.buffer;
+  if (!merged[0]?.userInputMessage) {
+    merged.unshift(userTurn(KIRO_PLACEHOLDER_USER));
+  }
+  if (!merged[merged.length - 1].userInputMessage) {
+    merged.push(userTurn(KIRO_PLACEHOLDER_USER));
   }
 
-  reset(): void {
+  // Pair tool results with the tool uses of the preceding assistant turn
+  for (let i = 0; i < merged.length; i++) {
+    const user = merged[i].userInputMessage;
+    if (!user) continue;
+
+    const toolUses: any[] =
+      merged[i - 1]?.assistantResponseMessage?.toolUses || [];
+    const toolUseIds = new Set(toolUses.map((toolUse) => toolUse.toolUseId));
+    const toolResults: any[] = user.userInputMessageContext?.toolResults || [];
+
+    const answered = toolResults.filter((result) =>
+      toolUseIds.has(result.toolUseId),
+    );
+    // Results without a matching tool use are kept as plain text, ahead of
+    // what the user wrote after them
+    const orphans = toolResults
+      .filter((result) => !answered.includes(result))
+      .map(
+        (result) =>
+          `[Tool result ${result.toolUseId}]\n${result.content.map((part: any) => part.text).join("\n")}`,
+      );
+    user.content = mergeText(orphans.join("\n\n"), user.content);
+    for (const toolUse of toolUses) {
+      if (!answered.some((result) => result.toolUseId === toolUse.toolUseId)) {
+        answered.push({
+          content: [{ text: KIRO_MISSING_TOOL_RESULT }],
+          status: "error",
+          toolUseId: toolUse.toolUseId,
+        });
+      }
+    }
+
+    if (answered.length > 0) {
+      user.userInputMessageContext = { toolResults: answered };
+    } else {
+      delete user.userInputMessageContext;
+    }
+  }
+
+  // Kiro rejects turns without any content
+  for (const turn of merged) {
+    const user = turn.userInputMessage;
+    const assistant = turn.assistantResponseMessage;
+    if (
+      user &&
+      !user.content &&
+      !user.images &&
+      !user.userInputMessageContext
+    ) {
+      user.content = KIRO_PLACEHOLDER_USER;
+    } else if (assistant && !assistant.content && !assistant.toolUses) {
+      assistant.content = KIRO_PLACEHOLDER_ASSISTANT;
+    }
+  }
+
+  return merged;
+}
+
+interface KiroTextSegment {
+  type: "text" | "thinking";
+  text: string;
+}
+
+const THINKING_OPEN_TAG = "<thinking>";
+const THINKING_CLOSE_TAG = "</thinking>";
+
+/**
+ * In reasoning mode Kiro streams the thinking inline, wrapped in
+ * `<thinking>` tags ahead of the answer. Splits content deltas into thinking
+ * and text segments, holding back anything that may be the start of a tag
+ * split across chunks.
+ */
+class KiroThinkingParser {
+  private buffer = "";
+  private inThinking = false;
+  private done: boolean;
+
+  constructor(enabled: boolean) {
+    this.done = !enabled;
+  }
+
+  feed(text: string): KiroTextSegment[] {
+    if (this.done) {
+      return text ? [{ type: "text", text }] : [];
+    }
+
+    this.buffer += text;
+    const segments: KiroTextSegment[] = [];
+
+    if (!this.inThinking) {
+      const trimmed = this.buffer.trimStart();
+      if (trimmed.startsWith(THINKING_OPEN_TAG)) {
+        this.inThinking = true;
+        this.buffer = trimmed.slice(THINKING_OPEN_TAG.length);
+      } else if (!THINKING_OPEN_TAG.startsWith(trimmed)) {
+        // The answer did not open with a thinking block
+        return this.finish(segments);
+      } else {
+        return segments;
+      }
+    }
+
+    const end = this.buffer.indexOf(THINKING_CLOSE_TAG);
+    if (end !== -1) {
+      segments.push({ type: "thinking", text: this.buffer.slice(0, end) });
+      this.buffer = this.buffer
+        .slice(end + THINKING_CLOSE_TAG.length)
+        .replace(/^\s+/, "");
+      return this.finish(segments);
+    }
+
+    const safe = this.buffer.length - partialTagLength(this.buffer);
+    segments.push({ type: "thinking", text: this.buffer.slice(0, safe) });
+    this.buffer = this.buffer.slice(safe);
+    return segments.filter((segment) => segment.text);
+  }
+
+  /**
+   * Whatever is still held back once the stream ends
+   */
+  flush(): KiroTextSegment[] {
+    const type = this.inThinking && !this.done ? "thinking" : "text";
+    const segments: KiroTextSegment[] = this.buffer
+      ? [{ type, text: this.buffer }]
+      : [];
     this.buffer = "";
-    this.lastContent = null;
-    this.currentToolCall = null;
-    this.toolCalls = [];
-    // Reset decoder to clear any buffered incomplete sequences
-    this.decoder = new TextDecoder("utf-8", { fatal: false, ignoreBOM: false });
+    this.done = true;
+    return segments;
   }
+
+  private finish(segments: KiroTextSegment[]): KiroTextSegment[] {
+    this.done = true;
+    this.inThinking = false;
+    if (this.buffer) {
+      segments.push({ type: "text", text: this.buffer });
+    }
+    this.buffer = "";
+    return segments.filter((segment) => segment.text);
+  }
+}
+
+/**
+ * Length of the longest suffix of `text` that starts the closing tag
+ */
+function partialTagLength(text: string): number {
+  for (
+    let n = Math.min(THINKING_CLOSE_TAG.length - 1, text.length);
+    n > 0;
+    n--
+  ) {
+    if (THINKING_CLOSE_TAG.startsWith(text.slice(-n))) {
+      return n;
+    }
+  }
+  return 0;
 }
 
 /**
@@ -314,18 +535,190 @@ class AwsEventStreamParser {
  */
 export class KiroAdapter extends BaseAdapter {
   readonly provider = "kiro";
-  readonly baseUrl = "q.us-east-1.amazonaws.com";
+  readonly baseUrl: string;
+
+  // Kiro accepts model IDs in format "claude-{tier}-4.5", dated Claude Code
+  // names map onto the same IDs. Sonnet 4.5 only has an internal ID, which
+  // transformRequest swaps in so responses keep the public name.
+  readonly defaultModelRoutes: ModelRoute[] = [
+    { match: "claude-haiku-4?5*", model: "claude-haiku-4.5" },
+    { match: "claude-sonnet-4?5*", model: "claude-sonnet-4.5" },
+    { match: "claude-opus-4?5*", model: "claude-opus-4.5" },
+  ];
 
-  private region: string;
-  private clientId?: string;
-  private clientSecret?: string;
+  // AWS SDK standard retry mode, backoff capped at 20s
+  readonly retryConfig: RetryConfig = {
+    ...DEFAULT_RETRY_CONFIG,
+    baseDelayMs: 1000,
+    maxDelayMs: 20_000,
+  };
 
-  constructor(region: string = "us-east-1") {
+  private region: string;
+  /** Set by prepareRequest when the client sent refresh credentials */
+  private credentials?: KiroCredentials;
+  private accessToken?: string;
+  /** Set by transformRequest, the response then starts with a thinking block */
+  private thinkingEnabled = false;
+  /** Public name of the requested model, echoed back in responses */
+  private requestedModel = "";
+  /** Local tiktoken count, until Kiro reports how full the context is */
+  private estimatedInputTokens = 0;
+  private contextUsagePercentage?: number;
+  /** The requested model's input limit from ListAvailableModels */
+  private contextWindow?: number;
+
+  constructor(region: string = "us-east-1", host?: string) {
     super();
     this.region = region;
-    // clientId and clientSecret are no longer needed since token exchange happens in Zsh
-    this.clientId = undefined;
-    this.clientSecret = undefined;
+    this.baseUrl = host || `q.${region}.amazonaws.com`;
+  }
+
+  /**
+   * Exchange refresh credentials for an access token and attach the profile
+   * ARN. A plain access token is sent as is.
+   */
+  async prepareRequest(
+    upstreamRequest: any,
+    claudeRequest: ClaudeAnyContentRequest,
+    apiKey: string,
+    baseUrl: string,
+  ): Promise<void> {
+    await super.prepareRequest(upstreamRequest, claudeRequest, apiKey, baseUrl);
+    this.estimatedInputTokens = countClaudeTokens(claudeRequest);
+
+    const profileArn = await this.authenticate(apiKey);
+    if (profileArn) {
+      upstreamRequest.profileArn = profileArn;
+    }
+
+    // Map the requested name onto an id this account actually has
+    const models = await this.getAvailableModels(apiKey, profileArn);
+    const modelId = resolveKiroModelId(claudeRequest.model, models);
+    this.contextWindow = models.find(
+      (model) => model.id === modelId,
+    )?.max_input_tokens;
+    if (modelId && modelId !== claudeRequest.model) {
+      console.debug(
+        `[KiroAdapter] model ${claudeRequest.model} resolved to ${modelId}`,
+      );
+      const { currentMessage, history } = upstreamRequest.conversationState;
+      currentMessage.userInputMessage.modelId = modelId;
+      for (const turn of history || []) {
+        if (turn.userInputMessage) {
+          turn.userInputMessage.modelId = modelId;
+        }
+      }
+    }
+  }
+
+  /**
+   * Exchange refresh credentials for an access token, returns the profile
+   * ARN when known. A plain access token is used as is.
+   */
+  private async authenticate(apiKey: string): Promise<string | undefined> {
+    this.credentials = parseKiroCredentials(apiKey);
+    if (!this.credentials) {
+      return undefined;
+    }
+
+    const { accessToken, profileArn } = await getKiroToken(
+      this.credentials,
+      this.region,
+    );
+    this.accessToken = accessToken;
+    return profileArn;
+  }
+
+  async listModels(apiKey: string): Promise<UpstreamModel[]> {
+    const profileArn = await this.authenticate(apiKey);
+    return this.getAvailableModels(apiKey, profileArn);
+  }
+
+  /**
+   * ListAvailableModels, cached per credential. Lookup failures yield an
+   * empty list so requests still go out with the routed model name.
+   */
+  private async getAvailableModels(
+    apiKey: string,
+    profileArn?: string,
+  ): Promise<UpstreamModel[]> {
+    const cacheKey = `${this.region}:${hashString(apiKey)}`;
+    const cached = kiroModelsCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.models;
+    }
+
+    let models: UpstreamModel[] = [];
+    let ttl = KIRO_MODELS_TTL_MS;
+    try {
+      models = await this.fetchAvailableModels(apiKey, profileArn);
+    } catch (error) {
+      console.warn("[KiroAdapter] ListAvailableModels failed:", error);
+      ttl = KIRO_MODELS_RETRY_MS;
+    }
+
+    kiroModelsCache.set(cacheKey, { models, expiresAt: Date.now() + ttl });
+    return models;
+  }
+
+  private async fetchAvailableModels(
+    apiKey: string,
+    profileArn?: string,
+  ): Promise<UpstreamModel[]> {
+    const { "x-amz-target": _, ...headers } = await this.getAuthHeaders(apiKey);
+    const models: UpstreamModel[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({ origin: "AI_EDITOR" });
+      if (profileArn) params.set("profileArn", profileArn);
+      if (nextToken) params.set("nextToken", nextToken);
+
+      const response = await fetch(
+        `https://${this.baseUrl}/ListAvailableModels?${params}`,
+        { method: "GET", headers },
+      );
+      if (!response.ok) {
+        throw new Error(
+          `ListAvailableModels returned ${response.status}: ${await response.text()}`,
+        );
+      }
+
+      const data = (await response.json()) as any;
+      for (const model of data.models || []) {
+        models.push({
+          id: model.modelId,
+          display_name: model.modelName || model.modelId,
+          max_input_tokens: model.tokenLimits?.maxInputTokens,
+        });
+      }
+      nextToken = data.nextToken;
+    } while (nextToken);
+
+    return models;
+  }
+
+  /**
+   * Kiro answers an expired or revoked bearer token with a 403
+   */
+  async refreshAuth(response: Response, apiKey: string): Promise<boolean> {
+    if (response.status !== 403 || !this.credentials) {
+      return false;
+    }
+
+    const body = await response.clone().text();
+    if (!/token/i.test(body)) {
+      return false;
+    }
+
+    console.log("[KiroAdapter] access token rejected, refreshing");
+    const { accessToken } = await getKiroToken(
+      this.credentials,
+      this.region,
+      true,
+    );
+    this.accessToken = accessToken;
+    return true;
   }
 
   /**
@@ -334,19 +727,18 @@ export class KiroAdapter extends BaseAdapter {
   async handleStreamResponse(
     c: any,
     openAIResponse: Response,
-    model: string = "claude-4-5-sonnet",
+    model?: string,
   ): Promise<any> {
-    const state = createStreamState();
-    let messageStarted = false;
-
+    model = model || this.requestedModel;
     console.debug(
       `[KiroAdapter] Starting stream response handling for model: ${model}`,
     );
 
     const parser = new AwsEventStreamParser();
+    const thinkingParser = new KiroThinkingParser(this.thinkingEnabled);
     const reader = openAIResponse.body!.getReader();
-    const decoder = new TextDecoder();
     let finalUsage: any = undefined;
+    let streamError: { type: string; message: string } | undefined;
 
     // Set headers first
     c.header("Content-Type", "text/event-stream");
@@ -358,90 +750,114 @@ export class KiroAdapter extends BaseAdapter {
     const writer = writable.getWriter();
     const encoder = new TextEncoder();
 
+    const send = (event: any) =>
+      writer.write(
+        encoder.encode(
+          `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+        ),
+      );
+
+    let messageStarted = false;
+    let contentBlockIndex = 0;
+    let openBlock: "text" | "thinking" | undefined;
+
+    const startMessage = async () => {
+      if (messageStarted) return;
+      messageStarted = true;
+      await send({
+        type: "message_start",
+        message: {
+          id: `msg_${Date.now()}`,
+          type: "message",
+          role: "assistant",
+          model,
+          content: [],
+          usage: { input_tokens: this.estimatedInputTokens, output_tokens: 0 },
+          stop_reason: null,
+          stop_sequence: null,
+        },
+      });
+      await send({ type: "ping" });
+    };
+
+    const stopBlock = async () => {
+      if (!openBlock) return;
+      await send({ type: "content_block_stop", index: contentBlockIndex });
+      contentBlockIndex++;
+      openBlock = undefined;
+    };
+
+    // Text and thinking deltas go to the open block of the same type, a
+    // change of type closes it and starts a new one
+    const writeDelta = async (type: "text" | "thinking", text: string) => {
+      if (!text) return;
+      await startMessage();
+      if (openBlock !== type) {
+        await stopBlock();
+        openBlock = type;
+        await send({
+          type: "content_block_start",
+          index: contentBlockIndex,
+          content_block:
+            type === "text"
+              ? { type: "text", text: "" }
+              : { type: "thinking", thinking: "", signature: "" },
+        });
+      }
+      await send({
+        type: "content_block_delta",
+        index: contentBlockIndex,
+        delta:
+          type === "text"
+            ? { type: "text_delta", text }
+            : { type: "thinking_delta", thinking: text },
+      });
+    };
+
     // Process the stream in the background
     (async () => {
       try {
-        let contentBlockIndex = 0;
-        let textBlockStarted = false; // Track if we sent content_block_start for text
-
         while (true) {
           const { done, value } = await reader.read();
           if (done) {
             break;
           }
 
-          const chunk = value; // Already Uint8Array from reader
-          const events = parser.feed(chunk);
+          const events = parser.feed(value);
 
           for (const event of events) {
             if (event.type === "content") {
-              // Initialize stream if not already done
-              if (!messageStarted) {
-                messageStarted = true;
-                state.messageId = `msg_${Date.now()}`;
-
-                // Send message_start
-                const messageStartEvent = {
-                  type: "message_start",
-                  message: {
-                    id: state.messageId,
-                    type: "message",
-                    role: "assistant",
-                    model: model,
-                    content: [],
-                    usage: { input_tokens: 0, output_tokens: 0 },
-                    stop_reason: null,
-                    stop_sequence: null,
-                  },
-                };
-
-                const messageStartData = `event: ${messageStartEvent.type}\ndata: ${JSON.stringify(messageStartEvent)}\n\n`;
-                await writer.write(encoder.encode(messageStartData));
-                console.debug(`[KiroAdapter] Sent message_start`);
-
-                // Send ping
-                const pingEvent = { type: "ping" };
-                const pingData = `event: ping\ndata: ${JSON.stringify(pingEvent)}\n\n`;
-                await writer.write(encoder.encode(pingData));
-
-                // Send content_block_start for text
-                textBlockStarted = true;
-                const contentBlockStartEvent = {
-                  type: "content_block_start",
-                  index: contentBlockIndex,
-                  content_block: {
-                    type: "text",
-                    text: "",
-                  },
-                };
-
-                const contentBlockStartData = `event: ${contentBlockStartEvent.type}\ndata: ${JSON.stringify(contentBlockStartEvent)}\n\n`;
-                await writer.write(encoder.encode(contentBlockStartData));
-                console.debug(
-                  `[KiroAdapter] Sent content_block_start for text`,
-                );
+              for (const segment of thinkingParser.feed(event.data)) {
+                await writeDelta(segment.type, segment.text);
               }
-
-              // Send content_block_delta
-              const contentDeltaEvent = {
-                type: "content_block_delta",
-                index: contentBlockIndex,
-                delta: {
-                  type: "text_delta",
-                  text: event.data,
-                },
-              };
-
-              const contentDeltaData = `event: ${contentDeltaEvent.type}\ndata: ${JSON.stringify(contentDeltaEvent)}\n\n`;
-              console.debug(
-                `[KiroAdapter] Writing delta at ${Date.now()}: "${event.data.substring(0, 20)}..."`,
-              );
-              await writer.write(encoder.encode(contentDeltaData));
+            } else if (event.type === "thinking") {
+              await writeDelta("thinking", event.data);
             } else if (event.type === "usage") {
               finalUsage = event.data;
+            } else if (event.type === "context_usage") {
+              this.contextUsagePercentage = event.data;
+            } else if (event.type === "error") {
+              streamError = event.data;
+              break;
             }
             // tool_start, tool_input, tool_stop are handled internally by parser
           }
+
+          if (streamError) {
+            await reader.cancel();
+            break;
+          }
+        }
+
+        if (streamError) {
+          throw new UpstreamResponseError(
+            streamError.type,
+            streamError.message,
+          );
+        }
+
+        for (const segment of thinkingParser.flush()) {
+          await writeDelta(segment.type, segment.text);
         }
 
         console.debug(`[KiroAdapter] Stream processing complete`);
@@ -455,52 +871,11 @@ export class KiroAdapter extends BaseAdapter {
             `[KiroAdapter] Found ${toolCalls.length} tool calls:`,
             toolCalls.map((tc) => tc.function?.name),
           );
-        }
-
-        // If we haven't started the message yet but have tool calls, start now
-        if (!messageStarted && hasToolCalls) {
-          messageStarted = true;
-          state.messageId = `msg_${Date.now()}`;
-
-          // Send message_start
-          const messageStartEvent = {
-            type: "message_start",
-            message: {
-              id: state.messageId,
-              type: "message",
-              role: "assistant",
-              model: model,
-              content: [],
-              usage: { input_tokens: 0, output_tokens: 0 },
-              stop_reason: null,
-              stop_sequence: null,
-            },
-          };
-
-          const messageStartData = `event: ${messageStartEvent.type}\ndata: ${JSON.stringify(messageStartEvent)}\n\n`;
-          await writer.write(encoder.encode(messageStartData));
-          console.debug(
-            `[KiroAdapter] Sent message_start (tool-only response)`,
-          );
-
-          // Send ping
-          const pingEvent = { type: "ping" };
-          const pingData = `event: ping\ndata: ${JSON.stringify(pingEvent)}\n\n`;
-          await writer.write(encoder.encode(pingData));
+          await startMessage();
         }
 
         if (messageStarted) {
-          // Only close text content block if it was actually started
-          if (textBlockStarted) {
-            const textBlockStopEvent = {
-              type: "content_block_stop",
-              index: contentBlockIndex,
-            };
-            const textBlockStopData = `event: ${textBlockStopEvent.type}\ndata: ${JSON.stringify(textBlockStopEvent)}\n\n`;
-            await writer.write(encoder.encode(textBlockStopData));
-            console.debug(`[KiroAdapter] Sent content_block_stop for text`);
-            contentBlockIndex++;
-          }
+          await stopBlock();
 
           // Send tool_use content blocks
           for (const tc of toolCalls) {
@@ -508,8 +883,7 @@ export class KiroAdapter extends BaseAdapter {
               `[KiroAdapter] Sending tool_use block: ${tc.function?.name}`,
             );
 
-            // content_block_start for tool_use
-            const toolBlockStartEvent = {
+            await send({
               type: "content_block_start",
               index: contentBlockIndex,
               content_block: {
@@ -518,37 +892,22 @@ export class KiroAdapter extends BaseAdapter {
                 name: tc.function?.name || "",
                 input: {},
               },
-            };
-            const toolBlockStartData = `event: ${toolBlockStartEvent.type}\ndata: ${JSON.stringify(toolBlockStartEvent)}\n\n`;
-            await writer.write(encoder.encode(toolBlockStartData));
-
-            // content_block_delta with input_json_delta
-            let inputObj = {};
-            try {
-              inputObj = JSON.parse(tc.function?.arguments || "{}");
-            } catch (e) {
-              inputObj = {};
-            }
+            });
 
-            const toolDeltaEvent = {
+            await send({
               type: "content_block_delta",
               index: contentBlockIndex,
               delta: {
                 type: "input_json_delta",
-                partial_json: JSON.stringify(inputObj),
+                partial_json: JSON.stringify(
+                  parseToolArguments(tc.function?.arguments),
+                ),
               },
-            };
-            const toolDeltaData = `event: ${toolDeltaEvent.type}\ndata: ${JSON.stringify(toolDeltaEvent)}\n\n`;
-            await writer.write(encoder.encode(toolDeltaData));
-
-            // content_block_stop
-            const toolBlockStopEvent = {
+            });
+            await send({
               type: "content_block_stop",
               index: contentBlockIndex,
-            };
-            const toolBlockStopData = `event: ${toolBlockStopEvent.type}\ndata: ${JSON.stringify(toolBlockStopEvent)}\n\n`;
-            await writer.write(encoder.encode(toolBlockStopData));
-
+            });
             contentBlockIndex++;
           }
 
@@ -558,34 +917,31 @@ export class KiroAdapter extends BaseAdapter {
             `[KiroAdapter] Sending message_delta with stop_reason: ${stopReason}`,
           );
 
-          const messageDeltaEvent = {
+          await send({
             type: "message_delta",
             delta: {
               stop_reason: stopReason,
               stop_sequence: null,
             },
-            usage: finalUsage
-              ? {
-                  input_tokens: finalUsage.promptTokens || 0,
-                  output_tokens: finalUsage.completionTokens || 0,
-                }
-              : { input_tokens: 0, output_tokens: 0 },
-          };
-
-          const messageDeltaData = `event: ${messageDeltaEvent.type}\ndata: ${JSON.stringify(messageDeltaEvent)}\n\n`;
-          await writer.write(encoder.encode(messageDeltaData));
-
-          // Send message_stop
-          const messageStopEvent = { type: "message_stop" };
-          const messageStopData = `event: ${messageStopEvent.type}\ndata: ${JSON.stringify(messageStopEvent)}\n\n`;
-          await writer.write(encoder.encode(messageStopData));
+            usage: this.resolveUsage(finalUsage),
+          });
+          await send({ type: "message_stop" });
           console.debug(`[KiroAdapter] Sent message_stop`);
         }
 
         await writer.write(encoder.encode("data: [DONE]\n\n"));
         console.debug(`[KiroAdapter] Stream complete, sent [DONE]`);
-      } catch (error) {
+      } catch (error: any) {
         console.error("[KiroAdapter] Stream error:", error);
+        // Surface upstream exceptions and corrupt frames as a Claude error event
+        await send({
+          type: "error",
+          error: {
+            type:
+              error instanceof UpstreamResponseError ? error.type : "api_error",
+            message: error?.message || String(error),
+          },
+        });
       } finally {
         reader.releaseLock();
         await writer.close();
@@ -607,13 +963,26 @@ export class KiroAdapter extends BaseAdapter {
    */
   async handleJsonResponse(response: Response) {
     const parser = new AwsEventStreamParser();
+    const thinkingParser = new KiroThinkingParser(this.thinkingEnabled);
     const reader = response.body!.getReader();
 
     let completeResponse: any = {
       content: "",
+      reasoning: "",
       tool_calls: [],
       usage: { prompt_tokens: 0, completion_tokens: 0 },
     };
+    let reportedUsage: any = undefined;
+
+    const appendSegments = (segments: KiroTextSegment[]) => {
+      for (const segment of segments) {
+        if (segment.type === "thinking") {
+          completeResponse.reasoning += segment.text;
+        } else {
+          completeResponse.content += segment.text;
+        }
+      }
+    };
 
     try {
       while (true) {
@@ -625,29 +994,77 @@ export class KiroAdapter extends BaseAdapter {
 
         for (const event of events) {
           if (event.type === "content" && event.data) {
-            completeResponse.content += event.data;
+            appendSegments(thinkingParser.feed(event.data));
+          } else if (event.type === "thinking" && event.data) {
+            completeResponse.reasoning += event.data;
+          } else if (event.type === "error") {
+            throw new UpstreamResponseError(
+              event.data.type,
+              event.data.message,
+            );
           } else if (event.type === "usage" && event.data) {
-            completeResponse.usage = {
-              prompt_tokens: event.data.promptTokens || 0,
-              completion_tokens: event.data.completionTokens || 0,
-            };
+            reportedUsage = event.data;
+          } else if (event.type === "context_usage") {
+            this.contextUsagePercentage = event.data;
           }
           // tool_start, tool_input, tool_stop are handled internally by parser
         }
       }
 
+      appendSegments(thinkingParser.flush());
+
       // Get all tool calls collected by parser
       completeResponse.tool_calls = parser.getToolCalls();
 
+      const usage = this.resolveUsage(reportedUsage);
+      completeResponse.usage = {
+        prompt_tokens: usage.input_tokens,
+        completion_tokens: usage.output_tokens,
+      };
+
       return completeResponse;
     } finally {
       reader.releaseLock();
     }
   }
 
+  /**
+   * Input tokens as reported, else derived from the context usage percentage,
+   * else the local estimate
+   */
+  private resolveUsage(usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+  }) {
+    let inputTokens = usage?.inputTokens;
+    if (inputTokens === undefined && this.contextUsagePercentage) {
+      inputTokens = Math.round(
+        (this.contextUsagePercentage / 100) *
+          (this.contextWindow || KIRO_CONTEXT_WINDOW),
+      );
+    }
+    return {
+      input_tokens: inputTokens ?? this.estimatedInputTokens,
+      output_tokens: usage?.outputTokens || 0,
+    };
+  }
+
+  /**
+   * Non-streaming only, Kiro reports context usage at the end of a stream
+   * when the response headers are long sent
+   */
+  getResponseHeaders(): Record<string, string> {
+    if (this.contextUsagePercentage === undefined) {
+      return {};
+    }
+    return {
+      [KIRO_CONTEXT_USAGE_HEADER]: String(this.contextUsagePercentage),
+    };
+  }
+
   async getAuthHeaders(apiKey: string): Promise<Record<string, string>> {
     return {
-      Authorization: `Bearer ${apiKey}`,
+      Authorization: `Bearer ${this.accessToken || apiKey}`,
       "Content-Type": "application/json",
       "x-amz-target": "AWSCodeWhispererService.GenerateAssistantResponse",
       "User-Agent": `aws-sdk-rust/1.3.10 ua/2.1 api/codewhispererstreaming/0.1.12842 os/macos lang/rust/1.88.0 md/appVersion-1.23.1 app/AmazonQ-For-CLI`,
@@ -655,11 +1072,17 @@ export class KiroAdapter extends BaseAdapter {
       "x-amzn-codewhisperer-optout": "true",
       "x-amzn-kiro-agent-mode": "vibe",
       "amz-sdk-invocation-id": crypto.randomUUID(),
-      "amz-sdk-request": "attempt=1; max=3",
-      host: "q.us-east-1.amazonaws.com",
+      host: this.baseUrl,
     };
   }
 
+  getAttemptHeaders(
+    attempt: number,
+    maxAttempts: number,
+  ): Record<string, string> {
+    return { "amz-sdk-request": `attempt=${attempt}; max=${maxAttempts}` };
+  }
+
   getCompletionPath(): string {
     return "/generateAssistantResponse";
   }
@@ -669,129 +1092,53 @@ export class KiroAdapter extends BaseAdapter {
    */
   transformRequest(claudeRequest: ClaudeAnyContentRequest): any {
     const messages = claudeRequest.messages || [];
-    const system = claudeRequest.system || "";
-    const model = claudeRequest.model || "claude-4-5-sonnet";
+    this.requestedModel = claudeRequest.model;
+    const model =
+      KIRO_INTERNAL_MODEL_IDS[claudeRequest.model] || claudeRequest.model;
+    this.thinkingEnabled = claudeRequest.thinking?.type === "enabled";
+    const system = this.buildSystemPrompt(claudeRequest);
 
     console.debug(
       `[KiroAdapter] transformRequest: ${messages.length} messages, model=${model}`,
     );
 
-    // Build conversation history in Kiro format
-    const history: any[] = [];
-    const nonSystemMessages = messages.filter(
-      (msg: any) => msg.role !== "system",
-    );
-
-    for (let i = 0; i < nonSystemMessages.length; i++) {
-      const msg = nonSystemMessages[i];
-      console.debug(
-        `[KiroAdapter] Processing msg[${i}]: role=${msg.role}, content type=${typeof msg.content}, content isArray=${Array.isArray(msg.content)}`,
-      );
-
+    const turns: any[] = [];
+    for (const msg of messages) {
       if (msg.role === "user") {
-        const content = this.extractContent(msg.content);
-        let userInput: any = {
-          content:
-            system && !history.length ? `${system}\n\n${content}` : content,
-          modelId: this.mapModelToKiro(model),
-          origin: "AI_EDITOR",
-        };
-
-        // Handle tool results in user messages
-        const toolResults = this.extractToolResults(msg.content);
-        if (toolResults.length > 0) {
-          console.debug(
-            `[KiroAdapter] Found ${toolResults.length} tool results in user message`,
-          );
-          userInput.userInputMessageContext = { toolResults };
-        }
-
-        history.push({ userInputMessage: userInput });
+        turns.push({ userInputMessage: this.toUserInputMessage(msg, model) });
       } else if (msg.role === "assistant") {
-        const content = this.extractContent(msg.content);
-        const assistantResponse: any = { content };
-
-        // Handle tool calls from assistant - check both tool_calls and content array
-        const toolUses: any[] = [];
-
-        // Check tool_calls field (OpenAI format)
-        if (msg.tool_calls && msg.tool_calls.length > 0) {
-          console.debug(
-            `[KiroAdapter] Found ${msg.tool_calls.length} tool_calls in assistant message`,
-          );
-          for (const tc of msg.tool_calls) {
-            toolUses.push({
-              name: tc.function?.name || "",
-              input:
-                tc.function?.arguments &&
-                typeof tc.function.arguments === "string"
-                  ? JSON.parse(tc.function.arguments)
-                  : tc.function?.arguments || {},
-              toolUseId: tc.id || this.generateToolCallId(),
-            });
-          }
-        }
-
-        // Check content array for tool_use items (Claude format)
-        if (Array.isArray(msg.content)) {
-          for (const item of msg.content) {
-            if (item.type === "tool_use") {
-              console.debug(
-                `[KiroAdapter] Found tool_use in content: ${item.name}, id=${item.id}`,
-              );
-              toolUses.push({
-                name: item.name || "",
-                input: item.input || {},
-                toolUseId: item.id || this.generateToolCallId(),
-              });
-            }
-          }
-        }
-
-        if (toolUses.length > 0) {
-          assistantResponse.toolUses = toolUses;
-        }
-
-        history.push({ assistantResponseMessage: assistantResponse });
+        turns.push({
+          assistantResponseMessage: this.toAssistantResponseMessage(msg),
+        });
       }
     }
 
-    // Current message (last one)
-    const currentMessage = nonSystemMessages[nonSystemMessages.length - 1];
-    const currentContent = this.extractContent(currentMessage.content);
+    const history = normalizeKiroHistory(turns, model);
 
-    const userInputMessage = {
-      content: currentContent,
-      modelId: this.mapModelToKiro(model),
-      origin: "AI_EDITOR",
-    };
+    // The first turn carries the system prompt
+    const first = history[0].userInputMessage;
+    if (system) {
+      first.content = first.content ? `${system}\n\n${first.content}` : system;
+    }
 
-    // Add tools and tool_results if present
-    const context: any = {};
+    // The last turn is the current message, the rest is history
+    const userInputMessage = history.pop().userInputMessage;
 
-    // Add tools from claudeRequest if any
     if (
       claudeRequest.tools &&
       Array.isArray(claudeRequest.tools) &&
       claudeRequest.tools.length > 0
     ) {
-      context.tools = claudeRequest.tools.map((tool: any) => ({
-        toolSpecification: {
-          name: tool.name || "",
-          description: tool.description || "",
-          inputSchema: { json: tool.input_schema || {} },
-        },
-      }));
-    }
-
-    // Handle tool results in current message
-    const toolResults = this.extractToolResults(currentMessage.content);
-    if (toolResults.length > 0) {
-      context.toolResults = toolResults;
-    }
-
-    if (Object.keys(context).length > 0) {
-      (userInputMessage as any).userInputMessageContext = context;
+      userInputMessage.userInputMessageContext = {
+        ...userInputMessage.userInputMessageContext,
+        tools: claudeRequest.tools.map((tool: any) => ({
+          toolSpecification: {
+            name: tool.name || "",
+            description: tool.description || "",
+            inputSchema: { json: tool.input_schema || {} },
+          },
+        })),
+      };
     }
 
     // Build payload
@@ -799,30 +1146,97 @@ export class KiroAdapter extends BaseAdapter {
       stream: claudeRequest.stream,
       conversationState: {
         chatTriggerType: "MANUAL",
-        conversationId: this.generateConversationId(),
+        conversationId: this.getConversationId(claudeRequest),
         currentMessage: {
           userInputMessage,
         },
       },
     };
 
-    // Add history if present
-    if (history.length > 1) {
-      payload.conversationState.history = history.slice(0, -1);
+    if (history.length > 0) {
+      payload.conversationState.history = history;
     }
 
     return payload;
   }
 
+  private toUserInputMessage(msg: any, model: string): any {
+    const userInput: any = {
+      content: this.extractContent(msg.content),
+      modelId: model,
+      origin: "AI_EDITOR",
+    };
+
+    const images = this.extractImages(msg.content);
+    if (images.length > 0) {
+      userInput.images = images;
+    }
+
+    const toolResults = this.extractToolResults(msg.content);
+    if (toolResults.length > 0) {
+      userInput.userInputMessageContext = { toolResults };
+    }
+
+    return userInput;
+  }
+
+  private toAssistantResponseMessage(msg: any): any {
+    const assistantResponse: any = {
+      content: this.extractContent(msg.content),
+    };
+
+    // Handle tool calls from assistant - check both tool_calls and content array
+    const toolUses: any[] = [];
+
+    // Check tool_calls field (OpenAI format)
+    for (const tc of msg.tool_calls || []) {
+      toolUses.push({
+        name: tc.function?.name || "",
+        input:
+          typeof tc.function?.arguments === "string"
+            ? parseToolArguments(tc.function.arguments)
+            : tc.function?.arguments || {},
+        toolUseId: tc.id || this.generateToolCallId(),
+      });
+    }
+
+    // Check content array for tool_use items (Claude format)
+    if (Array.isArray(msg.content)) {
+      for (const item of msg.content) {
+        if (item.type === "tool_use") {
+          toolUses.push({
+            name: item.name || "",
+            input: item.input || {},
+            toolUseId: item.id || this.generateToolCallId(),
+          });
+        }
+      }
+    }
+
+    if (toolUses.length > 0) {
+      assistantResponse.toolUses = toolUses;
+    }
+
+    return assistantResponse;
+  }
+
   /**
    * Transform Kiro response to Anthropic format
    */
-  transformResponse(kiroResponse: any): any {
+  transformResponse(kiroResponse: any, model?: string): any {
     const content = kiroResponse.content || "";
     const toolCalls = kiroResponse.tool_calls || [];
 
     const anthropicContent: any[] = [];
 
+    if (kiroResponse.reasoning) {
+      anthropicContent.push({
+        type: "thinking",
+        thinking: kiroResponse.reasoning,
+        signature: "",
+      });
+    }
+
     if (content) {
       anthropicContent.push({
         type: "text",
@@ -835,7 +1249,7 @@ export class KiroAdapter extends BaseAdapter {
         type: "tool_use",
         id: tc.id,
         name: tc.function?.name || "",
-        input: tc.function?.arguments ? JSON.parse(tc.function.arguments) : {},
+        input: parseToolArguments(tc.function?.arguments),
       });
     }
 
@@ -844,8 +1258,9 @@ export class KiroAdapter extends BaseAdapter {
       type: "message",
       role: "assistant",
       content: anthropicContent,
-      model: "claude-4-5-sonnet",
+      model: model || kiroResponse.model || this.requestedModel,
       stop_reason: toolCalls.length > 0 ? "tool_use" : "end_turn",
+      stop_sequence: null,
       usage: {
         input_tokens: kiroResponse.usage?.prompt_tokens || 0,
         output_tokens: kiroResponse.usage?.completion_tokens || 0,
@@ -884,6 +1299,60 @@ export class KiroAdapter extends BaseAdapter {
     return events;
   }
 
+  /**
+   * Claude system blocks as plain text. With thinking enabled, the tags that
+   * switch Kiro into reasoning mode go first.
+   */
+  private buildSystemPrompt(claudeRequest: ClaudeAnyContentRequest): string {
+    const parts: string[] = [];
+
+    if (this.thinkingEnabled) {
+      const budget =
+        claudeRequest.thinking?.budget_tokens ??
+        REASONING_EFFORT_BUDGETS.medium;
+      parts.push(
+        `<thinking_mode>enabled</thinking_mode><max_thinking_length>${budget}</max_thinking_length>`,
+      );
+    }
+
+    const system: ClaudeContent[] | string | undefined = claudeRequest.system;
+    if (typeof system === "string") {
+      parts.push(system);
+    } else if (Array.isArray(system)) {
+      parts.push(
+        ...system
+          .filter((item) => item.type === "text" && item.text)
+          .map((item) => item.text!),
+      );
+    }
+
+    return parts.join("\n\n");
+  }
+
+  /**
+   * Base64 image blocks in Kiro's `images` format. Kiro cannot fetch urls,
+   * so url sources are skipped.
+   */
+  private extractImages(content: any): any[] {
+    if (!Array.isArray(content)) return [];
+
+    const images: any[] = [];
+    for (const item of content) {
+      if (item.type !== "image" || !item.source) continue;
+
+      if (item.source.type !== "base64" || !item.source.data) {
+        console.warn("[KiroAdapter] Skipping image without base64 data");
+        continue;
+      }
+      const mediaType = item.source.media_type || "image/png";
+      images.push({
+        format: mediaType.replace(/^image\//, "").replace("jpg", "jpeg"),
+        source: { bytes: item.source.data },
+      });
+    }
+    return images;
+  }
+
   private extractContent(content: any): string {
     if (typeof content === "string") return content;
     if (Array.isArray(content)) {
@@ -907,7 +1376,7 @@ export class KiroAdapter extends BaseAdapter {
       if (item.type === "tool_result") {
         toolResults.push({
           content: [{ text: this.extractToolResultContent(item.content) }],
-          status: "success",
+          status: item.is_error ? "error" : "success",
           toolUseId: item.tool_call_id || item.tool_use_id || "",
         });
       }
@@ -968,25 +1437,24 @@ export class KiroAdapter extends BaseAdapter {
     return String(content);
   }
 
-  private mapModelToKiro(model: string): string {
-    // Kiro API accepts model IDs in format "claude-{tier}-4.5"
-    // Opus/Haiku: pass through as-is (e.g., "claude-opus-4.5")
-    // Sonnet 4.5: maps to internal ID "CLAUDE_SONNET_4_5_20250929_V1_0"
-    const modelMap: Record<string, string> = {
-      "claude-haiku-4.5": "claude-haiku-4.5",
-      "claude-sonnet-4.5": "CLAUDE_SONNET_4_5_20250929_V1_0",
-      "claude-opus-4.5": "claude-opus-4.5",
-    };
-
-    return modelMap[model] || model;
-  }
-
   private generateToolCallId(): string {
     return `tool_${Date.now()}_${Math.random().toString(36).substr(2, 4)}`;
   }
 
-  private generateConversationId(): string {
-    return `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  /**
+   * Derived from the system prompt and first message, so every request of a
+   * multi-turn session reports the same conversation
+   */
+  private getConversationId(claudeRequest: ClaudeAnyContentRequest): string {
+    const seed = JSON.stringify([
+      claudeRequest.system || "",
+      claudeRequest.messages[0]?.content || "",
+    ]);
+    const hex = [0, 1, 2]
+      .map((n) => hashString(seed, n))
+      .join("")
+      .slice(0, 32);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
   }
 
   private generateFingerprint(): string {
@@ -0,0 +1,85 @@
+import {
+  convertClaudeRequestToResponses,
+  convertResponsesStreamToClaude,
+  convertResponsesToClaude,
+} from "../converters/responses";
+import { buildFinalStreamEvents } from "../converters/stream";
+import {
+  ClaudeAnyContentRequest,
+  ClaudeResponse,
+  ClaudeStreamResponse,
+} from "../types/claude";
+import { StreamConversionState } from "../types/conversion";
+import { UpstreamModel } from "../types/models";
+import { ResponsesResponse } from "../types/responses";
+import { BaseAdapter } from "./base";
+
+/**
+ * OpenAI adapter for the Responses API, used when the base URL ends with
+ * `/responses` (e.g. `api.openai.com/v1/responses`)
+ */
+export class OpenAIResponsesAdapter extends BaseAdapter {
+  readonly provider = "openai-responses";
+
+  constructor(readonly baseUrl: string = "api.openai.com/v1/responses") {
+    super();
+  }
+
+  get supportsDocuments(): boolean {
+    return true;
+  }
+
+  async getAuthHeaders(apiKey: string): Promise<Record<string, string>> {
+    return {
+      Authorization: `Bearer ${apiKey}`,
+    };
+  }
+
+  getCompletionPath(): string {
+    // The base URL already names the endpoint
+    return "";
+  }
+
+  /**
+   * The models endpoint sits next to `/responses`, e.g.
+   * `api.openai.com/v1/models`
+   */
+  async listModels(apiKey: string): Promise<UpstreamModel[]> {
+    const modelsUrl = this.baseUrl.replace(/\/responses$/, "/models");
+    return this.fetchOpenAIModels(`https://${modelsUrl}`, apiKey);
+  }
+
+  transformRequest(claudeRequest: ClaudeAnyContentRequest): any {
+    const schemaProfile = this.getToolSchemaProfile(claudeRequest);
+    this.recordStrictTools(claudeRequest, schemaProfile);
+    return convertClaudeRequestToResponses(claudeRequest, schemaProfile);
+  }
+
+  async handleJsonResponse(response: Response): Promise<any> {
+    return (await response.json()) as ResponsesResponse;
+  }
+
+  transformResponse(response: any): ClaudeResponse {
+    const claudeResponse = convertResponsesToClaude(response);
+    this.dropOmittedToolArguments(claudeResponse);
+    this.applyCacheUsage(claudeResponse.usage);
+    return claudeResponse;
+  }
+
+  transformStreamResponse(
+    event: any,
+    state: StreamConversionState,
+  ): ClaudeStreamResponse[] {
+    return convertResponsesStreamToClaude(event, state);
+  }
+
+  protected finalizeStream(
+    state: StreamConversionState,
+  ): ClaudeStreamResponse[] {
+    // A failed response already ended with an error event
+    if (state.errored) {
+      return [];
+    }
+    return buildFinalStreamEvents(state, state.usage);
+  }
+}
@@ -1,8 +1,15 @@
+import { getPromptCacheKey } from "../converters/cache";
+import { ClaudeAnyContentRequest } from "../types/claude";
+import { UpstreamModel } from "../types/models";
+import { OpenAIRequest } from "../types/openai";
 import { BaseAdapter } from "./base";
 
 export class OpenAIAdapter extends BaseAdapter {
   readonly provider = "openai";
-  readonly baseUrl = "api.openai.com";
+
+  constructor(readonly baseUrl: string = "api.openai.com") {
+    super();
+  }
 
   async getAuthHeaders(apiKey: string): Promise<Record<string, string>> {
     return {
@@ -10,7 +17,34 @@ export class OpenAIAdapter extends BaseAdapter {
     };
   }
 
+  /**
+   * OpenAI takes PDF `file` parts, compatible servers mostly do not
+   */
+  get supportsDocuments(): boolean {
+    return this.baseUrl.startsWith("api.openai.com");
+  }
+
   getCompletionPath(): string {
     return "/v1/chat/completions";
   }
+
+  async listModels(apiKey: string): Promise<UpstreamModel[]> {
+    return this.fetchOpenAIModels(`https://${this.baseUrl}/v1/models`, apiKey);
+  }
+
+  /**
+   * OpenAI caches prefixes automatically, `prompt_cache_key` keeps a session
+   * on the same cache. Other compatible servers may reject unknown fields.
+   */
+  protected applyPromptCache(
+    openaiRequest: OpenAIRequest,
+    claudeRequest: ClaudeAnyContentRequest,
+  ): void {
+    if (!this.baseUrl.startsWith("api.openai.com")) return;
+
+    const key = getPromptCacheKey(claudeRequest);
+    if (key) {
+      openaiRequest.prompt_cache_key = key;
+    }
+  }
 }
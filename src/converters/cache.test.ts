@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GeminiNativeAdapter } from "../adapters/gemini-native";
+import { OpenAIAdapter } from "../adapters/openai";
+import { ClaudeAnyContentRequest } from "../types/claude";
+import { GeminiRequest, GeminiResponse } from "../types/gemini";
+import { applyCacheCreationSplit, getCacheTtl } from "./cache";
+
+const cachedRequest = (
+  model: string,
+  ttl?: string,
+): ClaudeAnyContentRequest => ({
+  model,
+  max_tokens: 100,
+  system: [
+    {
+      type: "text",
+      text: "You are Claude Code",
+      cache_control: { type: "ephemeral", ttl },
+    },
+  ],
+  tools: [
+    {
+      name: "Read",
+      input_schema: { type: "object", properties: {} },
+    },
+  ],
+  messages: [{ role: "user", content: "hi" }],
+});
+
+const geminiResponse = (cachedTokens: number): GeminiResponse => ({
+  candidates: [
+    {
+      content: { role: "model", parts: [{ text: "ok" }] },
+      finishReason: "STOP",
+    },
+  ],
+  usageMetadata: {
+    promptTokenCount: 5000,
+    candidatesTokenCount: 2,
+    cachedContentTokenCount: cachedTokens,
+  },
+});
+
+describe("prompt caching", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads the longest ttl and splits cache writes by it", () => {
+    expect(getCacheTtl(cachedRequest("gpt-5"))).toBe("5m");
+    expect(getCacheTtl(cachedRequest("gpt-5", "1h"))).toBe("1h");
+    expect(
+      getCacheTtl({
+        model: "gpt-5",
+        messages: [{ role: "user", content: "hi" }],
+      }),
+    ).toBeUndefined();
+
+    expect(
+      applyCacheCreationSplit(
+        {
+          input_tokens: 10,
+          output_tokens: 1,
+          cache_creation_input_tokens: 300,
+        },
+        "1h",
+      ),
+    ).toEqual({
+      input_tokens: 10,
+      output_tokens: 1,
+      cache_creation_input_tokens: 300,
+      cache_read_input_tokens: 0,
+      cache_creation: {
+        ephemeral_5m_input_tokens: 0,
+        ephemeral_1h_input_tokens: 300,
+      },
+    });
+  });
+
+  it("sends a stable prompt_cache_key to OpenAI only", () => {
+    const first = new OpenAIAdapter().transformRequest(cachedRequest("gpt-5"));
+    const next = new OpenAIAdapter().transformRequest({
+      ...cachedRequest("gpt-5"),
+      messages: [
+        { role: "user", content: "hi" },
+        { role: "assistant", content: "hello" },
+        { role: "user", content: "more" },
+      ],
+    });
+
+    expect(first.prompt_cache_key).toMatch(/^anythropic-/);
+    expect(next.prompt_cache_key).toBe(first.prompt_cache_key);
+    expect(
+      new OpenAIAdapter("api.groq.com/openai").transformRequest(
+        cachedRequest("gpt-5"),
+      ).prompt_cache_key,
+    ).toBeUndefined();
+  });
+
+  it("keys a plain string system prompt", () => {
+    const request = {
+      ...cachedRequest("gpt-5"),
+      system: "You are Claude Code" as any,
+      tools: [
+        {
+          name: "Read",
+          input_schema: { type: "object" as const, properties: {} },
+          cache_control: { type: "ephemeral" as const },
+        },
+      ],
+    };
+
+    expect(
+      new OpenAIAdapter().transformRequest(request).prompt_cache_key,
+    ).toMatch(/^anythropic-/);
+  });
+
+  it("creates a Gemini cachedContent once and reuses it", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        name: "cachedContents/abc",
+        usageMetadata: { totalTokenCount: 4000 },
+      }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const prepare = async () => {
+      const adapter = new GeminiNativeAdapter();
+      const request = cachedRequest("gemini-2.5-pro");
+      const geminiRequest: GeminiRequest = adapter.transformRequest(request);
+      await adapter.prepareRequest(
+        geminiRequest,
+        request,
+        "key-1",
+        "generativelanguage.googleapis.com/v1beta",
+      );
+      return { adapter, geminiRequest };
+    };
+
+    const first = await prepare();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe(
+      "https://generativelanguage.googleapis.com/v1beta/cachedContents",
+    );
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      model: "models/gemini-2.5-pro",
+      ttl: "300s",
+      systemInstruction: { parts: [{ text: "You are Claude Code" }] },
+    });
+
+    expect(first.geminiRequest.cachedContent).toBe("cachedContents/abc");
+    expect(first.geminiRequest.systemInstruction).toBeUndefined();
+    expect(first.geminiRequest.tools).toBeUndefined();
+    expect(
+      first.adapter.transformResponse(geminiResponse(4000)).usage,
+    ).toMatchObject({
+      input_tokens: 1000,
+      cache_creation_input_tokens: 4000,
+      cache_read_input_tokens: 0,
+      cache_creation: { ephemeral_5m_input_tokens: 4000 },
+    });
+
+    const second = await prepare();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(second.geminiRequest.cachedContent).toBe("cachedContents/abc");
+    expect(
+      second.adapter.transformResponse(geminiResponse(4000)).usage,
+    ).toMatchObject({
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 4000,
+    });
+  });
+});
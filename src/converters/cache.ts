@@ -0,0 +1,105 @@
+import {
+  ClaudeAnyContentRequest,
+  ClaudeCacheControl,
+  ClaudeContent,
+  ClaudeUsage,
+} from "../types/claude";
+import { hashString } from "../utils/hash";
+import { claudeSystemBlocks } from "./request";
+
+export type CacheTtl = "5m" | "1h";
+
+/**
+ * Upstream cache lifetimes in seconds for each Claude ttl
+ */
+export const CACHE_TTL_SECONDS: Record<CacheTtl, number> = {
+  "5m": 300,
+  "1h": 3600,
+};
+
+function ttlOf(cacheControl?: ClaudeCacheControl): CacheTtl | undefined {
+  if (!cacheControl) return undefined;
+  return cacheControl.ttl === "1h" ? "1h" : "5m";
+}
+
+function contentTtls(content: unknown): (CacheTtl | undefined)[] {
+  return Array.isArray(content)
+    ? content.map((block: ClaudeContent) => ttlOf(block?.cache_control))
+    : [];
+}
+
+function longest(ttls: (CacheTtl | undefined)[]): CacheTtl | undefined {
+  if (ttls.includes("1h")) return "1h";
+  if (ttls.includes("5m")) return "5m";
+  return undefined;
+}
+
+/**
+ * Longest ttl among the request's `cache_control` breakpoints, undefined when
+ * the client did not ask for caching
+ */
+export function getCacheTtl(
+  claudeRequest: ClaudeAnyContentRequest,
+): CacheTtl | undefined {
+  return longest([
+    ...(claudeRequest.tools || []).map((tool) => ttlOf(tool.cache_control)),
+    ...contentTtls(claudeRequest.system),
+    ...(claudeRequest.messages || []).flatMap((message) => [
+      ttlOf(message.cache_control),
+      ...contentTtls(message.content),
+    ]),
+  ]);
+}
+
+/**
+ * Ttl of a breakpoint on the tools or system prompt, the part of a Claude
+ * Code request that stays the same for a whole session
+ */
+export function getPrefixCacheTtl(
+  claudeRequest: ClaudeAnyContentRequest,
+): CacheTtl | undefined {
+  return longest([
+    ...(claudeRequest.tools || []).map((tool) => ttlOf(tool.cache_control)),
+    ...contentTtls(claudeRequest.system),
+  ]);
+}
+
+/**
+ * Stable routing key for providers with automatic prefix caching (OpenAI
+ * `prompt_cache_key`), derived from the model, system prompt and tools so
+ * every turn of a session lands on the same cache
+ */
+export function getPromptCacheKey(
+  claudeRequest: ClaudeAnyContentRequest,
+): string | undefined {
+  if (!getCacheTtl(claudeRequest)) return undefined;
+
+  const system = claudeSystemBlocks(claudeRequest.system)
+    .map((block) => block.text || "")
+    .join("\n");
+  const tools = (claudeRequest.tools || []).map((tool) => tool.name);
+  return `anythropic-${hashString(
+    JSON.stringify([claudeRequest.model, system, tools]),
+  )}`;
+}
+
+/**
+ * Fill the `cache_creation` breakdown for a request that used caching. Token
+ * counts are reported for the whole request, so they go to the bucket of the
+ * request's longest ttl.
+ */
+export function applyCacheCreationSplit(
+  usage: ClaudeUsage,
+  ttl?: CacheTtl,
+): ClaudeUsage {
+  if (!ttl) return usage;
+
+  const created = usage.cache_creation_input_tokens || 0;
+  usage.cache_creation_input_tokens = created;
+  usage.cache_read_input_tokens = usage.cache_read_input_tokens || 0;
+  usage.cache_creation = {
+    ephemeral_5m_input_tokens: ttl === "5m" ? created : 0,
+    ephemeral_1h_input_tokens: ttl === "1h" ? created : 0,
+  };
+  return usage;
+}
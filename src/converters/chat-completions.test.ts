@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import { ClaudeStreamResponse } from "../types/claude";
+import {
+  convertClaudeResponseToOpenAI,
+  convertClaudeStreamToOpenAI,
+  convertOpenAIRequestToClaude,
+  createChatCompletionsStreamState,
+} from "./chat-completions";
+
+describe("chat completions front door conversion", () => {
+  it("converts an OpenAI tool loop into alternating Claude turns", () => {
+    const claudeRequest = convertOpenAIRequestToClaude({
+      model: "claude-sonnet-4-5",
+      reasoning_effort: "high",
+      max_tokens: 1000,
+      stop: "END",
+      messages: [
+        { role: "system", content: "Be brief." },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is in this file?" },
+            {
+              type: "image_url",
+              image_url: { url: "data:image/png;base64,iVBORw0" },
+            },
+          ],
+        },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "read", arguments: '{"path":"a.txt"}' },
+            },
+          ],
+        },
+        { role: "tool", tool_call_id: "call_1", content: "hello" },
+        { role: "user", content: "Summarise it" },
+      ],
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: "read",
+            parameters: {
+              type: "object",
+              properties: { path: { type: "string" } },
+            },
+          },
+        },
+      ],
+      tool_choice: "required",
+    });
+
+    expect(claudeRequest).toMatchObject({
+      system: [{ type: "text", text: "Be brief." }],
+      thinking: { type: "enabled", budget_tokens: 32768 },
+      max_tokens: 32768 + 8192,
+      stop_sequences: ["END"],
+      tool_choice: { type: "any" },
+      tools: [{ name: "read", input_schema: { type: "object" } }],
+    });
+    expect(claudeRequest.messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is in this file?" },
+          {
+            type: "image",
+            source: {
+              type: "base64",
+              media_type: "image/png",
+              data: "iVBORw0",
+            },
+          },
+        ],
+      },
+      {
+        role: "assistant",
+        content: [
+          {
+            type: "tool_use",
+            id: "call_1",
+            name: "read",
+            input: { path: "a.txt" },
+          },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "call_1", content: "hello" },
+          { type: "text", text: "Summarise it" },
+        ],
+      },
+    ]);
+  });
+
+  it("converts a Claude message to a chat completion", () => {
+    const completion = convertClaudeResponseToOpenAI({
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      model: "claude-sonnet-4.5",
+      content: [
+        { type: "thinking", thinking: "Need the file", signature: "sig" },
+        { type: "text", text: "Reading it." },
+        { type: "tool_use", id: "toolu_1", name: "read", input: { path: "a" } },
+      ],
+      stop_reason: "tool_use",
+      usage: {
+        input_tokens: 10,
+        cache_read_input_tokens: 90,
+        output_tokens: 5,
+      },
+    });
+
+    expect(completion.choices[0]).toEqual({
+      index: 0,
+      message: {
+        role: "assistant",
+        content: "Reading it.",
+        reasoning_content: "Need the file",
+        tool_calls: [
+          {
+            id: "toolu_1",
+            type: "function",
+            function: { name: "read", arguments: '{"path":"a"}' },
+          },
+        ],
+      },
+      finish_reason: "tool_calls",
+    });
+    expect(completion.usage).toMatchObject({
+      prompt_tokens: 100,
+      completion_tokens: 5,
+      total_tokens: 105,
+      prompt_tokens_details: { cached_tokens: 90 },
+    });
+  });
+
+  it("converts Claude stream events to chunks", () => {
+    const events: ClaudeStreamResponse[] = [
+      {
+        type: "message_start",
+        message: {
+          id: "msg_2",
+          type: "message",
+          role: "assistant",
+          model: "claude-haiku-4.5",
+          content: [],
+          stop_reason: null,
+          usage: { input_tokens: 12, output_tokens: 0 },
+        },
+      },
+      {
+        type: "content_block_start",
+        index: 0,
+        content_block: { type: "text", text: "" },
+      },
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "text_delta", text: "Hi" },
+      },
+      { type: "content_block_stop", index: 0 },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: {
+          type: "tool_use",
+          id: "toolu_2",
+          name: "ls",
+          input: {},
+        },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '{"dir":' },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '"."}' },
+      },
+      {
+        type: "message_delta",
+        delta: { stop_reason: "tool_use" },
+        usage: { input_tokens: 12, output_tokens: 7 },
+      },
+      { type: "message_stop" },
+    ];
+
+    const state = createChatCompletionsStreamState("claude-haiku-4-5", true);
+    const chunks = events.flatMap((event) =>
+      convertClaudeStreamToOpenAI(event, state),
+    );
+
+    expect(chunks.every((chunk) => chunk.id === "msg_2")).toBe(true);
+    expect(chunks.map((chunk) => chunk.choices[0]?.delta)).toEqual([
+      { role: "assistant", content: "" },
+      { content: "Hi" },
+      {
+        tool_calls: [
+          {
+            index: 0,
+            id: "toolu_2",
+            type: "function",
+            function: { name: "ls", arguments: "" },
+          },
+        ],
+      },
+      { tool_calls: [{ index: 0, function: { arguments: '{"dir":' } }] },
+      { tool_calls: [{ index: 0, function: { arguments: '"."}' } }] },
+      {},
+      undefined,
+    ]);
+    expect(chunks.at(-2)!.choices[0].finish_reason).toBe("tool_calls");
+    expect(chunks.at(-1)!.usage).toMatchObject({
+      prompt_tokens: 12,
+      completion_tokens: 7,
+    });
+  });
+});
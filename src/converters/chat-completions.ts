@@ -0,0 +1,444 @@
+import {
+  ClaudeAnyContentMessage,
+  ClaudeAnyContentRequest,
+  ClaudeContent,
+  ClaudeResponse,
+  ClaudeStreamResponse,
+  ClaudeThinking,
+  ClaudeTool,
+  ClaudeUsage,
+} from "../types/claude";
+import {
+  ChatUsage,
+  MessageContent,
+  OpenAIChatCompletionsResponse,
+  OpenAIChatCompletionsStreamResponse,
+  OpenAIMessage,
+  OpenAIRequest,
+  Tool,
+  ToolCall,
+} from "../types/openai";
+import {
+  CLAUDE_CONTENT_TYPES,
+  CLAUDE_DELTA_TYPES,
+  CLAUDE_STOP_REASONS,
+  CLAUDE_STREAM_TYPES,
+  OPENAI_FINISH_REASONS,
+} from "./constants";
+import { convertOpenAIFileToClaude } from "./document";
+import {
+  appendClaudeTurn,
+  convertReasoningEffortToClaudeThinking,
+  resolveClaudeMaxTokens,
+} from "./request";
+
+/**
+ * Convert an OpenAI chat completions request from a client to a Claude
+ * request, the reverse of `convertClaudeRequestToOpenAI`
+ */
+export function convertOpenAIRequestToClaude(
+  openaiRequest: OpenAIRequest,
+): ClaudeAnyContentRequest {
+  const system: ClaudeContent[] = [];
+  const messages: ClaudeAnyContentMessage[] = [];
+
+  for (const msg of openaiRequest.messages) {
+    if (msg.role === "system" || (msg.role as string) === "developer") {
+      const text = extractText(msg.content);
+      if (text) {
+        system.push({ type: CLAUDE_CONTENT_TYPES.TEXT, text });
+      }
+      continue;
+    }
+
+    const role = msg.role === "assistant" ? "assistant" : "user";
+    const content =
+      msg.role === "assistant"
+        ? convertOpenAIAssistantMessage(msg)
+        : msg.role === "tool"
+          ? [
+              {
+                type: CLAUDE_CONTENT_TYPES.TOOL_RESULT,
+                tool_use_id: msg.tool_call_id,
+                content: extractText(msg.content),
+              } as ClaudeContent,
+            ]
+          : convertOpenAIUserContent(msg.content);
+
+    appendClaudeTurn(messages, role, content);
+  }
+
+  // Copilot style clients send the raw budget
+  const thinking: ClaudeThinking | undefined = openaiRequest.thinking_budget
+    ? { type: "enabled", budget_tokens: openaiRequest.thinking_budget }
+    : convertReasoningEffortToClaudeThinking(openaiRequest.reasoning_effort);
+
+  const claudeRequest: ClaudeAnyContentRequest = {
+    model: openaiRequest.model,
+    messages,
+    max_tokens: resolveClaudeMaxTokens(
+      openaiRequest.max_completion_tokens ?? openaiRequest.max_tokens,
+      thinking,
+    ),
+    stream: openaiRequest.stream,
+  };
+
+  if (system.length > 0) {
+    claudeRequest.system = system;
+  }
+  if (openaiRequest.temperature !== undefined) {
+    claudeRequest.temperature = openaiRequest.temperature;
+  }
+  if (openaiRequest.top_p !== undefined) {
+    claudeRequest.top_p = openaiRequest.top_p;
+  }
+  if (openaiRequest.stop) {
+    claudeRequest.stop_sequences = Array.isArray(openaiRequest.stop)
+      ? openaiRequest.stop
+      : [openaiRequest.stop];
+  }
+  if (openaiRequest.tools && openaiRequest.tools.length > 0) {
+    claudeRequest.tools = convertOpenAIToolsToClaude(openaiRequest.tools);
+    if (openaiRequest.tool_choice) {
+      claudeRequest.tool_choice = convertOpenAIToolChoiceToClaude(
+        openaiRequest.tool_choice,
+      );
+    }
+  }
+  if (thinking) {
+    claudeRequest.thinking = thinking;
+  }
+
+  return claudeRequest;
+}
+
+function extractText(content: OpenAIMessage["content"]): string {
+  if (!content) {
+    return "";
+  }
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .filter((part) => part.type === "text" && part.text)
+    .map((part) => part.text)
+    .join("\n");
+}
+
+function convertOpenAIUserContent(
+  content: OpenAIMessage["content"],
+): ClaudeContent[] {
+  if (!content) {
+    return [];
+  }
+  if (typeof content === "string") {
+    return [{ type: CLAUDE_CONTENT_TYPES.TEXT, text: content }];
+  }
+
+  const result: ClaudeContent[] = [];
+  for (const part of content) {
+    if (part.type === "text" && part.text) {
+      result.push({ type: CLAUDE_CONTENT_TYPES.TEXT, text: part.text });
+    } else if (part.type === "image_url" && part.image_url) {
+      result.push(convertOpenAIImageToClaude(part));
+    } else if (part.type === "file" && part.file) {
+      const document = convertOpenAIFileToClaude(part.file);
+      if (document) {
+        result.push(document);
+      }
+    }
+  }
+  return result;
+}
+
+function convertOpenAIImageToClaude(part: MessageContent): ClaudeContent {
+  const url = part.image_url!.url;
+  const match = url.match(/^data:([^;]+);base64,(.*)$/);
+  if (match) {
+    return {
+      type: CLAUDE_CONTENT_TYPES.IMAGE,
+      source: { type: "base64", media_type: match[1], data: match[2] },
+    };
+  }
+  return {
+    type: CLAUDE_CONTENT_TYPES.IMAGE,
+    source: { type: "url", url },
+  };
+}
+
+function convertOpenAIAssistantMessage(msg: OpenAIMessage): ClaudeContent[] {
+  const result: ClaudeContent[] = [];
+
+  const text = extractText(msg.content);
+  if (text) {
+    result.push({ type: CLAUDE_CONTENT_TYPES.TEXT, text });
+  }
+
+  for (const toolCall of msg.tool_calls || []) {
+    let input: Record<string, any> = {};
+    try {
+      input = JSON.parse(toolCall.function.arguments || "{}");
+    } catch (e) {
+      input = {};
+    }
+    result.push({
+      type: CLAUDE_CONTENT_TYPES.TOOL_USE,
+      id: toolCall.id,
+      name: toolCall.function.name,
+      input,
+    });
+  }
+
+  return result;
+}
+
+function convertOpenAIToolsToClaude(tools: Tool[]): ClaudeTool[] {
+  return tools
+    .filter((tool) => tool.type === "function")
+    .map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: (tool.function.parameters as any) || {
+        type: "object",
+        properties: {},
+      },
+    }));
+}
+
+function convertOpenAIToolChoiceToClaude(
+  toolChoice: NonNullable<OpenAIRequest["tool_choice"]>,
+): any {
+  if (typeof toolChoice === "object") {
+    return { type: "tool", name: toolChoice.function.name };
+  }
+
+  switch (toolChoice) {
+    case "required":
+      return { type: "any" };
+    case "none":
+      return { type: "none" };
+    default:
+      return { type: "auto" };
+  }
+}
+
+/**
+ * Convert a Claude response to an OpenAI chat completion for the client
+ */
+export function convertClaudeResponseToOpenAI(
+  claudeResponse: ClaudeResponse,
+): OpenAIChatCompletionsResponse {
+  const text: string[] = [];
+  const reasoning: string[] = [];
+  const toolCalls: ToolCall[] = [];
+
+  for (const block of claudeResponse.content) {
+    if (block.type === CLAUDE_CONTENT_TYPES.TEXT && block.text) {
+      text.push(block.text);
+    } else if (block.type === CLAUDE_CONTENT_TYPES.THINKING && block.thinking) {
+      reasoning.push(block.thinking);
+    } else if (block.type === CLAUDE_CONTENT_TYPES.TOOL_USE) {
+      toolCalls.push({
+        id: block.id,
+        type: "function",
+        function: {
+          name: block.name || "",
+          arguments: JSON.stringify(block.input ?? {}),
+        },
+      });
+    }
+  }
+
+  const message: OpenAIChatCompletionsResponse["choices"][number]["message"] = {
+    role: "assistant",
+    content: text.length > 0 ? text.join("") : null,
+  };
+  if (reasoning.length > 0) {
+    message.reasoning_content = reasoning.join("");
+  }
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+
+  return {
+    id: claudeResponse.id,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: claudeResponse.model,
+    choices: [
+      {
+        index: 0,
+        message,
+        finish_reason: convertStopReasonToOpenAI(claudeResponse.stop_reason),
+      },
+    ],
+    usage: convertClaudeUsageToOpenAI(claudeResponse.usage),
+  };
+}
+
+/**
+ * Convert Claude stop reason to OpenAI finish reason
+ */
+export function convertStopReasonToOpenAI(
+  stopReason: string | null | undefined,
+): string {
+  switch (stopReason) {
+    case CLAUDE_STOP_REASONS.MAX_TOKENS:
+      return OPENAI_FINISH_REASONS.LENGTH;
+    case CLAUDE_STOP_REASONS.TOOL_USE:
+      return OPENAI_FINISH_REASONS.TOOL_CALLS;
+    case "refusal":
+      return OPENAI_FINISH_REASONS.CONTENT_FILTER;
+    default:
+      return OPENAI_FINISH_REASONS.STOP;
+  }
+}
+
+/**
+ * Claude reports cached input separately, OpenAI counts it in prompt_tokens
+ */
+function convertClaudeUsageToOpenAI(usage?: ClaudeUsage): ChatUsage {
+  const cacheRead = usage?.cache_read_input_tokens || 0;
+  const cacheCreation = usage?.cache_creation_input_tokens || 0;
+  const promptTokens = (usage?.input_tokens || 0) + cacheRead + cacheCreation;
+  const completionTokens = usage?.output_tokens || 0;
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    prompt_tokens_details: {
+      cached_tokens: cacheRead,
+      audio_tokens: 0,
+    },
+  };
+}
+
+export interface ChatCompletionsStreamState {
+  id: string;
+  model: string;
+  created: number;
+  /** OpenAI tool call index for each Claude content block index */
+  toolCallIndexes: Map<number, number>;
+  finishReason: string | null;
+  usage?: ClaudeUsage;
+  includeUsage: boolean;
+}
+
+export function createChatCompletionsStreamState(
+  model: string,
+  includeUsage: boolean = false,
+): ChatCompletionsStreamState {
+  return {
+    id: `chatcmpl-${Date.now()}`,
+    model,
+    created: Math.floor(Date.now() / 1000),
+    toolCallIndexes: new Map(),
+    finishReason: null,
+    includeUsage,
+  };
+}
+
+/**
+ * Convert a Claude SSE event to OpenAI chat completion chunks
+ */
+export function convertClaudeStreamToOpenAI(
+  event: ClaudeStreamResponse,
+  state: ChatCompletionsStreamState,
+): OpenAIChatCompletionsStreamResponse[] {
+  const chunk = (
+    delta: OpenAIChatCompletionsStreamResponse["choices"][number]["delta"],
+    finishReason: string | null = null,
+  ): OpenAIChatCompletionsStreamResponse => ({
+    id: state.id,
+    object: "chat.completion.chunk",
+    created: state.created,
+    model: state.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  switch (event.type) {
+    case CLAUDE_STREAM_TYPES.MESSAGE_START:
+      if (event.message) {
+        state.id = event.message.id || state.id;
+        state.model = event.message.model || state.model;
+        state.usage = { ...event.message.usage };
+      }
+      return [chunk({ role: "assistant", content: "" })];
+
+    case CLAUDE_STREAM_TYPES.CONTENT_BLOCK_START: {
+      const block = event.content_block;
+      if (block?.type !== CLAUDE_CONTENT_TYPES.TOOL_USE) {
+        return [];
+      }
+      const toolIndex = state.toolCallIndexes.size;
+      state.toolCallIndexes.set(event.index!, toolIndex);
+      return [
+        chunk({
+          tool_calls: [
+            {
+              index: toolIndex,
+              id: block.id,
+              type: "function",
+              function: { name: block.name || "", arguments: "" },
+            },
+          ],
+        }),
+      ];
+    }
+
+    case CLAUDE_STREAM_TYPES.CONTENT_BLOCK_DELTA: {
+      const delta = event.delta;
+      if (delta?.type === CLAUDE_DELTA_TYPES.TEXT_DELTA && delta.text) {
+        return [chunk({ content: delta.text })];
+      }
+      if (delta?.type === CLAUDE_DELTA_TYPES.THINKING_DELTA && delta.thinking) {
+        return [chunk({ reasoning_content: delta.thinking })];
+      }
+      if (
+        delta?.type === CLAUDE_DELTA_TYPES.INPUT_JSON_DELTA &&
+        delta.partial_json
+      ) {
+        const toolIndex = state.toolCallIndexes.get(event.index!);
+        if (toolIndex === undefined) {
+          return [];
+        }
+        return [
+          chunk({
+            tool_calls: [
+              {
+                index: toolIndex,
+                function: { arguments: delta.partial_json },
+              } as ToolCall,
+            ],
+          }),
+        ];
+      }
+      return [];
+    }
+
+    case CLAUDE_STREAM_TYPES.MESSAGE_DELTA:
+      state.finishReason = convertStopReasonToOpenAI(event.delta?.stop_reason);
+      if (event.usage) {
+        state.usage = { ...state.usage, ...event.usage } as ClaudeUsage;
+      }
+      return [];
+
+    case CLAUDE_STREAM_TYPES.MESSAGE_STOP: {
+      const chunks = [
+        chunk({}, state.finishReason || OPENAI_FINISH_REASONS.STOP),
+      ];
+      if (state.includeUsage) {
+        chunks.push({
+          ...chunk({}),
+          choices: [],
+          usage: convertClaudeUsageToOpenAI(state.usage),
+        });
+      }
+      return chunks;
+    }
+
+    default:
+      return [];
+  }
+}
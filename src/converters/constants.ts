@@ -4,6 +4,7 @@ export const CLAUDE_CONTENT_TYPES = {
   TOOL_USE: "tool_use",
   TOOL_RESULT: "tool_result",
   IMAGE: "image",
+  DOCUMENT: "document",
   SERVER_TOOL_USE: "server_tool_use",
   WEB_SEARCH_TOOL_RESULT: "web_search_tool_result",
 } as const;
@@ -23,6 +24,7 @@ export const CLAUDE_STREAM_TYPES = {
   CONTENT_BLOCK_DELTA: "content_block_delta",
   CONTENT_BLOCK_STOP: "content_block_stop",
   PING: "ping",
+  ERROR: "error",
 } as const;
 
 export const CLAUDE_DELTA_TYPES = {
@@ -38,3 +40,30 @@ export const OPENAI_FINISH_REASONS = {
   TOOL_CALLS: "tool_calls",
   CONTENT_FILTER: "content_filter",
 } as const;
+
+/**
+ * Upper bounds (inclusive) of Claude thinking budgets for each reasoning effort
+ * bucket. Budgets above the last bound map to "high".
+ */
+export const REASONING_EFFORT_BUDGETS = {
+  low: 4096,
+  medium: 16384,
+  high: 32768,
+} as const;
+
+/**
+ * OpenAI compatible models known to take `reasoning_effort`, optionally with
+ * a vendor prefix such as `openai/`
+ */
+export const REASONING_EFFORT_MODELS =
+  /^(?:[\w-]+\/)?(?:o\d|gpt-5|gpt-oss|grok-3-mini)/i;
+
+/**
+ * Smallest thinking budget Anthropic accepts, used for `minimal` effort
+ */
+export const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Claude requires `max_tokens`, OpenAI style clients often leave it out
+ */
+export const DEFAULT_MAX_TOKENS = 8192;
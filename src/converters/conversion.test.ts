@@ -441,4 +441,70 @@ describe("converter e2e mocks", () => {
     const messageStop = all[all.length - 1];
     expect(messageStop.type).toBe("message_stop");
   });
+
+  it("reports the upstream finish reason in the final stream delta", () => {
+    const finish = (
+      finish_reason: string,
+      extra: Record<string, any> = {},
+    ): OpenAIChatCompletionsStreamResponse => ({
+      id: "s2",
+      object: "chat.completion.chunk",
+      created: 1,
+      model: "gpt-4.1-mini",
+      choices: [{ index: 0, delta: {}, finish_reason, ...extra }],
+    });
+
+    const stopReasonFor = (
+      chunk: OpenAIChatCompletionsStreamResponse,
+      stopSequences?: string[],
+    ) => {
+      const state = createStreamState(stopSequences);
+      convertOpenAIStreamToClaude(chunk, state);
+      return getFinalStreamEvents(state).find((e) => e.type === "message_delta")
+        ?.delta;
+    };
+
+    expect(stopReasonFor(finish("tool_calls"))).toEqual({
+      stop_reason: CLAUDE_STOP_REASONS.TOOL_USE,
+      stop_sequence: null,
+    });
+    expect(stopReasonFor(finish("length"))).toEqual({
+      stop_reason: CLAUDE_STOP_REASONS.MAX_TOKENS,
+      stop_sequence: null,
+    });
+    expect(stopReasonFor(finish("stop"), ["END"])).toEqual({
+      stop_reason: CLAUDE_STOP_REASONS.END_TURN,
+      stop_sequence: null,
+    });
+    expect(
+      stopReasonFor(finish("stop", { stop_reason: "END" }), ["END"]),
+    ).toEqual({
+      stop_reason: CLAUDE_STOP_REASONS.STOP_SEQUENCE,
+      stop_sequence: "END",
+    });
+  });
+
+  it("fills stop_sequence for non-stream responses", () => {
+    const openAIResponse: OpenAIChatCompletionsResponse = {
+      id: "abc",
+      object: "chat.completion",
+      created: 1,
+      model: "qwen3",
+      choices: [
+        {
+          index: 0,
+          finish_reason: "stop",
+          matched_stop: "</answer>",
+          message: { role: "assistant", content: "42" },
+        },
+      ],
+    };
+
+    const claudeResponse = convertOpenAINonStreamToClaude(openAIResponse, [
+      "</answer>",
+    ]);
+
+    expect(claudeResponse.stop_reason).toBe(CLAUDE_STOP_REASONS.STOP_SEQUENCE);
+    expect(claudeResponse.stop_sequence).toBe("</answer>");
+  });
 });
@@ -0,0 +1,243 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ClaudeAnyContentRequest } from "../types/claude";
+import { Env } from "../types/env";
+import { arrayBufferToBase64 } from "../utils/files";
+import {
+  convertDocumentsToText,
+  convertOpenAIFileToClaude,
+  documentText,
+  resolveContentSources,
+} from "./document";
+import { convertClaudeRequestToGemini } from "./gemini";
+import { convertClaudeRequestToOpenAI } from "./request";
+import { convertClaudeRequestToResponses } from "./responses";
+
+const PAGE_CONTENT =
+  "BT /F1 12 Tf 72 712 Td (Quarterly \\(Q3\\) report) Tj 0 -14 Td [(Revenue) -300 (grew)] TJ ET";
+
+/**
+ * Smallest PDF the extractor reads, one content stream, optionally deflated
+ */
+async function buildPdf(compress: boolean): Promise<string> {
+  let data = new TextEncoder().encode(PAGE_CONTENT);
+  if (compress) {
+    const stream = new Blob([data])
+      .stream()
+      .pipeThrough(new CompressionStream("deflate"));
+    data = new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+  const filter = compress ? " /Filter /FlateDecode" : "";
+  const head = new TextEncoder().encode(
+    `%PDF-1.4\n4 0 obj\n<< /Length ${data.length}${filter} >>\nstream\n`,
+  );
+  const tail = new TextEncoder().encode("\nendstream\nendobj\n%%EOF\n");
+  const pdf = new Uint8Array(head.length + data.length + tail.length);
+  pdf.set(head);
+  pdf.set(data, head.length);
+  pdf.set(tail, head.length + data.length);
+  return arrayBufferToBase64(pdf.buffer);
+}
+
+const documentRequest = (pdf: string): ClaudeAnyContentRequest => ({
+  model: "any",
+  messages: [
+    {
+      role: "user",
+      content: [
+        {
+          type: "document",
+          source: { type: "base64", media_type: "application/pdf", data: pdf },
+          title: "report.pdf",
+        },
+        {
+          type: "document",
+          source: { type: "text", media_type: "text/plain", data: "Notes" },
+          title: "notes",
+        },
+        { type: "text", text: "Summarise" },
+      ],
+    },
+  ],
+});
+
+describe("document blocks", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("maps PDFs to each upstream's file input", () => {
+    const request = documentRequest("JVBERi0=");
+
+    expect(convertClaudeRequestToOpenAI(request).messages[0].content).toEqual([
+      {
+        type: "file",
+        file: {
+          filename: "report.pdf",
+          file_data: "data:application/pdf;base64,JVBERi0=",
+        },
+      },
+      { type: "text", text: '<document title="notes">\nNotes\n</document>' },
+      { type: "text", text: "Summarise" },
+    ]);
+
+    expect(
+      (convertClaudeRequestToResponses(request).input[0] as any).content[0],
+    ).toEqual({
+      type: "input_file",
+      filename: "report.pdf",
+      file_data: "data:application/pdf;base64,JVBERi0=",
+    });
+
+    expect(convertClaudeRequestToGemini(request).contents[0].parts).toEqual([
+      { inlineData: { mimeType: "application/pdf", data: "JVBERi0=" } },
+      { text: '<document title="notes">\nNotes\n</document>' },
+      { text: "Summarise" },
+    ]);
+  });
+
+  it("sends extracted text where documents are not supported", async () => {
+    for (const compress of [false, true]) {
+      const request = documentRequest(await buildPdf(compress));
+      await convertDocumentsToText(request);
+
+      expect(request.messages[0].content).toEqual([
+        {
+          type: "text",
+          text: '<document title="report.pdf">\nQuarterly (Q3) report\nRevenue grew\n</document>',
+        },
+        { type: "text", text: '<document title="notes">\nNotes\n</document>' },
+        { type: "text", text: "Summarise" },
+      ]);
+    }
+  });
+
+  it("inlines file_id sources from the FILES namespace", async () => {
+    const stored = new Map<string, { value: ArrayBuffer; metadata: any }>();
+    const files = {
+      getWithMetadata: async (key: string) =>
+        stored.get(key) ?? { value: null, metadata: null },
+    } as unknown as KVNamespace;
+    const env = { FILES: files } as Env;
+
+    // Keys are scoped by a hash of the client's key
+    const prefix =
+      "files/acb42a4fa3d3621a7eeccc0cc79a3727e1c37572145ac3d1e7f773dde84de728/";
+    stored.set(`${prefix}file_1`, {
+      value: new TextEncoder().encode("a,b\n1,2").buffer as ArrayBuffer,
+      metadata: { id: "file_1", mime_type: "text/csv" },
+    });
+
+    const request: ClaudeAnyContentRequest = {
+      model: "any",
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "document", source: { type: "file", file_id: "file_1" } },
+          ],
+        },
+      ],
+    };
+    await resolveContentSources(request, env, "sk-123");
+    expect(request.messages[0].content[0].source).toEqual({
+      type: "text",
+      media_type: "text/plain",
+      data: "a,b\n1,2",
+    });
+
+    const missing: ClaudeAnyContentRequest = {
+      model: "any",
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "image", source: { type: "file", file_id: "file_2" } },
+          ],
+        },
+      ],
+    };
+    await expect(
+      resolveContentSources(missing, env, "sk-123"),
+    ).rejects.toMatchObject({
+      type: "invalid_request_error",
+      message: "File not found: file_2",
+    });
+  });
+
+  it("fetches url documents only for upstreams without document input", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.endsWith("/big.pdf")
+        ? new Response("%PDF", {
+            headers: {
+              "content-type": "application/pdf",
+              "content-length": String(64 * 1024 * 1024),
+            },
+          })
+        : new Response("Agenda", { headers: { "content-type": "text/plain" } }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const urlRequest = (url: string): ClaudeAnyContentRequest => ({
+      model: "any",
+      messages: [
+        {
+          role: "user",
+          content: [{ type: "document", source: { type: "url", url } }],
+        },
+      ],
+    });
+
+    // Left for upstreams that take document urls themselves
+    const passthrough = urlRequest("https://example.com/agenda.txt");
+    await resolveContentSources(passthrough, {} as Env, "sk-123");
+    expect(passthrough.messages[0].content[0].source?.type).toBe("url");
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const request = urlRequest("https://example.com/agenda.txt");
+    await convertDocumentsToText(request);
+    expect(request.messages[0].content).toEqual([
+      { type: "text", text: "<document>\nAgenda\n</document>" },
+    ]);
+
+    await expect(
+      convertDocumentsToText(urlRequest("http://169.254.169.254/latest")),
+    ).rejects.toMatchObject({ type: "invalid_request_error" });
+    await expect(
+      convertDocumentsToText(urlRequest("https://example.com/big.pdf")),
+    ).rejects.toMatchObject({ type: "request_too_large" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("escapes document titles and context", () => {
+    expect(
+      documentText({
+        type: "document",
+        source: { type: "text", data: "body" },
+        title: 'a "b" <c>',
+        context: "x & y",
+      }),
+    ).toBe(
+      '<document title="a &quot;b&quot; &lt;c>" context="x &amp; y">\nbody\n</document>',
+    );
+  });
+
+  it("reads OpenAI file parts as documents", () => {
+    expect(
+      convertOpenAIFileToClaude({
+        filename: "a.pdf",
+        file_data: "data:application/pdf;base64,JVBERi0=",
+      }),
+    ).toEqual({
+      type: "document",
+      source: {
+        type: "base64",
+        media_type: "application/pdf",
+        data: "JVBERi0=",
+      },
+      title: "a.pdf",
+    });
+    expect(convertOpenAIFileToClaude({ file_id: "file_1" })).toEqual({
+      type: "document",
+      source: { type: "file", file_id: "file_1" },
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  ClaudeAnyContentRequest,
+  ClaudeContent,
+  ClaudeImageSource,
+} from "../types/claude";
+import { Env } from "../types/env";
+import {
+  arrayBufferToBase64,
+  base64ToBytes,
+  getFile,
+  MAX_FILE_BYTES,
+} from "../utils/files";
+import { extractPdfText } from "../utils/pdf";
+import { CLAUDE_CONTENT_TYPES } from "./constants";
+import { UpstreamResponseError } from "./error";
+
+/**
+ * Replace `file` sources with inline data before the request is converted,
+ * so converters only see `base64`, `text` and `url` sources
+ */
+export async function resolveContentSources(
+  claudeRequest: ClaudeAnyContentRequest,
+  env: Env | undefined,
+  apiKey: string,
+): Promise<void> {
+  for (const content of contentBlocks(claudeRequest)) {
+    if (content.source?.type === "file") {
+      content.source = await loadFileSource(content, env, apiKey);
+    }
+  }
+}
+
+/**
+ * For upstreams without document input, turn each document into a text block
+ * with its plain text or the text extracted from the PDF. Url documents are
+ * fetched first.
+ */
+export async function convertDocumentsToText(
+  claudeRequest: ClaudeAnyContentRequest,
+): Promise<void> {
+  for (const content of contentBlocks(claudeRequest)) {
+    if (content.type !== CLAUDE_CONTENT_TYPES.DOCUMENT || !content.source) {
+      continue;
+    }
+
+    if (content.source.type === "url") {
+      content.source = await fetchDocumentSource(content.source.url || "");
+    }
+
+    const source = content.source;
+    let text: string;
+    if (source.type === "text") {
+      text = source.data || "";
+    } else if (
+      source.type === "base64" &&
+      source.media_type === "application/pdf"
+    ) {
+      text =
+        (await extractPdfText(base64ToBytes(source.data || ""))) ||
+        "[PDF without extractable text]";
+    } else if (source.type === "base64" && isTextMediaType(source.media_type)) {
+      text = new TextDecoder().decode(base64ToBytes(source.data || ""));
+    } else {
+      text = `[Unsupported document: ${source.media_type || source.type}]`;
+    }
+
+    content.source = { type: "text", media_type: "text/plain", data: text };
+    const block = content as ClaudeContent;
+    block.text = documentText(block);
+    block.type = CLAUDE_CONTENT_TYPES.TEXT;
+    delete block.source;
+    delete block.title;
+    delete block.context;
+  }
+}
+
+/**
+ * A `text` source document as a text part, wrapped so its title and context
+ * stay attached
+ */
+export function documentText(content: ClaudeContent): string {
+  const attributes = [
+    content.title && ` title="${escapeAttribute(content.title)}"`,
+    content.context && ` context="${escapeAttribute(content.context)}"`,
+  ]
+    .filter(Boolean)
+    .join("");
+  return `<document${attributes}>\n${content.source?.data || ""}\n</document>`;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+/**
+ * File name for upstream file parts, which some upstreams require
+ */
+export function documentFilename(content: ClaudeContent): string {
+  return content.title || "document.pdf";
+}
+
+/**
+ * An OpenAI `file` part (chat completions) or `input_file` (Responses) as a
+ * Claude document. File ids are taken to be ids from `/v1/files`.
+ */
+export function convertOpenAIFileToClaude(file: {
+  filename?: string;
+  file_data?: string;
+  file_url?: string;
+  file_id?: string;
+}): ClaudeContent | null {
+  const title = file.filename ? { title: file.filename } : {};
+  const match = file.file_data?.match(/^data:([^;]+);base64,(.*)$/);
+
+  if (match) {
+    return {
+      type: CLAUDE_CONTENT_TYPES.DOCUMENT,
+      source: { type: "base64", media_type: match[1], data: match[2] },
+      ...title,
+    };
+  }
+  if (file.file_url) {
+    return {
+      type: CLAUDE_CONTENT_TYPES.DOCUMENT,
+      source: { type: "url", url: file.file_url },
+      ...title,
+    };
+  }
+  if (file.file_id) {
+    return {
+      type: CLAUDE_CONTENT_TYPES.DOCUMENT,
+      source: { type: "file", file_id: file.file_id },
+      ...title,
+    };
+  }
+  return null;
+}
+
+/**
+ * Every content block of the request, including those inside tool results
+ */
+function* contentBlocks(
+  claudeRequest: ClaudeAnyContentRequest,
+): Generator<ClaudeContent> {
+  const walk = function* (blocks: unknown): Generator<ClaudeContent> {
+    if (!Array.isArray(blocks)) return;
+    for (const block of blocks) {
+      if (block?.type === CLAUDE_CONTENT_TYPES.TOOL_RESULT) {
+        yield* walk(block.content);
+      } else if (block && typeof block === "object") {
+        yield block;
+      }
+    }
+  };
+
+  for (const message of claudeRequest.messages) {
+    yield* walk(message.content);
+  }
+}
+
+function isTextMediaType(mediaType?: string): boolean {
+  return (
+    !!mediaType &&
+    (mediaType.startsWith("text/") ||
+      mediaType === "application/json" ||
+      mediaType === "application/xml")
+  );
+}
+
+async function loadFileSource(
+  content: ClaudeContent,
+  env: Env | undefined,
+  apiKey: string,
+): Promise<ClaudeImageSource> {
+  const fileId = content.source?.file_id || "";
+  if (!env?.FILES) {
+    throw new UpstreamResponseError(
+      "invalid_request_error",
+      "file_id sources need a FILES KV namespace binding",
+    );
+  }
+
+  const stored = await getFile(env.FILES, apiKey, fileId);
+  if (!stored) {
+    throw new UpstreamResponseError(
+      "invalid_request_error",
+      `File not found: ${fileId}`,
+    );
+  }
+
+  const mediaType = stored.file.mime_type;
+  if (
+    content.type === CLAUDE_CONTENT_TYPES.DOCUMENT &&
+    isTextMediaType(mediaType)
+  ) {
+    return {
+      type: "text",
+      media_type: "text/plain",
+      data: new TextDecoder().decode(stored.data),
+    };
+  }
+  return {
+    type: "base64",
+    media_type: mediaType,
+    data: arrayBufferToBase64(stored.data),
+  };
+}
+
+/**
+ * Download a url document, https only and capped like uploads
+ */
+async function fetchDocumentSource(url: string): Promise<ClaudeImageSource> {
+  if (!url.startsWith("https://")) {
+    throw new UpstreamResponseError(
+      "invalid_request_error",
+      `Document urls must use https: ${url}`,
+    );
+  }
+
+  const response = await fetch(url).catch((error) => {
+    throw new UpstreamResponseError(
+      "invalid_request_error",
+      `Could not fetch document ${url}: ${error.message}`,
+    );
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new UpstreamResponseError(
+      "invalid_request_error",
+      `Could not fetch document ${url}: HTTP ${response.status}`,
+    );
+  }
+
+  const data = await readLimited(response, url);
+  const mediaType = (response.headers.get("content-type") || "application/pdf")
+    .split(";")[0]
+    .trim();
+  if (isTextMediaType(mediaType)) {
+    return {
+      type: "text",
+      media_type: "text/plain",
+      data: new TextDecoder().decode(data),
+    };
+  }
+  return {
+    type: "base64",
+    media_type: mediaType,
+    data: arrayBufferToBase64(data.buffer as ArrayBuffer),
+  };
+}
+
+/**
+ * Read a response body, giving up once it passes `MAX_FILE_BYTES`
+ */
+async function readLimited(response: Response, url: string) {
+  const tooLarge = () =>
+    new UpstreamResponseError(
+      "request_too_large",
+      `Document ${url} is larger than ${MAX_FILE_BYTES} bytes`,
+    );
+
+  if (Number(response.headers.get("content-length")) > MAX_FILE_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body!.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_FILE_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
@@ -1,5 +1,5 @@
 import { ClaudeErrorResponse } from "../types/claude";
-import { OpenAIErrorResponse } from "../types/openai";
+import { OpenAIError, OpenAIErrorResponse } from "../types/openai";
 
 function convertOpenAIErrorTypeToClaude(openAIType: string): string {
   switch (openAIType) {
@@ -24,6 +24,117 @@ function convertOpenAIErrorTypeToClaude(openAIType: string): string {
   }
 }
 
+const CLAUDE_ERROR_TYPES = new Set([
+  "invalid_request_error",
+  "authentication_error",
+  "permission_error",
+  "not_found_error",
+  "request_too_large",
+  "rate_limit_error",
+  "api_error",
+  "overloaded_error",
+]);
+
+/**
+ * Claude error type Anthropic uses for an HTTP status
+ */
+export function claudeErrorTypeForStatus(status: number): string {
+  switch (status) {
+    case 400:
+      return "invalid_request_error";
+    case 401:
+      return "authentication_error";
+    case 403:
+      return "permission_error";
+    case 404:
+      return "not_found_error";
+    case 413:
+      return "request_too_large";
+    case 429:
+      return "rate_limit_error";
+    case 503:
+    case 529:
+      return "overloaded_error";
+    default:
+      return status >= 500 ? "api_error" : "invalid_request_error";
+  }
+}
+
+/**
+ * HTTP status Anthropic answers with for a Claude error type
+ */
+export function statusForClaudeErrorType(type: string): number {
+  switch (type) {
+    case "invalid_request_error":
+      return 400;
+    case "authentication_error":
+      return 401;
+    case "permission_error":
+      return 403;
+    case "not_found_error":
+      return 404;
+    case "request_too_large":
+      return 413;
+    case "rate_limit_error":
+      return 429;
+    case "overloaded_error":
+      return 529;
+    default:
+      return 500;
+  }
+}
+
+/**
+ * Answer with a Claude error body and the status Anthropic uses for its type
+ */
+export function claudeError(c: any, type: string, message: string) {
+  return c.json(
+    { type: "error", error: { type, message } },
+    statusForClaudeErrorType(type),
+  );
+}
+
+/**
+ * An upstream error that is not an HTTP error response, e.g. an exception
+ * frame in an event stream or a capability the model lacks, already mapped to
+ * a Claude error type. `status` is set when it did come from an HTTP response
+ * outside the proxy path, such as a model listing.
+ */
+export class UpstreamResponseError extends Error {
+  constructor(
+    readonly type: string,
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = "UpstreamResponseError";
+  }
+
+  toClaudeError(): ClaudeErrorResponse {
+    return { type: "error", error: { type: this.type, message: this.message } };
+  }
+}
+
+/**
+ * Upstreams often report provider specific types (`insufficient_quota`,
+ * `RESOURCE_EXHAUSTED`, ...) or none at all, which the converters default to
+ * `api_error`. Fall back to the HTTP status so clients and fallback chains see
+ * the Claude error type for what actually happened.
+ */
+export function normalizeClaudeErrorType(
+  claudeError: ClaudeErrorResponse,
+  status: number,
+): ClaudeErrorResponse {
+  const type = claudeError.error?.type;
+  if (!CLAUDE_ERROR_TYPES.has(type) || (type === "api_error" && status < 500)) {
+    claudeError.error = {
+      ...claudeError.error,
+      type: claudeErrorTypeForStatus(status),
+    };
+  }
+  return claudeError;
+}
+
 export function convertOpenAIErrorToClaude(
   openAIError: OpenAIErrorResponse,
 ): ClaudeErrorResponse {
@@ -53,6 +164,23 @@ export function convertOpenAIErrorToClaude(
   };
 }
 
+/**
+ * Convert a Claude error (or the proxy's own `{ error: { message } }`) to
+ * the OpenAI shape for chat completions clients
+ */
+export function convertClaudeErrorToOpenAI(
+  claudeError: Partial<ClaudeErrorResponse>,
+): { error: OpenAIError } {
+  return {
+    error: {
+      message: claudeError.error?.message || "Unknown error",
+      type: claudeError.error?.type || "api_error",
+      param: claudeError.error?.param || "",
+      code: claudeError.error?.code || "",
+    },
+  };
+}
+
 /**
  * Handle HTTP error response from OpenAI API
  * This function reads the error response body and converts it to Claude format
@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import { ClaudeAnyContentRequest } from "../types/claude";
+import { GeminiResponse } from "../types/gemini";
+import { CLAUDE_STOP_REASONS } from "./constants";
+import {
+  convertClaudeRequestToGemini,
+  convertGeminiResponseToClaude,
+  convertGeminiStreamToClaude,
+} from "./gemini";
+import { buildFinalStreamEvents, createStreamState } from "./stream";
+
+describe("native gemini conversion", () => {
+  it("converts Claude request into generateContent request", () => {
+    const claudeRequest: ClaudeAnyContentRequest = {
+      model: "gemini-2.5-pro",
+      max_tokens: 1024,
+      system: [{ type: "text", text: "be brief" }],
+      thinking: { type: "enabled", budget_tokens: 2048 },
+      tool_choice: { type: "tool", name: "lookup" },
+      tools: [
+        {
+          name: "lookup",
+          description: "search",
+          input_schema: {
+            type: "object",
+            properties: { q: { type: "string" } },
+            required: ["q"],
+          },
+        },
+      ],
+      messages: [
+        { role: "user", content: "find foo" },
+        {
+          role: "assistant",
+          content: [
+            { type: "thinking", thinking: "plan", signature: "sig-1" },
+            {
+              type: "tool_use",
+              id: "call-1",
+              name: "lookup",
+              input: { q: "foo" },
+              signature: "sig-2",
+            },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "call-1", content: "bar" },
+          ],
+        },
+      ],
+    };
+
+    const result = convertClaudeRequestToGemini(claudeRequest);
+
+    expect(result.systemInstruction).toEqual({ parts: [{ text: "be brief" }] });
+    expect(result.generationConfig).toEqual({
+      maxOutputTokens: 1024,
+      thinkingConfig: { thinkingBudget: 2048, includeThoughts: true },
+    });
+    expect(result.tools?.[0].functionDeclarations?.[0]).toEqual({
+      name: "lookup",
+      description: "search",
+      parameters: {
+        type: "object",
+        properties: { q: { type: "string" } },
+        required: ["q"],
+      },
+    });
+    expect(result.toolConfig).toEqual({
+      functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["lookup"] },
+    });
+    expect(result.contents).toEqual([
+      { role: "user", parts: [{ text: "find foo" }] },
+      {
+        role: "model",
+        parts: [
+          { text: "plan", thought: true, thoughtSignature: "sig-1" },
+          {
+            functionCall: { id: "call-1", name: "lookup", args: { q: "foo" } },
+            thoughtSignature: "sig-2",
+          },
+        ],
+      },
+      {
+        role: "user",
+        parts: [
+          {
+            functionResponse: {
+              id: "call-1",
+              name: "lookup",
+              response: { content: "bar" },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("takes a plain string system prompt", () => {
+    const geminiRequest = convertClaudeRequestToGemini({
+      model: "gemini-2.5-pro",
+      system: "Be brief." as any,
+      messages: [{ role: "user", content: "hi" }],
+    });
+    expect(geminiRequest.systemInstruction).toEqual({
+      parts: [{ text: "Be brief." }],
+    });
+  });
+
+  it("converts generateContent response into Claude response", () => {
+    const geminiResponse: GeminiResponse = {
+      responseId: "r1",
+      modelVersion: "gemini-2.5-pro",
+      candidates: [
+        {
+          finishReason: "STOP",
+          content: {
+            role: "model",
+            parts: [
+              { text: "hmm", thought: true },
+              {
+                functionCall: { name: "lookup", args: { q: "foo" } },
+                thoughtSignature: "sig-3",
+              },
+            ],
+          },
+        },
+      ],
+      usageMetadata: {
+        promptTokenCount: 100,
+        cachedContentTokenCount: 40,
+        candidatesTokenCount: 10,
+        thoughtsTokenCount: 5,
+      },
+    };
+
+    const claudeResponse = convertGeminiResponseToClaude(geminiResponse);
+
+    expect(claudeResponse.stop_reason).toBe(CLAUDE_STOP_REASONS.TOOL_USE);
+    expect(claudeResponse.content[0]).toEqual({
+      type: "thinking",
+      thinking: "hmm",
+    });
+    expect(claudeResponse.content[1]).toMatchObject({
+      type: "tool_use",
+      name: "lookup",
+      input: { q: "foo" },
+      signature: "sig-3",
+    });
+    expect(claudeResponse.usage).toEqual({
+      input_tokens: 60,
+      output_tokens: 15,
+      cache_read_input_tokens: 40,
+      cache_creation_input_tokens: 0,
+    });
+  });
+
+  it("converts SSE candidates into Claude stream events", () => {
+    const state = createStreamState();
+    const chunks: GeminiResponse[] = [
+      {
+        modelVersion: "gemini-2.5-flash",
+        candidates: [
+          { content: { role: "model", parts: [{ text: "a", thought: true }] } },
+        ],
+      },
+      {
+        candidates: [
+          {
+            content: {
+              role: "model",
+              parts: [{ text: "hello", thoughtSignature: "sig-4" }],
+            },
+          },
+        ],
+      },
+      {
+        candidates: [
+          {
+            finishReason: "MAX_TOKENS",
+            content: { role: "model", parts: [{ text: " world" }] },
+          },
+        ],
+        usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 2 },
+      },
+    ];
+
+    const events = chunks.flatMap((chunk) =>
+      convertGeminiStreamToClaude(chunk, state),
+    );
+    events.push(...buildFinalStreamEvents(state, state.usage));
+
+    expect(events.map((e) => e.type)).toEqual([
+      "message_start",
+      "ping",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    expect(events[0].message?.model).toBe("gemini-2.5-flash");
+    expect(events[4].delta).toEqual({
+      type: "signature_delta",
+      signature: "sig-4",
+    });
+    expect(events[10].delta?.stop_reason).toBe(CLAUDE_STOP_REASONS.MAX_TOKENS);
+    expect(events[10].usage?.output_tokens).toBe(2);
+  });
+});
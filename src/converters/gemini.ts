@@ -0,0 +1,629 @@
+import {
+  ClaudeAnyContentMessage,
+  ClaudeAnyContentRequest,
+  ClaudeContent,
+  ClaudeErrorResponse,
+  ClaudeResponse,
+  ClaudeStreamResponse,
+  ClaudeTool,
+  ClaudeUsage,
+} from "../types/claude";
+import { StreamConversionState } from "../types/conversion";
+import {
+  GeminiContent,
+  GeminiErrorResponse,
+  GeminiFunctionDeclaration,
+  GeminiPart,
+  GeminiRequest,
+  GeminiResponse,
+  GeminiToolConfig,
+  GeminiUsageMetadata,
+} from "../types/gemini";
+import {
+  CLAUDE_CONTENT_TYPES,
+  CLAUDE_DELTA_TYPES,
+  CLAUDE_STOP_REASONS,
+  CLAUDE_STREAM_TYPES,
+  OPENAI_FINISH_REASONS,
+} from "./constants";
+import { documentText } from "./document";
+import { claudeSystemBlocks } from "./request";
+import { convertFinishReasonToClaude } from "./response";
+import { sanitizeToolSchema } from "./schema";
+
+/**
+ * Convert Claude request to a native Gemini generateContent request
+ */
+export function convertClaudeRequestToGemini(
+  claudeRequest: ClaudeAnyContentRequest,
+): GeminiRequest {
+  const geminiRequest: GeminiRequest = {
+    contents: convertClaudeMessagesToGemini(claudeRequest.messages),
+  };
+
+  if (claudeRequest.system && claudeRequest.system.length > 0) {
+    const parts = claudeSystemBlocks(claudeRequest.system)
+      .filter((item) => item.type === "text" && item.text)
+      .map((item) => ({ text: item.text! }));
+    if (parts.length > 0) {
+      geminiRequest.systemInstruction = { parts };
+    }
+  }
+
+  if (claudeRequest.tools && claudeRequest.tools.length > 0) {
+    geminiRequest.tools = [
+      {
+        functionDeclarations: convertClaudeToolsToGemini(claudeRequest.tools),
+      },
+    ];
+    geminiRequest.toolConfig = convertClaudeToolChoiceToGemini(
+      claudeRequest.tool_choice,
+    );
+  }
+
+  const generationConfig: GeminiRequest["generationConfig"] = {};
+  const maxTokens =
+    claudeRequest.max_completion_tokens ?? claudeRequest.max_tokens;
+  if (maxTokens !== undefined) {
+    generationConfig.maxOutputTokens = maxTokens;
+  }
+  if (claudeRequest.temperature !== undefined) {
+    generationConfig.temperature = claudeRequest.temperature;
+  }
+  if (claudeRequest.top_p !== undefined) {
+    generationConfig.topP = claudeRequest.top_p;
+  }
+  if (claudeRequest.top_k !== undefined) {
+    generationConfig.topK = claudeRequest.top_k;
+  }
+  if (claudeRequest.stop_sequences && claudeRequest.stop_sequences.length > 0) {
+    generationConfig.stopSequences = claudeRequest.stop_sequences;
+  }
+  if (claudeRequest.thinking?.type === "enabled") {
+    generationConfig.thinkingConfig = {
+      thinkingBudget: claudeRequest.thinking.budget_tokens,
+      includeThoughts: true,
+    };
+  }
+  if (Object.keys(generationConfig).length > 0) {
+    geminiRequest.generationConfig = generationConfig;
+  }
+
+  return geminiRequest;
+}
+
+function convertClaudeMessagesToGemini(
+  messages: ClaudeAnyContentMessage[],
+): GeminiContent[] {
+  const contents: GeminiContent[] = [];
+  // functionResponse needs the function name, Claude tool_result only has the id
+  const toolNames = new Map<string, string>();
+
+  for (const msg of messages) {
+    const role = msg.role === "assistant" ? "model" : "user";
+
+    if (typeof msg.content === "string") {
+      contents.push({ role, parts: [{ text: msg.content }] });
+      continue;
+    }
+    if (!Array.isArray(msg.content)) {
+      continue;
+    }
+
+    const parts = convertClaudeContentToGemini(msg.content, toolNames);
+    if (parts.length > 0) {
+      contents.push({ role, parts });
+    }
+  }
+
+  return contents;
+}
+
+function convertClaudeContentToGemini(
+  contents: ClaudeContent[],
+  toolNames: Map<string, string>,
+): GeminiPart[] {
+  const parts: GeminiPart[] = [];
+
+  for (const content of contents) {
+    switch (content.type) {
+      case CLAUDE_CONTENT_TYPES.TEXT:
+        if (content.text) {
+          parts.push({ text: content.text });
+        }
+        break;
+
+      case CLAUDE_CONTENT_TYPES.THINKING:
+        if (content.thinking || content.signature) {
+          parts.push({
+            text: content.thinking || "",
+            thought: true,
+            thoughtSignature: content.signature,
+          });
+        }
+        break;
+
+      case CLAUDE_CONTENT_TYPES.IMAGE:
+        if (content.source?.type === "base64" && content.source.data) {
+          parts.push({
+            inlineData: {
+              mimeType: content.source.media_type || "image/jpeg",
+              data: content.source.data,
+            },
+          });
+        } else if (content.source?.url) {
+          parts.push({
+            fileData: {
+              mimeType: content.source.media_type || "image/jpeg",
+              fileUri: content.source.url,
+            },
+          });
+        }
+        break;
+
+      case CLAUDE_CONTENT_TYPES.DOCUMENT:
+        if (content.source?.type === "text") {
+          parts.push({ text: documentText(content) });
+        } else if (content.source?.type === "base64" && content.source.data) {
+          parts.push({
+            inlineData: {
+              mimeType: content.source.media_type || "application/pdf",
+              data: content.source.data,
+            },
+          });
+        } else if (content.source?.type === "url" && content.source.url) {
+          parts.push({
+            fileData: {
+              mimeType: content.source.media_type || "application/pdf",
+              fileUri: content.source.url,
+            },
+          });
+        }
+        break;
+
+      case CLAUDE_CONTENT_TYPES.TOOL_USE:
+        if (content.id && content.name) {
+          toolNames.set(content.id, content.name);
+          parts.push({
+            functionCall: {
+              id: content.id,
+              name: content.name,
+              args: content.input || {},
+            },
+            thoughtSignature: content.signature,
+          });
+        }
+        break;
+
+      case CLAUDE_CONTENT_TYPES.TOOL_RESULT: {
+        const toolUseId = content.tool_use_id || "";
+        const output = extractToolResultText(content.content);
+        parts.push({
+          functionResponse: {
+            id: toolUseId,
+            name: toolNames.get(toolUseId) || toolUseId,
+            response: (content as any).is_error
+              ? { error: output }
+              : { content: output },
+          },
+        });
+
+        // Gemini only accepts images and documents next to the function response
+        if (Array.isArray(content.content)) {
+          parts.push(
+            ...convertClaudeContentToGemini(
+              content.content.filter(
+                (item: ClaudeContent) =>
+                  item.type === CLAUDE_CONTENT_TYPES.IMAGE ||
+                  item.type === CLAUDE_CONTENT_TYPES.DOCUMENT,
+              ),
+              toolNames,
+            ),
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  return parts;
+}
+
+function extractToolResultText(content: any): string {
+  if (content == null) return "";
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((item) =>
+        typeof item === "string"
+          ? item
+          : item?.type === CLAUDE_CONTENT_TYPES.TEXT
+            ? item.text || ""
+            : "",
+      )
+      .filter(Boolean)
+      .join("\n");
+  }
+  return JSON.stringify(content);
+}
+
+function convertClaudeToolsToGemini(
+  claudeTools: ClaudeTool[],
+): GeminiFunctionDeclaration[] {
+  return claudeTools.map((tool) => {
+    const declaration: GeminiFunctionDeclaration = {
+      name: tool.name,
+      description: tool.description || "",
+    };
+
+    if (tool.input_schema) {
+      const parameters = sanitizeToolSchema(tool.input_schema, "gemini");
+      // Tools without arguments are declared without parameters
+      if (parameters.properties) {
+        declaration.parameters = parameters;
+      }
+    }
+
+    return declaration;
+  });
+}
+
+function convertClaudeToolChoiceToGemini(toolChoice: any): GeminiToolConfig {
+  const type = typeof toolChoice === "string" ? toolChoice : toolChoice?.type;
+
+  switch (type) {
+    case "any":
+      return { functionCallingConfig: { mode: "ANY" } };
+    case "none":
+      return { functionCallingConfig: { mode: "NONE" } };
+    case "tool":
+      return {
+        functionCallingConfig: {
+          mode: "ANY",
+          allowedFunctionNames: [toolChoice.name],
+        },
+      };
+    default:
+      return { functionCallingConfig: { mode: "AUTO" } };
+  }
+}
+
+/**
+ * Convert native Gemini non-streaming response to Claude response
+ */
+export function convertGeminiResponseToClaude(
+  geminiResponse: GeminiResponse,
+  model?: string,
+): ClaudeResponse {
+  const claudeResponse: ClaudeResponse = {
+    id: geminiResponse.responseId
+      ? `msg_${geminiResponse.responseId}`
+      : `msg_${Date.now()}`,
+    type: "message",
+    role: "assistant",
+    model: geminiResponse.modelVersion || model || "",
+    content: [],
+    stop_reason: CLAUDE_STOP_REASONS.END_TURN,
+    stop_sequence: null,
+    usage: convertGeminiUsageToClaude(geminiResponse.usageMetadata),
+  };
+
+  const candidate = geminiResponse.candidates?.[0];
+  let thinking: ClaudeContent | null = null;
+  let hasToolCalls = false;
+
+  for (const part of candidate?.content?.parts || []) {
+    if (part.functionCall) {
+      hasToolCalls = true;
+      const toolUse: ClaudeContent = {
+        type: CLAUDE_CONTENT_TYPES.TOOL_USE,
+        id: part.functionCall.id || generateToolUseId(),
+        name: part.functionCall.name,
+        input: part.functionCall.args || {},
+      };
+      if (part.thoughtSignature) {
+        toolUse.signature = part.thoughtSignature;
+      }
+      claudeResponse.content.push(toolUse);
+      thinking = null;
+    } else if (part.thought) {
+      if (!thinking) {
+        thinking = {
+          type: CLAUDE_CONTENT_TYPES.THINKING,
+          thinking: "",
+        };
+        claudeResponse.content.push(thinking);
+      }
+      thinking.thinking += part.text || "";
+      if (part.thoughtSignature) {
+        thinking.signature = part.thoughtSignature;
+      }
+    } else if (part.text !== undefined) {
+      // A signature on the first answer part belongs to the preceding thoughts
+      if (thinking && part.thoughtSignature && !thinking.signature) {
+        thinking.signature = part.thoughtSignature;
+      }
+      thinking = null;
+      if (part.text) {
+        claudeResponse.content.push({
+          type: CLAUDE_CONTENT_TYPES.TEXT,
+          text: part.text,
+        });
+      }
+    }
+  }
+
+  claudeResponse.stop_reason = convertFinishReasonToClaude(
+    convertGeminiFinishReason(candidate?.finishReason, hasToolCalls),
+  );
+
+  if (claudeResponse.content.length === 0) {
+    claudeResponse.content.push({
+      type: CLAUDE_CONTENT_TYPES.TEXT,
+      text: "",
+    });
+  }
+
+  return claudeResponse;
+}
+
+/**
+ * Convert a native Gemini SSE chunk to Claude streaming responses
+ */
+export function convertGeminiStreamToClaude(
+  chunk: GeminiResponse,
+  state: StreamConversionState,
+): ClaudeStreamResponse[] {
+  const events: ClaudeStreamResponse[] = [];
+
+  const stopCurrentBlock = () => {
+    if (state.currentContentIndex >= 0) {
+      events.push({
+        type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_STOP,
+        index: state.currentContentIndex,
+      });
+    }
+  };
+
+  const startBlock = (contentBlock: ClaudeContent) => {
+    stopCurrentBlock();
+    state.currentContentIndex++;
+    state.currentContentType = contentBlock.type;
+    events.push({
+      type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_START,
+      index: state.currentContentIndex,
+      content_block: contentBlock,
+    });
+  };
+
+  const emitThinkingSignature = (signature: string) => {
+    events.push({
+      type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_DELTA,
+      index: state.currentContentIndex,
+      delta: {
+        type: CLAUDE_DELTA_TYPES.SIGNATURE_DELTA,
+        signature,
+      },
+    });
+    state.sentThinkingSignature = true;
+  };
+
+  if (!state.messageId) {
+    state.messageId = chunk.responseId
+      ? `msg_${chunk.responseId}`
+      : `msg_${Date.now()}`;
+  }
+
+  if (chunk.usageMetadata) {
+    state.usage = convertGeminiUsageToClaude(chunk.usageMetadata);
+  }
+
+  if (!state.sentMessageStart) {
+    state.sentMessageStart = true;
+
+    events.push({
+      type: CLAUDE_STREAM_TYPES.MESSAGE_START,
+      message: {
+        id: state.messageId,
+        type: "message",
+        role: "assistant",
+        model: chunk.modelVersion || "",
+        content: [],
+        usage: state.usage || { input_tokens: 0, output_tokens: 0 },
+        stop_reason: null,
+        stop_sequence: null,
+      },
+    });
+
+    events.push({
+      type: CLAUDE_STREAM_TYPES.PING,
+    });
+  }
+
+  const candidate = chunk.candidates?.[0];
+
+  for (const part of candidate?.content?.parts || []) {
+    if (part.functionCall) {
+      const idx = state.toolCalls.length;
+      const input = JSON.stringify(part.functionCall.args || {});
+      state.toolCalls.push({
+        index: idx,
+        id: part.functionCall.id || generateToolUseId(),
+        name: part.functionCall.name,
+        input,
+      });
+
+      const contentBlock: ClaudeContent = {
+        type: CLAUDE_CONTENT_TYPES.TOOL_USE,
+        id: state.toolCalls[idx].id,
+        name: state.toolCalls[idx].name,
+        input: {},
+      };
+      if (part.thoughtSignature) {
+        contentBlock.signature = part.thoughtSignature;
+      }
+      startBlock(contentBlock);
+
+      events.push({
+        type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_DELTA,
+        index: state.currentContentIndex,
+        delta: {
+          type: CLAUDE_DELTA_TYPES.INPUT_JSON_DELTA,
+          partial_json: input,
+        },
+      });
+    } else if (part.thought) {
+      if (state.currentContentType !== CLAUDE_CONTENT_TYPES.THINKING) {
+        startBlock({ type: CLAUDE_CONTENT_TYPES.THINKING, thinking: "" });
+        state.thinkingTexts[state.currentContentIndex] = "";
+        state.sentThinkingSignature = false;
+      }
+
+      if (part.text) {
+        state.thinkingTexts[state.currentContentIndex] += part.text;
+        events.push({
+          type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_DELTA,
+          index: state.currentContentIndex,
+          delta: {
+            type: CLAUDE_DELTA_TYPES.THINKING_DELTA,
+            thinking: part.text,
+          },
+        });
+      }
+
+      if (part.thoughtSignature) {
+        emitThinkingSignature(part.thoughtSignature);
+      }
+    } else if (part.text !== undefined) {
+      // A signature on the first answer part belongs to the preceding thoughts
+      if (
+        part.thoughtSignature &&
+        state.currentContentType === CLAUDE_CONTENT_TYPES.THINKING &&
+        !state.sentThinkingSignature
+      ) {
+        emitThinkingSignature(part.thoughtSignature);
+      }
+
+      if (!part.text) {
+        continue;
+      }
+
+      if (state.currentContentType !== CLAUDE_CONTENT_TYPES.TEXT) {
+        startBlock({ type: CLAUDE_CONTENT_TYPES.TEXT, text: "" });
+        state.contentTexts[state.currentContentIndex] = "";
+      }
+
+      state.contentTexts[state.currentContentIndex] += part.text;
+      events.push({
+        type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_DELTA,
+        index: state.currentContentIndex,
+        delta: {
+          type: CLAUDE_DELTA_TYPES.TEXT_DELTA,
+          text: part.text,
+        },
+      });
+    }
+  }
+
+  if (candidate?.finishReason) {
+    state.finishReason = convertGeminiFinishReason(
+      candidate.finishReason,
+      state.toolCalls.length > 0,
+    );
+  }
+
+  return events;
+}
+
+/**
+ * Convert Gemini usage metadata to Claude usage
+ * promptTokenCount already includes the cached tokens
+ */
+export function convertGeminiUsageToClaude(
+  usage?: GeminiUsageMetadata,
+): ClaudeUsage {
+  if (!usage) {
+    return {
+      input_tokens: 0,
+      output_tokens: 0,
+    };
+  }
+
+  const cached = usage.cachedContentTokenCount || 0;
+  return {
+    input_tokens: (usage.promptTokenCount || 0) - cached,
+    output_tokens:
+      (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+    cache_read_input_tokens: cached,
+    cache_creation_input_tokens: 0,
+  };
+}
+
+/**
+ * Map Gemini finish reasons onto their OpenAI equivalents so the shared
+ * stop reason conversion applies
+ */
+function convertGeminiFinishReason(
+  finishReason: string | undefined,
+  hasToolCalls: boolean,
+): string {
+  if (hasToolCalls) {
+    return OPENAI_FINISH_REASONS.TOOL_CALLS;
+  }
+
+  switch (finishReason) {
+    case "MAX_TOKENS":
+      return OPENAI_FINISH_REASONS.LENGTH;
+    case "SAFETY":
+    case "RECITATION":
+    case "BLOCKLIST":
+    case "PROHIBITED_CONTENT":
+    case "SPII":
+      return OPENAI_FINISH_REASONS.CONTENT_FILTER;
+    default:
+      return OPENAI_FINISH_REASONS.STOP;
+  }
+}
+
+/**
+ * Convert a Google RPC status error into a Claude error
+ */
+export function convertGeminiErrorToClaude(
+  geminiError: GeminiErrorResponse | GeminiErrorResponse[],
+): ClaudeErrorResponse {
+  const error = Array.isArray(geminiError)
+    ? geminiError[0]?.error
+    : geminiError.error;
+
+  return {
+    type: "error",
+    error: {
+      type: convertGeminiStatusToClaude(error?.status),
+      message: error?.message || "Unknown error",
+    },
+  };
+}
+
+function convertGeminiStatusToClaude(status?: string): string {
+  switch (status) {
+    case "INVALID_ARGUMENT":
+    case "FAILED_PRECONDITION":
+      return "invalid_request_error";
+    case "UNAUTHENTICATED":
+      return "authentication_error";
+    case "PERMISSION_DENIED":
+      return "permission_error";
+    case "NOT_FOUND":
+      return "not_found_error";
+    case "RESOURCE_EXHAUSTED":
+      return "rate_limit_error";
+    case "UNAVAILABLE":
+      return "overloaded_error";
+    default:
+      return "api_error";
+  }
+}
+
+function generateToolUseId(): string {
+  return `toolu_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+}
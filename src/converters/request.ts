@@ -2,16 +2,25 @@ import {
   ClaudeAnyContentMessage,
   ClaudeAnyContentRequest,
   ClaudeContent,
+  ClaudeThinking,
   ClaudeTool,
 } from "../types/claude";
 import {
   MessageContent,
   OpenAIMessage,
   OpenAIRequest,
+  ReasoningEffort,
   Tool,
   ToolCall,
 } from "../types/openai";
-import { CLAUDE_CONTENT_TYPES } from "./constants";
+import {
+  CLAUDE_CONTENT_TYPES,
+  DEFAULT_MAX_TOKENS,
+  MIN_THINKING_BUDGET,
+  REASONING_EFFORT_BUDGETS,
+} from "./constants";
+import { documentFilename, documentText } from "./document";
+import { sanitizeToolSchema, SchemaProfile } from "./schema";
 
 interface ConvertedContent {
   content?: string | MessageContent[] | null;
@@ -25,6 +34,7 @@ interface ConvertedContent {
 
 export function convertClaudeRequestToOpenAI(
   claudeRequest: ClaudeAnyContentRequest,
+  schemaProfile: SchemaProfile = "openai",
 ): OpenAIRequest {
   const openAIRequest: OpenAIRequest = {
     model: claudeRequest.model,
@@ -46,7 +56,10 @@ export function convertClaudeRequestToOpenAI(
   }
 
   if (claudeRequest.tools && claudeRequest.tools.length > 0) {
-    openAIRequest.tools = convertClaudeToolsToOpenAI(claudeRequest.tools);
+    openAIRequest.tools = convertClaudeToolsToOpenAI(
+      claudeRequest.tools,
+      schemaProfile,
+    );
     openAIRequest.tool_choice = convertClaudeToolChoiceToOpenAI(
       claudeRequest.tool_choice,
     );
@@ -75,13 +88,29 @@ export function convertClaudeRequestToOpenAI(
   return openAIRequest;
 }
 
-function convertClaudeSystemToOpenAI(system: ClaudeContent[]): OpenAIMessage[] {
+/**
+ * The request's system prompt as blocks, the Messages API also takes a plain
+ * string
+ */
+export function claudeSystemBlocks(
+  system: ClaudeContent[] | string | undefined,
+): ClaudeContent[] {
+  if (typeof system === "string") {
+    return system ? [{ type: "text", text: system }] : [];
+  }
+  return Array.isArray(system) ? system : [];
+}
+
+function convertClaudeSystemToOpenAI(
+  system: ClaudeContent[] | string,
+): OpenAIMessage[] {
   const messages: OpenAIMessage[] = [];
+  const blocks = claudeSystemBlocks(system);
 
-  if (system.length > 0) {
+  if (blocks.length > 0) {
     const content: MessageContent[] = [];
 
-    for (const item of system) {
+    for (const item of blocks) {
       if (item.type === "text" && item.text) {
         content.push({
           type: "text",
@@ -213,6 +242,20 @@ function convertClaudeContentArray(
         }
         break;
 
+      case CLAUDE_CONTENT_TYPES.DOCUMENT:
+        if (content.source?.type === "text") {
+          messageContents.push({ type: "text", text: documentText(content) });
+        } else if (content.source?.type === "base64" && content.source.data) {
+          messageContents.push({
+            type: "file",
+            file: {
+              filename: documentFilename(content),
+              file_data: `data:${content.source.media_type || "application/pdf"};base64,${content.source.data}`,
+            },
+          });
+        }
+        break;
+
       case CLAUDE_CONTENT_TYPES.TOOL_USE:
         if (content.id && content.name && content.input !== undefined) {
           const args =
@@ -271,32 +314,22 @@ function convertClaudeContentArray(
   return result;
 }
 
-function convertClaudeToolsToOpenAI(claudeTools: ClaudeTool[]): Tool[] {
+function convertClaudeToolsToOpenAI(
+  claudeTools: ClaudeTool[],
+  schemaProfile: SchemaProfile,
+): Tool[] {
   return claudeTools.map((tool) => {
     const openAITool: Tool = {
       type: "function",
       function: {
         name: tool.name,
         description: tool.description || "",
-        parameters: {},
+        parameters: sanitizeToolSchema(tool.input_schema, schemaProfile),
       },
     };
 
-    if (tool.input_schema) {
-      const params: Record<string, any> = {
-        type: tool.input_schema.type || "object",
-        properties: tool.input_schema.properties || {},
-      };
-
-      if (
-        tool.input_schema.required &&
-        Array.isArray(tool.input_schema.required) &&
-        tool.input_schema.required.length > 0
-      ) {
-        params.required = tool.input_schema.required;
-      }
-
-      openAITool.function.parameters = params;
+    if (schemaProfile === "openai-strict") {
+      openAITool.function.strict = true;
     }
 
     return openAITool;
@@ -332,3 +365,83 @@ function convertClaudeToolChoiceToOpenAI(toolChoice: any): any {
 
   return "auto";
 }
+
+/**
+ * Bucket a Claude thinking budget into an OpenAI style reasoning effort.
+ * Returns undefined when thinking is not enabled.
+ */
+export function convertClaudeThinkingToReasoningEffort(
+  thinking?: ClaudeThinking,
+): ReasoningEffort | undefined {
+  if (!thinking || thinking.type !== "enabled") {
+    return undefined;
+  }
+
+  const budget = thinking.budget_tokens ?? REASONING_EFFORT_BUDGETS.medium;
+  if (budget <= REASONING_EFFORT_BUDGETS.low) {
+    return "low";
+  }
+  if (budget <= REASONING_EFFORT_BUDGETS.medium) {
+    return "medium";
+  }
+  return "high";
+}
+
+/**
+ * Turn a client's reasoning effort into a thinking budget inside the bucket
+ * `convertClaudeThinkingToReasoningEffort` reads back
+ */
+export function convertReasoningEffortToClaudeThinking(
+  effort?: ReasoningEffort,
+): ClaudeThinking | undefined {
+  switch (effort) {
+    case "minimal":
+      return { type: "enabled", budget_tokens: MIN_THINKING_BUDGET };
+    case "low":
+    case "medium":
+    case "high":
+      return {
+        type: "enabled",
+        budget_tokens: REASONING_EFFORT_BUDGETS[effort],
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * `max_tokens` for a Claude request converted from an OpenAI style client.
+ * The thinking budget counts against it, so leave room for the answer.
+ */
+export function resolveClaudeMaxTokens(
+  maxTokens: number | undefined,
+  thinking?: ClaudeThinking,
+): number {
+  const resolved = maxTokens ?? DEFAULT_MAX_TOKENS;
+  if (thinking?.budget_tokens && resolved <= thinking.budget_tokens) {
+    return thinking.budget_tokens + DEFAULT_MAX_TOKENS;
+  }
+  return resolved;
+}
+
+/**
+ * Add content to a Claude conversation built from an OpenAI style client.
+ * Claude needs alternating roles, so tool results and follow up user text end
+ * up in one user turn.
+ */
+export function appendClaudeTurn(
+  messages: ClaudeAnyContentMessage[],
+  role: ClaudeAnyContentMessage["role"],
+  content: ClaudeContent[],
+): void {
+  if (content.length === 0) {
+    return;
+  }
+
+  const previous = messages[messages.length - 1];
+  if (previous?.role === role) {
+    previous.content.push(...content);
+  } else {
+    messages.push({ role, content });
+  }
+}
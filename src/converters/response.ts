@@ -11,6 +11,7 @@ import { CLAUDE_CONTENT_TYPES, CLAUDE_STOP_REASONS } from "./constants";
  */
 export function convertOpenAINonStreamToClaude(
   openAIResponse: OpenAIChatCompletionsResponse,
+  stopSequences?: string[],
 ): ClaudeResponse {
   const claudeResponse: ClaudeResponse = {
     id: openAIResponse.id || `msg_${Date.now()}`,
@@ -19,6 +20,7 @@ export function convertOpenAINonStreamToClaude(
     model: openAIResponse.model,
     content: [],
     stop_reason: CLAUDE_STOP_REASONS.END_TURN,
+    stop_sequence: null,
     usage: convertOpenAIUsageToClaude(openAIResponse.usage),
   };
 
@@ -101,8 +103,13 @@ export function convertOpenAINonStreamToClaude(
     }
 
     // Convert finish reason
+    claudeResponse.stop_sequence = findMatchedStopSequence(
+      choice,
+      stopSequences,
+    );
     claudeResponse.stop_reason = convertFinishReasonToClaude(
       choice.finish_reason,
+      claudeResponse.stop_sequence,
     );
   }
 
@@ -167,7 +174,14 @@ function convertOpenAIUsageToClaude(usage?: ChatUsage): ClaudeUsage {
 /**
  * Convert OpenAI finish reason to Claude stop reason
  */
-function convertFinishReasonToClaude(finishReason: string): string {
+export function convertFinishReasonToClaude(
+  finishReason: string | null | undefined,
+  stopSequence?: string | null,
+): string {
+  if (stopSequence) {
+    return CLAUDE_STOP_REASONS.STOP_SEQUENCE;
+  }
+
   switch (finishReason) {
     case "stop":
       return CLAUDE_STOP_REASONS.END_TURN;
@@ -181,3 +195,30 @@ function convertFinishReasonToClaude(finishReason: string): string {
       return finishReason || CLAUDE_STOP_REASONS.END_TURN;
   }
 }
+
+/**
+ * Find which configured stop sequence ended the choice.
+ * OpenAI itself does not report it, but vLLM (`stop_reason`) and SGLang
+ * (`matched_stop`) style servers do.
+ */
+export function findMatchedStopSequence(
+  choice: {
+    finish_reason?: string | null;
+    stop_reason?: string | number | null;
+    matched_stop?: string | number | null;
+  },
+  stopSequences?: string[],
+): string | null {
+  if (!stopSequences || stopSequences.length === 0) {
+    return null;
+  }
+  if (choice.finish_reason !== "stop") {
+    return null;
+  }
+
+  const matched = choice.stop_reason ?? choice.matched_stop;
+  if (typeof matched === "string" && stopSequences.includes(matched)) {
+    return matched;
+  }
+  return null;
+}
@@ -0,0 +1,229 @@
+import { describe, expect, it } from "vitest";
+import { ClaudeStreamResponse } from "../types/claude";
+import {
+  convertClaudeResponseToResponses,
+  convertClaudeStreamToResponses,
+  convertResponsesRequestToClaude,
+  createResponsesClientStreamState,
+} from "./responses-client";
+
+describe("responses front door conversion", () => {
+  it("converts Codex style input into Claude turns", () => {
+    const claudeRequest = convertResponsesRequestToClaude({
+      model: "claude-sonnet-4-5",
+      instructions: "You are a coding agent.",
+      reasoning: { effort: "low", summary: "auto" },
+      store: false,
+      input: [
+        { type: "message", role: "developer", content: "Sandbox: read-only" },
+        {
+          type: "message",
+          role: "user",
+          content: [{ type: "input_text", text: "List the files" }],
+        },
+        {
+          type: "reasoning",
+          id: "rs_1",
+          summary: [{ type: "summary_text", text: "Use ls" }],
+          encrypted_content: "sig-1",
+        },
+        {
+          type: "reasoning",
+          id: "rs_2",
+          summary: [{ type: "summary_text", text: "from elsewhere" }],
+        },
+        {
+          type: "function_call",
+          call_id: "call_1",
+          name: "shell",
+          arguments: '{"command":["ls"]}',
+        },
+        { type: "function_call_output", call_id: "call_1", output: "a.ts" },
+      ],
+      tools: [
+        {
+          type: "function",
+          name: "shell",
+          parameters: { type: "object", properties: {} },
+        },
+        { type: "web_search" } as any,
+      ],
+      tool_choice: "auto",
+    });
+
+    expect(claudeRequest).toMatchObject({
+      system: [
+        { type: "text", text: "You are a coding agent." },
+        { type: "text", text: "Sandbox: read-only" },
+      ],
+      thinking: { type: "enabled", budget_tokens: 4096 },
+      max_tokens: 8192,
+      tool_choice: { type: "auto" },
+    });
+    expect(claudeRequest.tools!.map((tool) => tool.name)).toEqual(["shell"]);
+    expect(claudeRequest.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "List the files" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Use ls", signature: "sig-1" },
+          {
+            type: "tool_use",
+            id: "call_1",
+            name: "shell",
+            input: { command: ["ls"] },
+          },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "call_1", content: "a.ts" },
+        ],
+      },
+    ]);
+
+    expect(
+      convertResponsesRequestToClaude({ model: "gpt-5", input: "hi" }).messages,
+    ).toEqual([{ role: "user", content: [{ type: "text", text: "hi" }] }]);
+  });
+
+  it("converts a Claude message to output items", () => {
+    const response = convertClaudeResponseToResponses({
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      model: "claude-sonnet-4.5",
+      content: [
+        { type: "thinking", thinking: "Check", signature: "sig" },
+        { type: "text", text: "Done" },
+      ],
+      stop_reason: "max_tokens",
+      usage: { input_tokens: 3, cache_read_input_tokens: 7, output_tokens: 2 },
+    });
+
+    expect(response).toMatchObject({
+      status: "incomplete",
+      incomplete_details: { reason: "max_output_tokens" },
+      output: [
+        {
+          type: "reasoning",
+          summary: [{ type: "summary_text", text: "Check" }],
+          encrypted_content: "sig",
+        },
+        {
+          type: "message",
+          role: "assistant",
+          content: [{ type: "output_text", text: "Done" }],
+        },
+      ],
+      usage: {
+        input_tokens: 10,
+        input_tokens_details: { cached_tokens: 7 },
+        output_tokens: 2,
+        total_tokens: 12,
+      },
+    });
+  });
+
+  it("streams reasoning summaries and function calls", () => {
+    const events: ClaudeStreamResponse[] = [
+      {
+        type: "message_start",
+        message: {
+          id: "msg_2",
+          type: "message",
+          role: "assistant",
+          model: "claude-sonnet-4.5",
+          content: [],
+          stop_reason: null,
+          usage: { input_tokens: 20, output_tokens: 0 },
+        },
+      },
+      {
+        type: "content_block_start",
+        index: 0,
+        content_block: { type: "thinking", thinking: "" },
+      },
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "thinking_delta", thinking: "Run ls" },
+      },
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "signature_delta", signature: "sig-2" },
+      },
+      { type: "content_block_stop", index: 0 },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "tool_use", id: "toolu_1", name: "shell" },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '{"command":' },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '["ls"]}' },
+      },
+      { type: "content_block_stop", index: 1 },
+      {
+        type: "message_delta",
+        delta: { stop_reason: "tool_use" },
+        usage: { input_tokens: 20, output_tokens: 9 },
+      },
+      { type: "message_stop" },
+    ];
+
+    const state = createResponsesClientStreamState("claude-sonnet-4-5");
+    const out = events.flatMap((event) =>
+      convertClaudeStreamToResponses(event, state),
+    );
+
+    expect(out.map((event) => event.type)).toEqual([
+      "response.created",
+      "response.in_progress",
+      "response.output_item.added",
+      "response.reasoning_summary_part.added",
+      "response.reasoning_summary_text.delta",
+      "response.reasoning_summary_text.done",
+      "response.reasoning_summary_part.done",
+      "response.output_item.done",
+      "response.output_item.added",
+      "response.function_call_arguments.delta",
+      "response.function_call_arguments.delta",
+      "response.function_call_arguments.done",
+      "response.output_item.done",
+      "response.completed",
+    ]);
+    expect(out.map((event) => event.sequence_number)).toEqual(
+      out.map((_, index) => index),
+    );
+
+    const completed = out.at(-1)!.response!;
+    expect(completed.status).toBe("completed");
+    expect(completed.usage).toMatchObject({
+      input_tokens: 20,
+      output_tokens: 9,
+    });
+    expect(completed.output).toMatchObject([
+      {
+        type: "reasoning",
+        summary: [{ type: "summary_text", text: "Run ls" }],
+        encrypted_content: "sig-2",
+      },
+      {
+        type: "function_call",
+        call_id: "toolu_1",
+        name: "shell",
+        arguments: '{"command":["ls"]}',
+        status: "completed",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,626 @@
+import {
+  ClaudeAnyContentMessage,
+  ClaudeAnyContentRequest,
+  ClaudeContent,
+  ClaudeResponse,
+  ClaudeStreamResponse,
+  ClaudeTool,
+  ClaudeUsage,
+} from "../types/claude";
+import {
+  ResponsesContentPart,
+  ResponsesFunctionTool,
+  ResponsesItem,
+  ResponsesRequest,
+  ResponsesResponse,
+  ResponsesStreamEvent,
+  ResponsesToolChoice,
+  ResponsesUsage,
+} from "../types/responses";
+import {
+  CLAUDE_CONTENT_TYPES,
+  CLAUDE_DELTA_TYPES,
+  CLAUDE_STOP_REASONS,
+  CLAUDE_STREAM_TYPES,
+} from "./constants";
+import { convertOpenAIFileToClaude } from "./document";
+import {
+  appendClaudeTurn,
+  convertReasoningEffortToClaudeThinking,
+  resolveClaudeMaxTokens,
+} from "./request";
+
+/**
+ * Convert a Responses API request from a client (Codex and the like) to a
+ * Claude request, the reverse of `convertClaudeRequestToResponses`.
+ * Reasoning items come back with the thinking signature as their encrypted
+ * content, so thinking survives the round trip.
+ */
+export function convertResponsesRequestToClaude(
+  responsesRequest: ResponsesRequest,
+): ClaudeAnyContentRequest {
+  const system: ClaudeContent[] = [];
+  const messages: ClaudeAnyContentMessage[] = [];
+
+  if (responsesRequest.instructions) {
+    system.push({
+      type: CLAUDE_CONTENT_TYPES.TEXT,
+      text: responsesRequest.instructions,
+    });
+  }
+
+  const input: ResponsesItem[] =
+    typeof responsesRequest.input === "string"
+      ? [{ type: "message", role: "user", content: responsesRequest.input }]
+      : responsesRequest.input;
+
+  for (const raw of input) {
+    // Messages may leave out `type`
+    const item = { type: "message", ...(raw as object) } as ResponsesItem;
+
+    switch (item.type) {
+      case "message": {
+        if (item.role === "system" || item.role === "developer") {
+          const text = extractResponsesText(item.content);
+          if (text) {
+            system.push({ type: CLAUDE_CONTENT_TYPES.TEXT, text });
+          }
+        } else {
+          appendClaudeTurn(
+            messages,
+            item.role,
+            convertResponsesContentToClaude(item.content),
+          );
+        }
+        break;
+      }
+
+      case "function_call": {
+        let input: Record<string, any> = {};
+        try {
+          input = JSON.parse(item.arguments || "{}");
+        } catch (e) {
+          input = {};
+        }
+        appendClaudeTurn(messages, "assistant", [
+          {
+            type: CLAUDE_CONTENT_TYPES.TOOL_USE,
+            id: item.call_id,
+            name: item.name,
+            input,
+          },
+        ]);
+        break;
+      }
+
+      case "function_call_output":
+        appendClaudeTurn(messages, "user", [
+          {
+            type: CLAUDE_CONTENT_TYPES.TOOL_RESULT,
+            tool_use_id: item.call_id,
+            content: item.output,
+          },
+        ]);
+        break;
+
+      case "reasoning":
+        // Unsigned thinking would be rejected, drop reasoning we did not emit
+        if (item.encrypted_content) {
+          appendClaudeTurn(messages, "assistant", [
+            {
+              type: CLAUDE_CONTENT_TYPES.THINKING,
+              thinking: item.summary.map((part) => part.text).join("\n\n"),
+              signature: item.encrypted_content,
+            },
+          ]);
+        }
+        break;
+    }
+  }
+
+  const thinking = convertReasoningEffortToClaudeThinking(
+    responsesRequest.reasoning?.effort,
+  );
+
+  const claudeRequest: ClaudeAnyContentRequest = {
+    model: responsesRequest.model,
+    messages,
+    max_tokens: resolveClaudeMaxTokens(
+      responsesRequest.max_output_tokens,
+      thinking,
+    ),
+    stream: responsesRequest.stream,
+  };
+
+  if (system.length > 0) {
+    claudeRequest.system = system;
+  }
+  if (responsesRequest.temperature !== undefined) {
+    claudeRequest.temperature = responsesRequest.temperature;
+  }
+  if (responsesRequest.top_p !== undefined) {
+    claudeRequest.top_p = responsesRequest.top_p;
+  }
+  const tools = convertResponsesToolsToClaude(responsesRequest.tools || []);
+  if (tools.length > 0) {
+    claudeRequest.tools = tools;
+    if (responsesRequest.tool_choice) {
+      claudeRequest.tool_choice = convertResponsesToolChoiceToClaude(
+        responsesRequest.tool_choice,
+      );
+    }
+  }
+  if (thinking) {
+    claudeRequest.thinking = thinking;
+  }
+
+  return claudeRequest;
+}
+
+function extractResponsesText(
+  content: string | ResponsesContentPart[],
+): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .map((part) =>
+      part.type === "input_text" || part.type === "output_text"
+        ? part.text
+        : "",
+    )
+    .filter(Boolean)
+    .join("\n");
+}
+
+function convertResponsesContentToClaude(
+  content: string | ResponsesContentPart[],
+): ClaudeContent[] {
+  if (typeof content === "string") {
+    return content ? [{ type: CLAUDE_CONTENT_TYPES.TEXT, text: content }] : [];
+  }
+
+  const result: ClaudeContent[] = [];
+  for (const part of content) {
+    switch (part.type) {
+      case "input_text":
+      case "output_text":
+        if (part.text) {
+          result.push({ type: CLAUDE_CONTENT_TYPES.TEXT, text: part.text });
+        }
+        break;
+
+      case "refusal":
+        result.push({ type: CLAUDE_CONTENT_TYPES.TEXT, text: part.refusal });
+        break;
+
+      case "input_image": {
+        const match = part.image_url.match(/^data:([^;]+);base64,(.*)$/);
+        result.push({
+          type: CLAUDE_CONTENT_TYPES.IMAGE,
+          source: match
+            ? { type: "base64", media_type: match[1], data: match[2] }
+            : { type: "url", url: part.image_url },
+        });
+        break;
+      }
+
+      case "input_file": {
+        const document = convertOpenAIFileToClaude(part);
+        if (document) {
+          result.push(document);
+        }
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Only function tools have a Claude equivalent, hosted tools are dropped
+ */
+function convertResponsesToolsToClaude(
+  tools: ResponsesFunctionTool[],
+): ClaudeTool[] {
+  return tools
+    .filter((tool) => tool.type === "function")
+    .map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: (tool.parameters as any) || {
+        type: "object",
+        properties: {},
+      },
+    }));
+}
+
+function convertResponsesToolChoiceToClaude(
+  toolChoice: ResponsesToolChoice,
+): any {
+  if (typeof toolChoice === "object") {
+    return { type: "tool", name: toolChoice.name };
+  }
+
+  switch (toolChoice) {
+    case "required":
+      return { type: "any" };
+    case "none":
+      return { type: "none" };
+    default:
+      return { type: "auto" };
+  }
+}
+
+/**
+ * Output item for a finished Claude content block, or null for blocks the
+ * Responses API has no item for
+ */
+function convertClaudeContentToResponsesItem(
+  block: ClaudeContent,
+  itemId: string,
+): ResponsesItem | null {
+  switch (block.type) {
+    case CLAUDE_CONTENT_TYPES.TEXT:
+      return {
+        type: "message",
+        id: `msg_${itemId}`,
+        role: "assistant",
+        status: "completed",
+        content: [
+          { type: "output_text", text: block.text || "", annotations: [] },
+        ],
+      };
+
+    case CLAUDE_CONTENT_TYPES.THINKING:
+      return {
+        type: "reasoning",
+        id: `rs_${itemId}`,
+        summary: block.thinking
+          ? [{ type: "summary_text", text: block.thinking }]
+          : [],
+        encrypted_content: block.signature || null,
+      };
+
+    case CLAUDE_CONTENT_TYPES.TOOL_USE:
+      return {
+        type: "function_call",
+        id: `fc_${itemId}`,
+        call_id: block.id || "",
+        name: block.name || "",
+        arguments: JSON.stringify(block.input ?? {}),
+        status: "completed",
+      };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Claude reports cached input separately, the Responses API counts it in
+ * input_tokens
+ */
+function convertClaudeUsageToResponses(usage?: ClaudeUsage): ResponsesUsage {
+  const cacheRead = usage?.cache_read_input_tokens || 0;
+  const inputTokens =
+    (usage?.input_tokens || 0) +
+    cacheRead +
+    (usage?.cache_creation_input_tokens || 0);
+  const outputTokens = usage?.output_tokens || 0;
+
+  return {
+    input_tokens: inputTokens,
+    input_tokens_details: { cached_tokens: cacheRead },
+    output_tokens: outputTokens,
+    total_tokens: inputTokens + outputTokens,
+  };
+}
+
+function applyStopReason(
+  response: ResponsesResponse,
+  stopReason: string | null | undefined,
+): void {
+  if (stopReason === CLAUDE_STOP_REASONS.MAX_TOKENS) {
+    response.status = "incomplete";
+    response.incomplete_details = { reason: "max_output_tokens" };
+  } else {
+    response.status = "completed";
+    response.incomplete_details = null;
+  }
+}
+
+/**
+ * Convert a Claude response to a Responses API response for the client
+ */
+export function convertClaudeResponseToResponses(
+  claudeResponse: ClaudeResponse,
+): ResponsesResponse {
+  const response: ResponsesResponse = {
+    id: claudeResponse.id,
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    model: claudeResponse.model,
+    status: "completed",
+    output: [],
+    usage: convertClaudeUsageToResponses(claudeResponse.usage),
+  };
+
+  claudeResponse.content.forEach((block, index) => {
+    const item = convertClaudeContentToResponsesItem(
+      block,
+      `${claudeResponse.id}_${index}`,
+    );
+    if (item) {
+      response.output.push(item);
+    }
+  });
+  applyStopReason(response, claudeResponse.stop_reason);
+
+  return response;
+}
+
+export interface ResponsesClientStreamState {
+  response: ResponsesResponse;
+  sequenceNumber: number;
+  /** Blocks still streaming by Claude content index, with raw tool input */
+  openBlocks: Map<
+    number,
+    { outputIndex: number; block: ClaudeContent; arguments: string }
+  >;
+  stopReason: string | null;
+  usage?: ClaudeUsage;
+}
+
+export function createResponsesClientStreamState(
+  model: string,
+): ResponsesClientStreamState {
+  return {
+    response: {
+      id: `resp_${Date.now()}`,
+      object: "response",
+      created_at: Math.floor(Date.now() / 1000),
+      model,
+      status: "in_progress",
+      output: [],
+    },
+    sequenceNumber: 0,
+    openBlocks: new Map(),
+    stopReason: null,
+  };
+}
+
+/**
+ * Convert a Claude SSE event to Responses API stream events
+ */
+export function convertClaudeStreamToResponses(
+  event: ClaudeStreamResponse,
+  state: ResponsesClientStreamState,
+): ResponsesStreamEvent[] {
+  const events: ResponsesStreamEvent[] = [];
+  const push = (responsesEvent: ResponsesStreamEvent) => {
+    events.push({ ...responsesEvent, sequence_number: state.sequenceNumber++ });
+  };
+  const itemIdOf = (outputIndex: number) =>
+    `${state.response.id}_${outputIndex}`;
+
+  const openBlock = (index: number, block: ClaudeContent) => {
+    const outputIndex = state.response.output.length;
+    const item = convertClaudeContentToResponsesItem(
+      block,
+      itemIdOf(outputIndex),
+    );
+    if (!item) {
+      return;
+    }
+    state.openBlocks.set(index, { outputIndex, block, arguments: "" });
+
+    // Added items start empty and fill in with deltas
+    if (item.type === "message") {
+      item.status = "in_progress";
+      item.content = [];
+    } else if (item.type === "reasoning") {
+      item.summary = [];
+    } else if (item.type === "function_call") {
+      item.status = "in_progress";
+      item.arguments = "";
+    }
+    state.response.output.push(item);
+    push({
+      type: "response.output_item.added",
+      output_index: outputIndex,
+      item: structuredClone(item),
+    });
+
+    if (item.type === "message") {
+      push({
+        type: "response.content_part.added",
+        item_id: item.id,
+        output_index: outputIndex,
+        content_index: 0,
+        part: { type: "output_text", text: "", annotations: [] },
+      });
+    } else if (item.type === "reasoning") {
+      push({
+        type: "response.reasoning_summary_part.added",
+        item_id: item.id,
+        output_index: outputIndex,
+        summary_index: 0,
+        part: { type: "summary_text", text: "" },
+      });
+    }
+  };
+
+  const closeBlock = (index: number) => {
+    const open = state.openBlocks.get(index);
+    if (!open) {
+      return;
+    }
+    state.openBlocks.delete(index);
+
+    const { outputIndex, block } = open;
+    const item = convertClaudeContentToResponsesItem(
+      block,
+      itemIdOf(outputIndex),
+    )!;
+    if (item.type === "function_call") {
+      // Keep the arguments exactly as streamed
+      item.arguments = open.arguments || "{}";
+    }
+    state.response.output[outputIndex] = item;
+
+    if (item.type === "message") {
+      push({
+        type: "response.output_text.done",
+        item_id: item.id,
+        output_index: outputIndex,
+        content_index: 0,
+        text: block.text || "",
+      });
+      push({
+        type: "response.content_part.done",
+        item_id: item.id,
+        output_index: outputIndex,
+        content_index: 0,
+        part: (item.content as ResponsesContentPart[])[0],
+      });
+    } else if (item.type === "reasoning") {
+      push({
+        type: "response.reasoning_summary_text.done",
+        item_id: item.id,
+        output_index: outputIndex,
+        summary_index: 0,
+        text: block.thinking || "",
+      });
+      push({
+        type: "response.reasoning_summary_part.done",
+        item_id: item.id,
+        output_index: outputIndex,
+        summary_index: 0,
+        part: { type: "summary_text", text: block.thinking || "" },
+      });
+    } else if (item.type === "function_call") {
+      push({
+        type: "response.function_call_arguments.done",
+        item_id: item.id,
+        output_index: outputIndex,
+        arguments: item.arguments,
+      });
+    }
+
+    push({
+      type: "response.output_item.done",
+      output_index: outputIndex,
+      item,
+    });
+  };
+
+  switch (event.type) {
+    case CLAUDE_STREAM_TYPES.MESSAGE_START:
+      if (event.message) {
+        state.response.id = event.message.id || state.response.id;
+        state.response.model = event.message.model || state.response.model;
+        state.usage = { ...event.message.usage };
+      }
+      push({
+        type: "response.created",
+        response: structuredClone(state.response),
+      });
+      push({
+        type: "response.in_progress",
+        response: structuredClone(state.response),
+      });
+      break;
+
+    case CLAUDE_STREAM_TYPES.CONTENT_BLOCK_START:
+      if (event.content_block) {
+        openBlock(event.index!, { ...event.content_block });
+      }
+      break;
+
+    case CLAUDE_STREAM_TYPES.CONTENT_BLOCK_DELTA: {
+      const open = state.openBlocks.get(event.index!);
+      const delta = event.delta;
+      if (!open || !delta) {
+        break;
+      }
+      const { outputIndex, block } = open;
+      const itemId = (state.response.output[outputIndex] as { id: string }).id;
+
+      if (delta.type === CLAUDE_DELTA_TYPES.TEXT_DELTA && delta.text) {
+        block.text = (block.text || "") + delta.text;
+        push({
+          type: "response.output_text.delta",
+          item_id: itemId,
+          output_index: outputIndex,
+          content_index: 0,
+          delta: delta.text,
+        });
+      } else if (
+        delta.type === CLAUDE_DELTA_TYPES.THINKING_DELTA &&
+        delta.thinking
+      ) {
+        block.thinking = (block.thinking || "") + delta.thinking;
+        push({
+          type: "response.reasoning_summary_text.delta",
+          item_id: itemId,
+          output_index: outputIndex,
+          summary_index: 0,
+          delta: delta.thinking,
+        });
+      } else if (delta.type === CLAUDE_DELTA_TYPES.SIGNATURE_DELTA) {
+        block.signature = (block.signature || "") + (delta.signature || "");
+      } else if (
+        delta.type === CLAUDE_DELTA_TYPES.INPUT_JSON_DELTA &&
+        delta.partial_json
+      ) {
+        open.arguments += delta.partial_json;
+        push({
+          type: "response.function_call_arguments.delta",
+          item_id: itemId,
+          output_index: outputIndex,
+          delta: delta.partial_json,
+        });
+      }
+      break;
+    }
+
+    case CLAUDE_STREAM_TYPES.CONTENT_BLOCK_STOP:
+      closeBlock(event.index!);
+      break;
+
+    case CLAUDE_STREAM_TYPES.MESSAGE_DELTA:
+      state.stopReason = event.delta?.stop_reason ?? state.stopReason;
+      if (event.usage) {
+        state.usage = { ...state.usage, ...event.usage } as ClaudeUsage;
+      }
+      break;
+
+    case CLAUDE_STREAM_TYPES.MESSAGE_STOP: {
+      for (const index of [...state.openBlocks.keys()]) {
+        closeBlock(index);
+      }
+      applyStopReason(state.response, state.stopReason);
+      state.response.usage = convertClaudeUsageToResponses(state.usage);
+      push({
+        type:
+          state.response.status === "incomplete"
+            ? "response.incomplete"
+            : "response.completed",
+        response: state.response,
+      });
+      break;
+    }
+
+    case CLAUDE_STREAM_TYPES.ERROR:
+      state.response.status = "failed";
+      state.response.error = {
+        code: event.error?.type || "api_error",
+        message: event.error?.message || "Unknown error",
+      };
+      push({ type: "response.failed", response: state.response });
+      break;
+  }
+
+  return events;
+}
@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import { ResponsesResponse, ResponsesStreamEvent } from "../types/responses";
+import { CLAUDE_STOP_REASONS } from "./constants";
+import {
+  convertClaudeRequestToResponses,
+  convertResponsesStreamToClaude,
+  convertResponsesToClaude,
+} from "./responses";
+import { buildFinalStreamEvents, createStreamState } from "./stream";
+
+describe("responses api conversion", () => {
+  it("round trips reasoning through the thinking signature", () => {
+    const response: ResponsesResponse = {
+      id: "resp_1",
+      object: "response",
+      model: "gpt-5",
+      status: "completed",
+      output: [
+        {
+          type: "reasoning",
+          id: "rs_1",
+          summary: [{ type: "summary_text", text: "look it up" }],
+          encrypted_content: "gAAAA-enc",
+        },
+        {
+          type: "function_call",
+          call_id: "call_1",
+          name: "lookup",
+          arguments: '{"q":"foo"}',
+        },
+      ],
+      usage: {
+        input_tokens: 50,
+        input_tokens_details: { cached_tokens: 20 },
+        output_tokens: 8,
+      },
+    };
+
+    const claudeResponse = convertResponsesToClaude(response);
+
+    expect(claudeResponse.stop_reason).toBe(CLAUDE_STOP_REASONS.TOOL_USE);
+    expect(claudeResponse.usage).toMatchObject({
+      input_tokens: 30,
+      output_tokens: 8,
+      cache_read_input_tokens: 20,
+    });
+    expect(claudeResponse.content).toEqual([
+      {
+        type: "thinking",
+        thinking: "look it up",
+        signature: "rs_1:gAAAA-enc",
+      },
+      {
+        type: "tool_use",
+        id: "call_1",
+        name: "lookup",
+        input: { q: "foo" },
+      },
+    ]);
+
+    const request = convertClaudeRequestToResponses({
+      model: "gpt-5",
+      max_tokens: 100,
+      thinking: { type: "enabled", budget_tokens: 10000 },
+      system: [{ type: "text", text: "be brief" }],
+      messages: [
+        { role: "user", content: "find foo" },
+        { role: "assistant", content: claudeResponse.content },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "call_1", content: "bar" },
+          ],
+        },
+      ],
+    });
+
+    expect(request).toMatchObject({
+      model: "gpt-5",
+      instructions: "be brief",
+      max_output_tokens: 100,
+      store: false,
+      include: ["reasoning.encrypted_content"],
+      reasoning: { effort: "medium", summary: "auto" },
+    });
+    expect(request.input).toEqual([
+      {
+        type: "message",
+        role: "user",
+        content: [{ type: "input_text", text: "find foo" }],
+      },
+      {
+        type: "reasoning",
+        id: "rs_1",
+        encrypted_content: "gAAAA-enc",
+        summary: [{ type: "summary_text", text: "look it up" }],
+      },
+      {
+        type: "function_call",
+        call_id: "call_1",
+        name: "lookup",
+        arguments: '{"q":"foo"}',
+      },
+      { type: "function_call_output", call_id: "call_1", output: "bar" },
+    ]);
+  });
+
+  it("leaves reasoning fields off for non reasoning models", () => {
+    const request = convertClaudeRequestToResponses({
+      model: "gpt-4.1",
+      thinking: { type: "enabled", budget_tokens: 10000 },
+      messages: [{ role: "user", content: "hi" }],
+    });
+    expect(request.include).toBeUndefined();
+    expect(request.reasoning).toBeUndefined();
+  });
+
+  it("takes a plain string system prompt", () => {
+    const request = convertClaudeRequestToResponses({
+      model: "gpt-5",
+      system: "Be brief." as any,
+      messages: [{ role: "user", content: "hi" }],
+    });
+    expect(request.instructions).toBe("Be brief.");
+  });
+
+  it("converts Responses SSE events into Claude stream events", () => {
+    const state = createStreamState();
+    const sseEvents: ResponsesStreamEvent[] = [
+      {
+        type: "response.created",
+        response: {
+          id: "resp_2",
+          object: "response",
+          model: "gpt-5",
+          status: "in_progress",
+          output: [],
+        },
+      },
+      {
+        type: "response.output_item.added",
+        output_index: 0,
+        item: { type: "reasoning", id: "rs_2", summary: [] },
+      },
+      { type: "response.reasoning_summary_text.delta", delta: "plan" },
+      {
+        type: "response.output_item.done",
+        output_index: 0,
+        item: {
+          type: "reasoning",
+          id: "rs_2",
+          summary: [{ type: "summary_text", text: "plan" }],
+          encrypted_content: "enc",
+        },
+      },
+      {
+        type: "response.output_item.added",
+        output_index: 1,
+        item: { type: "message", role: "assistant", content: [] },
+      },
+      { type: "response.output_text.delta", delta: "hi" },
+      {
+        type: "response.output_item.added",
+        output_index: 2,
+        item: {
+          type: "function_call",
+          call_id: "call_2",
+          name: "lookup",
+          arguments: "",
+        },
+      },
+      { type: "response.function_call_arguments.delta", delta: '{"q":' },
+      { type: "response.function_call_arguments.delta", delta: '"x"}' },
+      {
+        type: "response.completed",
+        response: {
+          id: "resp_2",
+          object: "response",
+          model: "gpt-5",
+          status: "completed",
+          output: [],
+          usage: { input_tokens: 10, output_tokens: 5 },
+        },
+      },
+    ];
+
+    const events = sseEvents.flatMap((event) =>
+      convertResponsesStreamToClaude(event, state),
+    );
+    events.push(...buildFinalStreamEvents(state, state.usage));
+
+    expect(events[0].message?.model).toBe("gpt-5");
+    expect(
+      events.find((e) => e.delta?.type === "signature_delta")?.delta?.signature,
+    ).toBe("rs_2:enc");
+    expect(
+      events.find((e) => e.delta?.type === "text_delta")?.delta?.text,
+    ).toBe("hi");
+    expect(
+      events
+        .filter((e) => e.delta?.type === "input_json_delta")
+        .map((e) => e.delta?.partial_json)
+        .join(""),
+    ).toBe('{"q":"x"}');
+    expect(events.filter((e) => e.type === "content_block_start")).toHaveLength(
+      3,
+    );
+    expect(events.filter((e) => e.type === "content_block_stop")).toHaveLength(
+      3,
+    );
+
+    const messageDelta = events.find((e) => e.type === "message_delta");
+    expect(messageDelta?.delta?.stop_reason).toBe(CLAUDE_STOP_REASONS.TOOL_USE);
+    expect(messageDelta?.usage?.output_tokens).toBe(5);
+  });
+});
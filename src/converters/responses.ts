@@ -0,0 +1,630 @@
+import {
+  ClaudeAnyContentMessage,
+  ClaudeAnyContentRequest,
+  ClaudeContent,
+  ClaudeResponse,
+  ClaudeStreamResponse,
+  ClaudeTool,
+  ClaudeUsage,
+} from "../types/claude";
+import { StreamConversionState } from "../types/conversion";
+import {
+  ResponsesContentPart,
+  ResponsesFunctionTool,
+  ResponsesItem,
+  ResponsesReasoningItem,
+  ResponsesRequest,
+  ResponsesResponse,
+  ResponsesStreamEvent,
+  ResponsesToolChoice,
+  ResponsesUsage,
+} from "../types/responses";
+import { getPromptCacheKey } from "./cache";
+import { documentFilename, documentText } from "./document";
+import {
+  CLAUDE_CONTENT_TYPES,
+  CLAUDE_DELTA_TYPES,
+  CLAUDE_STOP_REASONS,
+  CLAUDE_STREAM_TYPES,
+  OPENAI_FINISH_REASONS,
+  REASONING_EFFORT_MODELS,
+} from "./constants";
+import {
+  claudeSystemBlocks,
+  convertClaudeThinkingToReasoningEffort,
+} from "./request";
+import { convertFinishReasonToClaude } from "./response";
+import { sanitizeToolSchema, SchemaProfile } from "./schema";
+import { flushHeldToolInput } from "./stream";
+
+/**
+ * Convert Claude request to an OpenAI Responses API request.
+ * Requests are stateless (`store: false`), so reasoning is carried across
+ * turns as encrypted content inside the thinking block signature.
+ */
+export function convertClaudeRequestToResponses(
+  claudeRequest: ClaudeAnyContentRequest,
+  schemaProfile: SchemaProfile = "openai",
+): ResponsesRequest {
+  const responsesRequest: ResponsesRequest = {
+    model: claudeRequest.model,
+    input: convertClaudeMessagesToResponses(claudeRequest.messages),
+    stream: claudeRequest.stream,
+    store: false,
+  };
+
+  if (claudeRequest.system && claudeRequest.system.length > 0) {
+    const instructions = claudeSystemBlocks(claudeRequest.system)
+      .filter((item) => item.type === "text" && item.text)
+      .map((item) => item.text)
+      .join("\n\n");
+    if (instructions) {
+      responsesRequest.instructions = instructions;
+    }
+  }
+
+  const maxTokens =
+    claudeRequest.max_completion_tokens ?? claudeRequest.max_tokens;
+  if (maxTokens !== undefined) {
+    responsesRequest.max_output_tokens = maxTokens;
+  }
+  if (claudeRequest.temperature !== undefined) {
+    responsesRequest.temperature = claudeRequest.temperature;
+  }
+  if (claudeRequest.top_p !== undefined) {
+    responsesRequest.top_p = claudeRequest.top_p;
+  }
+
+  if (claudeRequest.tools && claudeRequest.tools.length > 0) {
+    responsesRequest.tools = convertClaudeToolsToResponses(
+      claudeRequest.tools,
+      schemaProfile,
+    );
+    responsesRequest.tool_choice = convertClaudeToolChoiceToResponses(
+      claudeRequest.tool_choice,
+    );
+  }
+
+  // Non reasoning models such as gpt-4.1 reject both fields
+  if (REASONING_EFFORT_MODELS.test(claudeRequest.model)) {
+    responsesRequest.include = ["reasoning.encrypted_content"];
+    const effort = convertClaudeThinkingToReasoningEffort(
+      claudeRequest.thinking,
+    );
+    if (effort) {
+      responsesRequest.reasoning = { effort, summary: "auto" };
+    }
+  }
+
+  const promptCacheKey = getPromptCacheKey(claudeRequest);
+  if (promptCacheKey) {
+    responsesRequest.prompt_cache_key = promptCacheKey;
+  }
+
+  return responsesRequest;
+}
+
+function convertClaudeMessagesToResponses(
+  messages: ClaudeAnyContentMessage[],
+): ResponsesItem[] {
+  const items: ResponsesItem[] = [];
+
+  for (const msg of messages) {
+    if (typeof msg.content === "string") {
+      items.push(
+        msg.role === "assistant"
+          ? {
+              type: "message",
+              role: "assistant",
+              content: [{ type: "output_text", text: msg.content }],
+            }
+          : {
+              type: "message",
+              role: "user",
+              content: [{ type: "input_text", text: msg.content }],
+            },
+      );
+    } else if (Array.isArray(msg.content)) {
+      items.push(
+        ...(msg.role === "assistant"
+          ? convertClaudeAssistantContent(msg.content)
+          : convertClaudeUserContent(msg.content)),
+      );
+    }
+  }
+
+  return items;
+}
+
+function convertClaudeUserContent(contents: ClaudeContent[]): ResponsesItem[] {
+  // Function call outputs must directly follow the calls they answer
+  const outputs: ResponsesItem[] = [];
+  const parts: ResponsesContentPart[] = [];
+
+  for (const content of contents) {
+    switch (content.type) {
+      case CLAUDE_CONTENT_TYPES.TEXT:
+        if (content.text) {
+          parts.push({ type: "input_text", text: content.text });
+        }
+        break;
+
+      case CLAUDE_CONTENT_TYPES.IMAGE:
+        if (content.source?.type === "base64" && content.source.data) {
+          parts.push({
+            type: "input_image",
+            image_url: `data:${content.source.media_type || "image/jpeg"};base64,${content.source.data}`,
+          });
+        } else if (content.source?.url) {
+          parts.push({ type: "input_image", image_url: content.source.url });
+        }
+        break;
+
+      case CLAUDE_CONTENT_TYPES.DOCUMENT:
+        if (content.source?.type === "text") {
+          parts.push({ type: "input_text", text: documentText(content) });
+        } else if (content.source?.type === "base64" && content.source.data) {
+          parts.push({
+            type: "input_file",
+            filename: documentFilename(content),
+            file_data: `data:${content.source.media_type || "application/pdf"};base64,${content.source.data}`,
+          });
+        } else if (content.source?.type === "url" && content.source.url) {
+          parts.push({
+            type: "input_file",
+            filename: documentFilename(content),
+            file_url: content.source.url,
+          });
+        }
+        break;
+
+      case CLAUDE_CONTENT_TYPES.TOOL_RESULT:
+        outputs.push({
+          type: "function_call_output",
+          call_id: content.tool_use_id || "",
+          output: extractToolResultText(content.content),
+        });
+        break;
+    }
+  }
+
+  if (parts.length > 0) {
+    outputs.push({ type: "message", role: "user", content: parts });
+  }
+  return outputs;
+}
+
+function convertClaudeAssistantContent(
+  contents: ClaudeContent[],
+): ResponsesItem[] {
+  const items: ResponsesItem[] = [];
+
+  for (const content of contents) {
+    switch (content.type) {
+      case CLAUDE_CONTENT_TYPES.THINKING: {
+        const reasoning = decodeReasoningSignature(content.signature);
+        if (reasoning) {
+          items.push({
+            ...reasoning,
+            summary: content.thinking
+              ? [{ type: "summary_text", text: content.thinking }]
+              : [],
+          });
+        }
+        break;
+      }
+
+      case CLAUDE_CONTENT_TYPES.TEXT:
+        if (content.text) {
+          items.push({
+            type: "message",
+            role: "assistant",
+            content: [{ type: "output_text", text: content.text }],
+          });
+        }
+        break;
+
+      case CLAUDE_CONTENT_TYPES.TOOL_USE:
+        if (content.id && content.name) {
+          items.push({
+            type: "function_call",
+            call_id: content.id,
+            name: content.name,
+            arguments:
+              typeof content.input === "string"
+                ? content.input
+                : JSON.stringify(content.input || {}),
+          });
+        }
+        break;
+    }
+  }
+
+  return items;
+}
+
+function extractToolResultText(content: any): string {
+  if (content == null) return "";
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((item) =>
+        typeof item === "string"
+          ? item
+          : item?.type === CLAUDE_CONTENT_TYPES.TEXT
+            ? item.text || ""
+            : "",
+      )
+      .filter(Boolean)
+      .join("\n");
+  }
+  return JSON.stringify(content);
+}
+
+function convertClaudeToolsToResponses(
+  claudeTools: ClaudeTool[],
+  schemaProfile: SchemaProfile,
+): ResponsesFunctionTool[] {
+  return claudeTools.map((tool) => ({
+    type: "function",
+    name: tool.name,
+    description: tool.description || "",
+    parameters: sanitizeToolSchema(tool.input_schema, schemaProfile),
+    // Responses API tools default to strict, which most schemas do not satisfy
+    strict: schemaProfile === "openai-strict",
+  }));
+}
+
+function convertClaudeToolChoiceToResponses(
+  toolChoice: any,
+): ResponsesToolChoice {
+  const type = typeof toolChoice === "string" ? toolChoice : toolChoice?.type;
+
+  switch (type) {
+    case "any":
+      return "required";
+    case "none":
+      return "none";
+    case "tool":
+      return { type: "function", name: toolChoice.name };
+    default:
+      return "auto";
+  }
+}
+
+/**
+ * Reasoning items need both their id and encrypted content to be replayed,
+ * so the thinking signature carries `<id>:<encrypted_content>`
+ */
+export function encodeReasoningSignature(
+  item: ResponsesReasoningItem,
+): string | undefined {
+  if (!item.encrypted_content) {
+    return undefined;
+  }
+  return `${item.id}:${item.encrypted_content}`;
+}
+
+function decodeReasoningSignature(
+  signature?: string,
+): Omit<ResponsesReasoningItem, "summary"> | null {
+  if (!signature || !signature.startsWith("rs_")) {
+    return null;
+  }
+
+  const separator = signature.indexOf(":");
+  if (separator === -1) {
+    return null;
+  }
+
+  return {
+    type: "reasoning",
+    id: signature.substring(0, separator),
+    encrypted_content: signature.substring(separator + 1),
+  };
+}
+
+/**
+ * Convert Responses API non-streaming response to Claude response
+ */
+export function convertResponsesToClaude(
+  response: ResponsesResponse,
+): ClaudeResponse {
+  const claudeResponse: ClaudeResponse = {
+    id: response.id || `msg_${Date.now()}`,
+    type: "message",
+    role: "assistant",
+    model: response.model,
+    content: [],
+    stop_reason: CLAUDE_STOP_REASONS.END_TURN,
+    stop_sequence: null,
+    usage: convertResponsesUsageToClaude(response.usage),
+  };
+
+  let hasToolCalls = false;
+
+  for (const item of response.output || []) {
+    switch (item.type) {
+      case "reasoning": {
+        const thinking = item.summary.map((part) => part.text).join("\n\n");
+        const signature = encodeReasoningSignature(item);
+        if (thinking || signature) {
+          claudeResponse.content.push({
+            type: CLAUDE_CONTENT_TYPES.THINKING,
+            thinking,
+            signature,
+          });
+        }
+        break;
+      }
+
+      case "message":
+        if (typeof item.content === "string") {
+          claudeResponse.content.push({
+            type: CLAUDE_CONTENT_TYPES.TEXT,
+            text: item.content,
+          });
+          break;
+        }
+        for (const part of item.content) {
+          if (part.type === "output_text" && part.text) {
+            claudeResponse.content.push({
+              type: CLAUDE_CONTENT_TYPES.TEXT,
+              text: part.text,
+            });
+          } else if (part.type === "refusal") {
+            claudeResponse.content.push({
+              type: CLAUDE_CONTENT_TYPES.TEXT,
+              text: part.refusal,
+            });
+          }
+        }
+        break;
+
+      case "function_call": {
+        hasToolCalls = true;
+        let input: Record<string, any> = {};
+        try {
+          input = item.arguments ? JSON.parse(item.arguments) : {};
+        } catch (e) {
+          input = {};
+        }
+        claudeResponse.content.push({
+          type: CLAUDE_CONTENT_TYPES.TOOL_USE,
+          id: item.call_id,
+          name: item.name,
+          input,
+        });
+        break;
+      }
+    }
+  }
+
+  claudeResponse.stop_reason = convertFinishReasonToClaude(
+    convertResponsesStatusToFinishReason(response, hasToolCalls),
+  );
+
+  if (claudeResponse.content.length === 0) {
+    claudeResponse.content.push({
+      type: CLAUDE_CONTENT_TYPES.TEXT,
+      text: "",
+    });
+  }
+
+  return claudeResponse;
+}
+
+/**
+ * Convert a Responses API SSE event to Claude streaming responses
+ */
+export function convertResponsesStreamToClaude(
+  event: ResponsesStreamEvent,
+  state: StreamConversionState,
+): ClaudeStreamResponse[] {
+  const events: ClaudeStreamResponse[] = [];
+
+  const startBlock = (contentBlock: ClaudeContent) => {
+    events.push(...flushHeldToolInput(state));
+    if (state.currentContentIndex >= 0) {
+      events.push({
+        type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_STOP,
+        index: state.currentContentIndex,
+      });
+    }
+    state.currentContentIndex++;
+    state.currentContentType = contentBlock.type;
+    events.push({
+      type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_START,
+      index: state.currentContentIndex,
+      content_block: contentBlock,
+    });
+  };
+
+  const pushDelta = (delta: ClaudeStreamResponse["delta"]) => {
+    events.push({
+      type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_DELTA,
+      index: state.currentContentIndex,
+      delta,
+    });
+  };
+
+  switch (event.type) {
+    case "response.created":
+      if (!state.sentMessageStart && event.response) {
+        state.sentMessageStart = true;
+        state.messageId = event.response.id || `msg_${Date.now()}`;
+        events.push({
+          type: CLAUDE_STREAM_TYPES.MESSAGE_START,
+          message: {
+            id: state.messageId,
+            type: "message",
+            role: "assistant",
+            model: event.response.model,
+            content: [],
+            usage: { input_tokens: 0, output_tokens: 0 },
+            stop_reason: null,
+            stop_sequence: null,
+          },
+        });
+        events.push({ type: CLAUDE_STREAM_TYPES.PING });
+      }
+      break;
+
+    case "response.output_item.added":
+      if (event.item?.type === "reasoning") {
+        startBlock({ type: CLAUDE_CONTENT_TYPES.THINKING, thinking: "" });
+        state.thinkingTexts[state.currentContentIndex] = "";
+      } else if (event.item?.type === "message") {
+        startBlock({ type: CLAUDE_CONTENT_TYPES.TEXT, text: "" });
+        state.contentTexts[state.currentContentIndex] = "";
+      } else if (event.item?.type === "function_call") {
+        state.toolCalls.push({
+          index: event.output_index ?? state.toolCalls.length,
+          id: event.item.call_id,
+          name: event.item.name,
+          input: "",
+        });
+        startBlock({
+          type: CLAUDE_CONTENT_TYPES.TOOL_USE,
+          id: event.item.call_id,
+          name: event.item.name,
+          input: {},
+        });
+        if (state.strictToolSchemas?.[event.item.name]) {
+          state.heldToolCall = state.toolCalls.length - 1;
+        }
+      }
+      break;
+
+    case "response.reasoning_summary_part.added":
+      // Separate consecutive summary parts like the non-stream join does
+      if (
+        event.summary_index &&
+        state.currentContentType === CLAUDE_CONTENT_TYPES.THINKING
+      ) {
+        state.thinkingTexts[state.currentContentIndex] += "\n\n";
+        pushDelta({
+          type: CLAUDE_DELTA_TYPES.THINKING_DELTA,
+          thinking: "\n\n",
+        });
+      }
+      break;
+
+    case "response.reasoning_summary_text.delta":
+      if (
+        event.delta &&
+        state.currentContentType === CLAUDE_CONTENT_TYPES.THINKING
+      ) {
+        state.thinkingTexts[state.currentContentIndex] += event.delta;
+        pushDelta({
+          type: CLAUDE_DELTA_TYPES.THINKING_DELTA,
+          thinking: event.delta,
+        });
+      }
+      break;
+
+    case "response.output_text.delta":
+    case "response.refusal.delta":
+      if (
+        event.delta &&
+        state.currentContentType === CLAUDE_CONTENT_TYPES.TEXT
+      ) {
+        state.contentTexts[state.currentContentIndex] += event.delta;
+        pushDelta({ type: CLAUDE_DELTA_TYPES.TEXT_DELTA, text: event.delta });
+      }
+      break;
+
+    case "response.function_call_arguments.delta":
+      if (
+        event.delta &&
+        state.currentContentType === CLAUDE_CONTENT_TYPES.TOOL_USE
+      ) {
+        state.toolCalls[state.toolCalls.length - 1].input += event.delta;
+        if (state.heldToolCall !== undefined) break;
+        pushDelta({
+          type: CLAUDE_DELTA_TYPES.INPUT_JSON_DELTA,
+          partial_json: event.delta,
+        });
+      }
+      break;
+
+    case "response.output_item.done":
+      if (
+        event.item?.type === "reasoning" &&
+        state.currentContentType === CLAUDE_CONTENT_TYPES.THINKING
+      ) {
+        const signature = encodeReasoningSignature(event.item);
+        if (signature) {
+          pushDelta({ type: CLAUDE_DELTA_TYPES.SIGNATURE_DELTA, signature });
+        }
+      }
+      break;
+
+    case "response.completed":
+    case "response.incomplete":
+      if (event.response) {
+        state.usage = convertResponsesUsageToClaude(event.response.usage);
+        state.finishReason = convertResponsesStatusToFinishReason(
+          event.response,
+          state.toolCalls.length > 0,
+        );
+      }
+      break;
+
+    case "response.failed":
+    case "error":
+      state.errored = true;
+      events.push({
+        type: CLAUDE_STREAM_TYPES.ERROR,
+        error: {
+          type: "api_error",
+          message:
+            event.response?.error?.message ||
+            event.message ||
+            "Upstream response failed",
+        },
+      });
+      break;
+  }
+
+  return events;
+}
+
+/**
+ * Convert Responses API usage to Claude usage
+ */
+export function convertResponsesUsageToClaude(
+  usage?: ResponsesUsage,
+): ClaudeUsage {
+  if (!usage) {
+    return {
+      input_tokens: 0,
+      output_tokens: 0,
+    };
+  }
+
+  const cached = usage.input_tokens_details?.cached_tokens || 0;
+  return {
+    input_tokens: (usage.input_tokens || 0) - cached,
+    output_tokens: usage.output_tokens || 0,
+    cache_read_input_tokens: cached,
+    cache_creation_input_tokens: 0,
+  };
+}
+
+function convertResponsesStatusToFinishReason(
+  response: ResponsesResponse,
+  hasToolCalls: boolean,
+): string {
+  if (hasToolCalls) {
+    return OPENAI_FINISH_REASONS.TOOL_CALLS;
+  }
+
+  if (response.status === "incomplete") {
+    return response.incomplete_details?.reason === "content_filter"
+      ? OPENAI_FINISH_REASONS.CONTENT_FILTER
+      : OPENAI_FINISH_REASONS.LENGTH;
+  }
+
+  return OPENAI_FINISH_REASONS.STOP;
+}
@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import { convertClaudeRequestToGemini } from "./gemini";
+import { sanitizeToolSchema } from "./schema";
+
+// Tool schemas as sent by Claude Code
+const bashSchema = {
+  type: "object",
+  properties: {
+    command: { type: "string", description: "The command to execute" },
+    timeout: {
+      type: "number",
+      description: "Optional timeout in milliseconds (max 600000)",
+    },
+    description: {
+      type: "string",
+      description: "Clear, concise description of what this command does",
+    },
+    run_in_background: {
+      type: "boolean",
+      description: "Set to true to run this command in the background.",
+    },
+  },
+  required: ["command"],
+  additionalProperties: false,
+  $schema: "http://json-schema.org/draft-07/schema#",
+};
+
+const todoWriteSchema = {
+  type: "object",
+  properties: {
+    todos: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          content: { type: "string", minLength: 1 },
+          status: {
+            type: "string",
+            enum: ["pending", "in_progress", "completed"],
+          },
+          activeForm: { type: "string", minLength: 1 },
+        },
+        required: ["content", "status", "activeForm"],
+        additionalProperties: false,
+      },
+      description: "The updated todo list",
+    },
+  },
+  required: ["todos"],
+  additionalProperties: false,
+  $schema: "http://json-schema.org/draft-07/schema#",
+};
+
+const webFetchSchema = {
+  type: "object",
+  properties: {
+    url: {
+      type: "string",
+      format: "uri",
+      description: "The URL to fetch content from",
+    },
+    prompt: {
+      type: "string",
+      description: "The prompt to run on the fetched content",
+    },
+  },
+  required: ["url", "prompt"],
+  additionalProperties: false,
+  $schema: "http://json-schema.org/draft-07/schema#",
+};
+
+// MCP server tool generated by pydantic, with `$defs` and nullable fields
+const mcpSchema = {
+  $defs: {
+    Filter: {
+      properties: {
+        field: { title: "Field", type: "string" },
+        op: { const: "eq", title: "Op", type: "string" },
+        value: {
+          anyOf: [{ type: "string" }, { type: "null" }],
+          default: null,
+          title: "Value",
+        },
+      },
+      required: ["field", "op"],
+      title: "Filter",
+      type: "object",
+    },
+  },
+  properties: {
+    filters: {
+      items: { $ref: "#/$defs/Filter" },
+      title: "Filters",
+      type: "array",
+    },
+    primary: { $ref: "#/properties/filters/items" },
+    limit: { default: 10, title: "Limit", type: "integer" },
+  },
+  required: ["filters"],
+  title: "searchArguments",
+  type: "object",
+};
+
+describe("tool schema sanitisation", () => {
+  it("keeps OpenAI schemas intact apart from meta keywords", () => {
+    const result = sanitizeToolSchema(todoWriteSchema, "openai");
+
+    expect(result).not.toHaveProperty("$schema");
+    expect(result.additionalProperties).toBe(false);
+    expect(result.properties.todos.items.properties.status.enum).toEqual([
+      "pending",
+      "in_progress",
+      "completed",
+    ]);
+    expect(result.properties.todos.items.properties.content.minLength).toBe(1);
+  });
+
+  it("inlines $defs and relative $refs", () => {
+    const result = sanitizeToolSchema(mcpSchema, "openai");
+
+    expect(result).not.toHaveProperty("$defs");
+    expect(result.properties.filters.items.properties.field).toEqual({
+      title: "Field",
+      type: "string",
+    });
+    expect(result.properties.primary).toEqual(result.properties.filters.items);
+    expect(JSON.stringify(result)).not.toContain("$ref");
+  });
+
+  it("cuts off recursive references", () => {
+    const result = sanitizeToolSchema(
+      {
+        type: "object",
+        properties: {
+          node: { $ref: "#/$defs/Node" },
+        },
+        $defs: {
+          Node: {
+            type: "object",
+            properties: { children: { type: "array", items: { $ref: "#" } } },
+          },
+        },
+      },
+      "gemini",
+    );
+
+    expect(JSON.stringify(result)).not.toContain("$ref");
+    expect(result.properties.node.type).toBe("object");
+  });
+
+  it("reduces schemas to the Gemini subset", () => {
+    const bash = sanitizeToolSchema(bashSchema, "gemini");
+    expect(bash).toEqual({
+      type: "object",
+      properties: bashSchema.properties,
+      required: ["command"],
+    });
+
+    expect(sanitizeToolSchema(webFetchSchema, "gemini").properties.url).toEqual(
+      {
+        type: "string",
+        description: "The URL to fetch content from",
+      },
+    );
+
+    const mcp = sanitizeToolSchema(mcpSchema, "gemini");
+    const filter = mcp.properties.filters.items;
+    expect(filter.properties.op).toEqual({
+      type: "string",
+      title: "Op",
+      enum: ["eq"],
+    });
+    expect(filter.properties.value).toEqual({
+      type: "string",
+      title: "Value",
+      nullable: true,
+      default: null,
+    });
+    expect(filter.required).toEqual(["field", "op"]);
+    expect(mcp.properties.limit).toEqual({
+      type: "integer",
+      title: "Limit",
+      default: 10,
+    });
+  });
+
+  it("leaves out empty properties for Gemini", () => {
+    const empty = { type: "object", properties: {} };
+    expect(sanitizeToolSchema(empty, "gemini")).toEqual({ type: "object" });
+    expect(sanitizeToolSchema({}, "gemini")).toEqual({ type: "object" });
+    expect(sanitizeToolSchema(empty, "openai")).toEqual(empty);
+
+    const request = convertClaudeRequestToGemini({
+      model: "gemini-2.5-pro",
+      messages: [{ role: "user", content: "hi" }],
+      tools: [{ name: "get_time", description: "Now", input_schema: empty }],
+    });
+    expect(request.tools?.[0].functionDeclarations).toEqual([
+      { name: "get_time", description: "Now" },
+    ]);
+  });
+
+  it("closes objects and requires every property in strict mode", () => {
+    const bash = sanitizeToolSchema(bashSchema, "openai-strict");
+    expect(bash.additionalProperties).toBe(false);
+    expect(bash.required).toEqual([
+      "command",
+      "timeout",
+      "description",
+      "run_in_background",
+    ]);
+    expect(bash.properties.command.type).toBe("string");
+    expect(bash.properties.timeout.type).toEqual(["number", "null"]);
+
+    const todo = sanitizeToolSchema(todoWriteSchema, "openai-strict");
+    expect(todo.properties.todos.items).toEqual({
+      type: "object",
+      properties: {
+        content: { type: "string" },
+        status: {
+          type: "string",
+          enum: ["pending", "in_progress", "completed"],
+        },
+        activeForm: { type: "string" },
+      },
+      required: ["content", "status", "activeForm"],
+      additionalProperties: false,
+    });
+
+    const mcp = sanitizeToolSchema(mcpSchema, "openai-strict");
+    const value = mcp.properties.filters.items.properties.value;
+    expect(value).toEqual({ anyOf: [{ type: "string" }, { type: "null" }] });
+    expect(mcp.properties.primary.additionalProperties).toBe(false);
+  });
+});
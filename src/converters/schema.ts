@@ -0,0 +1,403 @@
+import { ClaudeInputSchema } from "../types/claude";
+
+/**
+ * Which JSON Schema dialect the upstream accepts for tool parameters:
+ * - `openai`: full JSON Schema, only meta keywords and `$ref`s are resolved
+ * - `openai-strict`: structured outputs subset, every object closed and every
+ *   property required (optional ones become nullable)
+ * - `gemini`: the OpenAPI 3.0 subset Gemini function declarations accept
+ */
+export type SchemaProfile = "openai" | "openai-strict" | "gemini";
+
+type Schema = Record<string, any>;
+
+const OPENAI_STRICT_KEYWORDS = new Set([
+  "type",
+  "description",
+  "properties",
+  "required",
+  "additionalProperties",
+  "items",
+  "enum",
+  "const",
+  "anyOf",
+  "pattern",
+  "format",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
+  "minItems",
+  "maxItems",
+]);
+
+const GEMINI_KEYWORDS = new Set([
+  "type",
+  "format",
+  "title",
+  "description",
+  "nullable",
+  "enum",
+  "items",
+  "properties",
+  "required",
+  "minItems",
+  "maxItems",
+  "minProperties",
+  "maxProperties",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minimum",
+  "maximum",
+  "anyOf",
+  "default",
+]);
+
+/**
+ * String formats Gemini accepts, anything else is dropped
+ */
+const GEMINI_STRING_FORMATS = new Set(["enum", "date-time"]);
+
+/**
+ * Keywords holding a single sub-schema, or a map of them
+ */
+const SCHEMA_KEYWORDS = ["items", "additionalProperties", "not"];
+const SCHEMA_MAP_KEYWORDS = ["properties", "patternProperties"];
+const SCHEMA_LIST_KEYWORDS = ["anyOf", "oneOf", "allOf"];
+
+/**
+ * Meta keywords that never describe the value itself
+ */
+const META_KEYWORDS = new Set([
+  "$schema",
+  "$id",
+  "$comment",
+  "$defs",
+  "definitions",
+]);
+
+/**
+ * A `$ref` nested this deep is treated as recursive and cut off
+ */
+const MAX_REF_DEPTH = 8;
+
+/**
+ * Normalise a Claude tool `input_schema` into what the upstream accepts as
+ * function parameters
+ */
+export function sanitizeToolSchema(
+  inputSchema: ClaudeInputSchema | Schema | undefined,
+  profile: SchemaProfile,
+): Schema {
+  const root: Schema = inputSchema || {};
+  const inlined = inlineRefs(root, root, 0);
+
+  let schema: Schema;
+  switch (profile) {
+    case "gemini":
+      schema = toGemini(inlined);
+      break;
+    case "openai-strict":
+      schema = toOpenAIStrict(inlined);
+      break;
+    default:
+      schema = stripMeta(inlined);
+  }
+
+  // Function parameters must always be an object schema
+  if (schema.type !== "object") {
+    schema = { ...schema, type: "object" };
+  }
+  // Gemini rejects an empty properties map, a bare object stands for no
+  // parameters there
+  if (!schema.properties && profile !== "gemini") {
+    schema.properties = {};
+  }
+  if (profile === "openai-strict") {
+    schema.additionalProperties = false;
+    schema.required = schema.required || [];
+  }
+  return schema;
+}
+
+/**
+ * Strict mode lists optional properties as required and nullable, so strict
+ * upstreams send `null` for arguments the model left out. Drop those nulls
+ * where the original schema did not require the property.
+ */
+export function dropOmittedArguments(
+  inputSchema: ClaudeInputSchema | Schema | undefined,
+  input: any,
+): any {
+  const root: Schema = inputSchema || {};
+  return dropNulls(inlineRefs(root, root, 0), input);
+}
+
+function dropNulls(schema: Schema | undefined, value: any): any {
+  if (Array.isArray(value)) {
+    return schema?.items
+      ? value.map((item) => dropNulls(schema.items, item))
+      : value;
+  }
+  if (!value || typeof value !== "object" || !schema?.properties) {
+    return value;
+  }
+
+  const required = new Set<string>(schema.required || []);
+  const result: Record<string, any> = {};
+  for (const [name, item] of Object.entries(value)) {
+    if (item === null && !required.has(name)) continue;
+    result[name] = dropNulls(schema.properties[name], item);
+  }
+  return result;
+}
+
+/**
+ * Resolve a local JSON pointer such as `#/$defs/Foo` or
+ * `#/properties/edits/items`
+ */
+function resolvePointer(root: Schema, ref: string): Schema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+
+  let node: any = root;
+  for (const raw of ref.slice(1).split("/").filter(Boolean)) {
+    const segment = decodeURIComponent(raw)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    node = node?.[segment];
+  }
+  return node && typeof node === "object" ? node : undefined;
+}
+
+function inlineRefs(node: any, root: Schema, depth: number): any {
+  if (Array.isArray(node)) {
+    return node.map((item) => inlineRefs(item, root, depth));
+  }
+  if (!node || typeof node !== "object") {
+    return node;
+  }
+
+  if (typeof node.$ref === "string") {
+    const target = resolvePointer(root, node.$ref);
+    const { $ref, ...siblings } = node;
+    if (!target || depth >= MAX_REF_DEPTH) {
+      // Unresolvable or recursive, keep only what is described locally
+      return inlineRefs({ type: "object", ...siblings }, root, depth);
+    }
+    return inlineRefs({ ...target, ...siblings }, root, depth + 1);
+  }
+
+  const result: Schema = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "$defs" || key === "definitions") continue;
+    result[key] = inlineRefs(value, root, depth);
+  }
+  return result;
+}
+
+/**
+ * Apply `transform` to every nested sub-schema
+ */
+function mapSubSchemas(schema: Schema, transform: (s: Schema) => Schema) {
+  const result: Schema = { ...schema };
+  for (const key of SCHEMA_KEYWORDS) {
+    if (result[key] && typeof result[key] === "object") {
+      result[key] = transform(result[key]);
+    }
+  }
+  for (const key of SCHEMA_MAP_KEYWORDS) {
+    if (result[key] && typeof result[key] === "object") {
+      result[key] = Object.fromEntries(
+        Object.entries(result[key]).map(([name, value]) => [
+          name,
+          transform(value as Schema),
+        ]),
+      );
+    }
+  }
+  for (const key of SCHEMA_LIST_KEYWORDS) {
+    if (Array.isArray(result[key])) {
+      result[key] = result[key].map(transform);
+    }
+  }
+  return result;
+}
+
+function stripMeta(schema: Schema): Schema {
+  const result = mapSubSchemas(schema, stripMeta);
+  for (const key of META_KEYWORDS) {
+    delete result[key];
+  }
+  return result;
+}
+
+/**
+ * Fold `allOf` members into the schema itself, merging properties
+ */
+function mergeAllOf(schema: Schema): Schema {
+  if (!Array.isArray(schema.allOf)) return schema;
+
+  const { allOf, ...rest } = schema;
+  return allOf.reduce(
+    (merged: Schema, member: Schema) => ({
+      ...member,
+      ...merged,
+      properties: { ...member.properties, ...merged.properties },
+      required: [...(merged.required || []), ...(member.required || [])],
+    }),
+    rest,
+  );
+}
+
+/**
+ * Shared structural clean up for the restricted dialects: `oneOf` becomes
+ * `anyOf`, `allOf` is merged and `required` only names known properties
+ */
+function normalizeStructure(schema: Schema): Schema {
+  const result = { ...mergeAllOf(schema) };
+
+  if (Array.isArray(result.oneOf)) {
+    result.anyOf = [...(result.anyOf || []), ...result.oneOf];
+    delete result.oneOf;
+  }
+
+  if (Array.isArray(result.required)) {
+    const known = Object.keys(result.properties || {});
+    const required = [...new Set<string>(result.required)].filter((name) =>
+      known.includes(name),
+    );
+    if (required.length > 0) {
+      result.required = required;
+    } else {
+      delete result.required;
+    }
+  }
+
+  return result;
+}
+
+function pick(schema: Schema, keywords: Set<string>): Schema {
+  return Object.fromEntries(
+    Object.entries(schema).filter(([key]) => keywords.has(key)),
+  );
+}
+
+function toGemini(input: Schema): Schema {
+  const schema = normalizeStructure(input);
+
+  if ("const" in schema) {
+    schema.enum = [schema.const];
+    schema.type = schema.type || "string";
+  }
+
+  // `type: ["string", "null"]` becomes `type: "string", nullable: true`
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((t: string) => t !== "null");
+    if (types.length < schema.type.length) {
+      schema.nullable = true;
+    }
+    if (types.length === 1) {
+      schema.type = types[0];
+    } else {
+      schema.anyOf = types.map((type: string) => ({ type }));
+      delete schema.type;
+    }
+  }
+
+  // A `{ type: "null" }` member of anyOf is expressed as nullable
+  if (Array.isArray(schema.anyOf)) {
+    const members = schema.anyOf.filter(
+      (member: Schema) => member?.type !== "null",
+    );
+    if (members.length < schema.anyOf.length) {
+      schema.nullable = true;
+    }
+    if (members.length === 1 && !schema.type) {
+      const { anyOf, ...rest } = schema;
+      return toGemini({ ...members[0], ...rest });
+    }
+    schema.anyOf = members;
+  }
+
+  // Gemini only accepts string enums
+  if (Array.isArray(schema.enum)) {
+    schema.enum = schema.enum.filter((value: unknown) => value !== null);
+    if (schema.enum.every((value: unknown) => typeof value === "string")) {
+      schema.type = "string";
+    } else {
+      delete schema.enum;
+    }
+  }
+
+  if (
+    schema.format &&
+    (schema.type !== "string" || !GEMINI_STRING_FORMATS.has(schema.format))
+  ) {
+    delete schema.format;
+  }
+
+  const result = mapSubSchemas(pick(schema, GEMINI_KEYWORDS), toGemini);
+
+  if (result.type === "object" && result.properties) {
+    if (Object.keys(result.properties).length === 0) {
+      // Gemini rejects objects with an empty properties map
+      delete result.properties;
+    }
+  }
+  if (result.type === "array" && !result.items) {
+    result.items = { type: "string" };
+  }
+
+  return result;
+}
+
+function toOpenAIStrict(input: Schema): Schema {
+  const schema = normalizeStructure(input);
+  const result = mapSubSchemas(
+    pick(schema, OPENAI_STRICT_KEYWORDS),
+    toOpenAIStrict,
+  );
+
+  if (result.type === "object" || result.properties) {
+    const properties: Schema = result.properties || {};
+    const required = new Set<string>(result.required || []);
+
+    // Strict mode wants every property listed, optional ones accept null
+    for (const [name, property] of Object.entries(properties)) {
+      if (!required.has(name)) {
+        properties[name] = makeNullable(property as Schema);
+      }
+    }
+
+    result.type = "object";
+    result.properties = properties;
+    result.required = Object.keys(properties);
+    result.additionalProperties = false;
+  }
+
+  return result;
+}
+
+function makeNullable(schema: Schema): Schema {
+  if (Array.isArray(schema.type)) {
+    return schema.type.includes("null")
+      ? schema
+      : { ...schema, type: [...schema.type, "null"] };
+  }
+  if (typeof schema.type === "string") {
+    if (schema.type === "null") return schema;
+    const nullable: Schema = { ...schema, type: [schema.type, "null"] };
+    if (Array.isArray(nullable.enum) && !nullable.enum.includes(null)) {
+      nullable.enum = [...nullable.enum, null];
+    }
+    return nullable;
+  }
+  if (Array.isArray(schema.anyOf)) {
+    return schema.anyOf.some((member: Schema) => member?.type === "null")
+      ? schema
+      : { ...schema, anyOf: [...schema.anyOf, { type: "null" }] };
+  }
+  return { anyOf: [schema, { type: "null" }] };
+}
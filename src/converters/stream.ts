@@ -11,9 +11,13 @@ import {
 import {
   CLAUDE_CONTENT_TYPES,
   CLAUDE_DELTA_TYPES,
-  CLAUDE_STOP_REASONS,
   CLAUDE_STREAM_TYPES,
 } from "./constants";
+import {
+  convertFinishReasonToClaude,
+  findMatchedStopSequence,
+} from "./response";
+import { dropOmittedArguments } from "./schema";
 
 /**
  * Convert OpenAI streaming response to Claude streaming responses
@@ -25,6 +29,7 @@ export function convertOpenAIStreamToClaude(
   const events: ClaudeStreamResponse[] = [];
 
   const stopCurrentBlock = () => {
+    events.push(...flushHeldToolInput(state));
     if (state.currentContentIndex >= 0) {
       events.push({
         type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_STOP,
@@ -71,6 +76,11 @@ export function convertOpenAIStreamToClaude(
       continue;
     }
 
+    if (choice.finish_reason) {
+      state.finishReason = choice.finish_reason;
+      state.stopSequence = findMatchedStopSequence(choice, state.stopSequences);
+    }
+
     const delta = choice.delta;
 
     // Handle reasoning/thinking content
@@ -165,6 +175,9 @@ export function convertOpenAIStreamToClaude(
             name: toolCall.function?.name || "",
             input: "",
           };
+          if (state.strictToolSchemas?.[state.toolCalls[idx].name]) {
+            state.heldToolCall = idx;
+          }
 
           // Build content_block with signature for first tool call
           const contentBlock: ClaudeContent = {
@@ -189,6 +202,7 @@ export function convertOpenAIStreamToClaude(
         // Send tool arguments delta
         if (toolCall.function?.arguments) {
           state.toolCalls[idx].input += toolCall.function.arguments;
+          if (state.heldToolCall === idx) continue;
 
           events.push({
             type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_DELTA,
@@ -213,7 +227,20 @@ export function getFinalStreamEvents(
   state: StreamConversionState,
   usage?: ChatUsage,
 ): ClaudeStreamResponse[] {
-  const events: ClaudeStreamResponse[] = [];
+  return buildFinalStreamEvents(
+    state,
+    usage ? convertOpenAIUsageToClaude(usage) : undefined,
+  );
+}
+
+/**
+ * Build the closing events from state and usage already in Claude format
+ */
+export function buildFinalStreamEvents(
+  state: StreamConversionState,
+  usage?: ClaudeUsage,
+): ClaudeStreamResponse[] {
+  const events: ClaudeStreamResponse[] = flushHeldToolInput(state);
 
   // Close last content block
   if (state.currentContentIndex >= 0) {
@@ -227,10 +254,13 @@ export function getFinalStreamEvents(
   events.push({
     type: CLAUDE_STREAM_TYPES.MESSAGE_DELTA,
     delta: {
-      stop_reason: CLAUDE_STOP_REASONS.END_TURN,
-      stop_sequence: null,
+      stop_reason: convertFinishReasonToClaude(
+        state.finishReason,
+        state.stopSequence,
+      ),
+      stop_sequence: state.stopSequence,
     },
-    usage: usage ? convertOpenAIUsageToClaude(usage) : undefined,
+    usage,
   });
 
   // Send message_stop
@@ -241,10 +271,48 @@ export function getFinalStreamEvents(
   return events;
 }
 
+/**
+ * Send the held back arguments of a strict tool call as a single delta,
+ * without the nulls that stand for omitted arguments
+ */
+export function flushHeldToolInput(
+  state: StreamConversionState,
+): ClaudeStreamResponse[] {
+  if (state.heldToolCall === undefined) return [];
+
+  const toolCall = state.toolCalls[state.heldToolCall];
+  state.heldToolCall = undefined;
+  if (!toolCall?.input) return [];
+
+  let partialJson = toolCall.input;
+  try {
+    partialJson = JSON.stringify(
+      dropOmittedArguments(
+        state.strictToolSchemas?.[toolCall.name],
+        JSON.parse(toolCall.input),
+      ),
+    );
+  } catch (e) {
+    // Incomplete arguments are passed on as they came
+  }
+  return [
+    {
+      type: CLAUDE_STREAM_TYPES.CONTENT_BLOCK_DELTA,
+      index: state.currentContentIndex,
+      delta: {
+        type: CLAUDE_DELTA_TYPES.INPUT_JSON_DELTA,
+        partial_json: partialJson,
+      },
+    },
+  ];
+}
+
 /**
  * Create initial stream state
  */
-export function createStreamState(): StreamConversionState {
+export function createStreamState(
+  stopSequences?: string[],
+): StreamConversionState {
   return {
     messageId: "",
     sentMessageStart: false,
@@ -254,6 +322,9 @@ export function createStreamState(): StreamConversionState {
     thinkingTexts: [],
     toolCalls: [],
     sentThinkingSignature: false,
+    finishReason: null,
+    stopSequence: null,
+    stopSequences,
   };
 }
 
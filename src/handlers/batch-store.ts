@@ -0,0 +1,474 @@
+import { Hono } from "hono";
+import { claudeError, normalizeClaudeErrorType } from "../converters/error";
+import {
+  MessageBatchCreateRequest,
+  MessageBatchIndividualResponse,
+  MessageBatchList,
+  MessageBatchRequest,
+  MessageBatchResult,
+  StoredMessageBatch,
+} from "../types/batches";
+import { Env } from "../types/env";
+import { paginateById } from "../utils/pagination";
+import { handleClaudeToOpenAI } from "./proxy";
+
+/**
+ * Headers the worker passes to the store along with the client's key
+ */
+export const BATCH_BASE_URL_HEADER = "x-anythropic-base-url";
+export const BATCHES_URL_HEADER = "x-anythropic-batches-url";
+
+const DEFAULT_CONCURRENCY = 4;
+/**
+ * Requests run per alarm, so one alarm stays well inside its time limit and
+ * a cancel is picked up between chunks. Also under storage's 128 keys per call.
+ */
+const REQUESTS_PER_ALARM = 64;
+const STORAGE_PAGE_SIZE = 128;
+const MAX_BATCH_REQUESTS = 100_000;
+const BATCH_TTL_MS = 24 * 60 * 60 * 1000;
+
+const BATCH_PREFIX = "batch:";
+const batchKey = (id: string) => `${BATCH_PREFIX}${id}`;
+const requestKey = (id: string, index: number) =>
+  `request:${id}:${String(index).padStart(6, "0")}`;
+const resultPrefix = (id: string) => `result:${id}:`;
+const resultKey = (id: string, index: number) =>
+  `${resultPrefix(id)}${String(index).padStart(6, "0")}`;
+
+/**
+ * Batches run through the same route as `/v1/messages`, so model routes and
+ * fallback chains apply to them too
+ */
+const batchRunner = new Hono<{ Bindings: Env }>().post("*", (c) =>
+  handleClaudeToOpenAI(c),
+);
+
+/**
+ * Durable Object holding one client's message batches. Requests are stored on
+ * create and run from the alarm with limited concurrency, results stay until
+ * the batch is deleted.
+ */
+export class BatchStore {
+  private readonly app = new Hono()
+    .post("/", (c) => this.createBatch(c))
+    .get("/", (c) => this.listBatches(c))
+    .get("/:id", (c) => this.retrieveBatch(c))
+    .post("/:id/cancel", (c) => this.cancelBatch(c))
+    .get("/:id/results", (c) => this.batchResults(c))
+    .delete("/:id", (c) => this.deleteBatch(c));
+  private lastCreatedAt = 0;
+
+  constructor(
+    private readonly ctx: DurableObjectState,
+    private readonly env: Env,
+  ) {}
+
+  fetch(request: Request) {
+    return this.app.fetch(request);
+  }
+
+  async alarm() {
+    const active = [
+      ...(
+        await this.ctx.storage.list<StoredMessageBatch>({
+          prefix: BATCH_PREFIX,
+        })
+      ).values(),
+    ].filter((stored) => stored.batch.processing_status !== "ended");
+    if (!active.length) {
+      return;
+    }
+
+    // Oldest first, ids sort by creation time
+    const stored = await this.processBatch(active[0]);
+    if (active.length > 1 || stored.batch.processing_status !== "ended") {
+      await this.ctx.storage.setAlarm(Date.now());
+    }
+  }
+
+  private async createBatch(c: any) {
+    const body: MessageBatchCreateRequest | null = await c.req
+      .json()
+      .catch(() => null);
+    const requests = body?.requests;
+
+    if (!Array.isArray(requests) || !requests.length) {
+      return claudeError(
+        c,
+        "invalid_request_error",
+        "requests: must be a non-empty array",
+      );
+    }
+    if (requests.length > MAX_BATCH_REQUESTS) {
+      return claudeError(
+        c,
+        "invalid_request_error",
+        `requests: a batch can hold at most ${MAX_BATCH_REQUESTS} requests`,
+      );
+    }
+    const customIds = new Set<string>();
+    for (const [index, request] of requests.entries()) {
+      if (typeof request?.custom_id !== "string" || !request.params) {
+        return claudeError(
+          c,
+          "invalid_request_error",
+          `requests.${index}: custom_id and params are required`,
+        );
+      }
+      if (customIds.has(request.custom_id)) {
+        return claudeError(
+          c,
+          "invalid_request_error",
+          `requests.${index}.custom_id: duplicate custom_id ${request.custom_id}`,
+        );
+      }
+      customIds.add(request.custom_id);
+    }
+
+    // Time prefixed so storage order is creation order, kept strictly
+    // increasing for batches created within the same millisecond
+    const now = Math.max(Date.now(), this.lastCreatedAt + 1);
+    this.lastCreatedAt = now;
+    const id = `msgbatch_${now.toString(36).padStart(9, "0")}${crypto
+      .randomUUID()
+      .replace(/-/g, "")
+      .slice(0, 15)}`;
+    const stored: StoredMessageBatch = {
+      batch: {
+        id,
+        type: "message_batch",
+        processing_status: "in_progress",
+        request_counts: {
+          processing: requests.length,
+          succeeded: 0,
+          errored: 0,
+          canceled: 0,
+          expired: 0,
+        },
+        created_at: new Date(now).toISOString(),
+        expires_at: new Date(now + BATCH_TTL_MS).toISOString(),
+        ended_at: null,
+        cancel_initiated_at: null,
+        archived_at: null,
+        results_url: null,
+      },
+      base_url: c.req.header(BATCH_BASE_URL_HEADER),
+      api_key: c.req.header("x-api-key"),
+      batches_url: c.req.header(BATCHES_URL_HEADER),
+      next_index: 0,
+      size: requests.length,
+    };
+
+    for (let start = 0; start < requests.length; start += STORAGE_PAGE_SIZE) {
+      const entries: Record<string, MessageBatchRequest> = {};
+      requests
+        .slice(start, start + STORAGE_PAGE_SIZE)
+        .forEach((request, offset) => {
+          entries[requestKey(id, start + offset)] = request;
+        });
+      await this.ctx.storage.put(entries);
+    }
+    await this.ctx.storage.put(batchKey(id), stored);
+    await this.ctx.storage.setAlarm(Date.now());
+
+    return c.json(stored.batch);
+  }
+
+  private async listBatches(c: any) {
+    // Newest first, as Anthropic lists them
+    const batches = [
+      ...(
+        await this.ctx.storage.list<StoredMessageBatch>({
+          prefix: BATCH_PREFIX,
+        })
+      ).values(),
+    ]
+      .map((stored) => stored.batch)
+      .reverse();
+
+    const list: MessageBatchList = paginateById(batches, c.req.query());
+    return c.json(list);
+  }
+
+  private async retrieveBatch(c: any) {
+    const stored = await this.getBatch(c.req.param("id"));
+    return stored ? c.json(stored.batch) : batchNotFound(c);
+  }
+
+  private async cancelBatch(c: any) {
+    const stored = await this.getBatch(c.req.param("id"));
+    if (!stored) {
+      return batchNotFound(c);
+    }
+
+    // The alarm marks what has not run yet as canceled and ends the batch
+    if (stored.batch.processing_status === "in_progress") {
+      stored.batch.processing_status = "canceling";
+      stored.batch.cancel_initiated_at = new Date().toISOString();
+      await this.ctx.storage.put(batchKey(stored.batch.id), stored);
+      await this.ctx.storage.setAlarm(Date.now());
+    }
+    return c.json(stored.batch);
+  }
+
+  private async batchResults(c: any) {
+    const stored = await this.getBatch(c.req.param("id"));
+    if (!stored) {
+      return batchNotFound(c);
+    }
+    if (stored.batch.processing_status !== "ended") {
+      return claudeError(
+        c,
+        "invalid_request_error",
+        `Batch ${stored.batch.id} has not ended yet, results are available once processing_status is ended`,
+      );
+    }
+
+    const lines: string[] = [];
+    let startAfter: string | undefined;
+    while (true) {
+      const page = await this.ctx.storage.list<MessageBatchIndividualResponse>({
+        prefix: resultPrefix(stored.batch.id),
+        startAfter,
+        limit: 1000,
+      });
+      for (const [key, result] of page) {
+        lines.push(`${JSON.stringify(result)}\n`);
+        startAfter = key;
+      }
+      if (page.size < 1000) {
+        break;
+      }
+    }
+
+    return c.body(lines.join(""), 200, {
+      "Content-Type": "application/x-jsonl",
+    });
+  }
+
+  private async deleteBatch(c: any) {
+    const stored = await this.getBatch(c.req.param("id"));
+    if (!stored) {
+      return batchNotFound(c);
+    }
+    if (stored.batch.processing_status !== "ended") {
+      return claudeError(
+        c,
+        "invalid_request_error",
+        `Batch ${stored.batch.id} is still in progress, cancel it before deleting`,
+      );
+    }
+
+    const { id } = stored.batch;
+    for (let start = 0; start < stored.size; start += STORAGE_PAGE_SIZE) {
+      const end = Math.min(start + STORAGE_PAGE_SIZE, stored.size);
+      await this.ctx.storage.delete(
+        indexRange(start, end).map((index) => resultKey(id, index)),
+      );
+    }
+    await this.ctx.storage.delete(batchKey(id));
+
+    return c.json({ id, type: "message_batch_deleted" });
+  }
+
+  private getBatch(id: string) {
+    return this.ctx.storage.get<StoredMessageBatch>(batchKey(id));
+  }
+
+  /**
+   * Run the next chunk of a batch, or end it when it was canceled or expired
+   */
+  private async processBatch(
+    stored: StoredMessageBatch,
+  ): Promise<StoredMessageBatch> {
+    const { id } = stored.batch;
+
+    if (stored.batch.processing_status === "canceling") {
+      return this.endBatch(stored, { type: "canceled" });
+    }
+    if (Date.now() >= Date.parse(stored.batch.expires_at)) {
+      return this.endBatch(stored, { type: "expired" });
+    }
+
+    const start = stored.next_index;
+    const end = Math.min(start + REQUESTS_PER_ALARM, stored.size);
+    const requests = await this.getRequests(id, start, end);
+    const concurrency =
+      Number(this.env.BATCH_CONCURRENCY) || DEFAULT_CONCURRENCY;
+    const results = await mapWithConcurrency(requests, concurrency, (request) =>
+      this.runRequest(stored, request),
+    );
+
+    // A cancel may have landed while the requests were in flight
+    const latest = (await this.getBatch(id)) ?? stored;
+    const entries: Record<string, MessageBatchIndividualResponse> = {};
+    results.forEach((result, offset) => {
+      entries[resultKey(id, start + offset)] = {
+        custom_id: requests[offset].custom_id,
+        result,
+      };
+      latest.batch.request_counts.processing--;
+      latest.batch.request_counts[result.type]++;
+    });
+    latest.next_index = end;
+    await this.ctx.storage.put(entries);
+
+    if (latest.next_index >= latest.size) {
+      return this.finishBatch(latest);
+    }
+    await this.ctx.storage.put(batchKey(id), latest);
+    return latest;
+  }
+
+  /**
+   * Record every request that has not run with the same result, then finish
+   */
+  private async endBatch(
+    stored: StoredMessageBatch,
+    result: MessageBatchResult,
+  ): Promise<StoredMessageBatch> {
+    const { id } = stored.batch;
+
+    for (
+      let start = stored.next_index;
+      start < stored.size;
+      start += STORAGE_PAGE_SIZE
+    ) {
+      const end = Math.min(start + STORAGE_PAGE_SIZE, stored.size);
+      const requests = await this.getRequests(id, start, end);
+      const entries: Record<string, MessageBatchIndividualResponse> = {};
+      requests.forEach((request, offset) => {
+        entries[resultKey(id, start + offset)] = {
+          custom_id: request.custom_id,
+          result,
+        };
+      });
+      await this.ctx.storage.put(entries);
+      stored.batch.request_counts[result.type] += requests.length;
+    }
+    stored.batch.request_counts.processing = 0;
+    stored.next_index = stored.size;
+
+    return this.finishBatch(stored);
+  }
+
+  /**
+   * Mark the batch ended, drop its requests and the client key
+   */
+  private async finishBatch(
+    stored: StoredMessageBatch,
+  ): Promise<StoredMessageBatch> {
+    const { id } = stored.batch;
+
+    stored.batch.processing_status = "ended";
+    stored.batch.ended_at = new Date().toISOString();
+    stored.batch.results_url = `${stored.batches_url}/${id}/results`;
+    delete stored.api_key;
+    await this.ctx.storage.put(batchKey(id), stored);
+
+    for (let start = 0; start < stored.size; start += STORAGE_PAGE_SIZE) {
+      const end = Math.min(start + STORAGE_PAGE_SIZE, stored.size);
+      await this.ctx.storage.delete(
+        indexRange(start, end).map((index) => requestKey(id, index)),
+      );
+    }
+    return stored;
+  }
+
+  private async getRequests(
+    id: string,
+    start: number,
+    end: number,
+  ): Promise<MessageBatchRequest[]> {
+    const keys = indexRange(start, end).map((index) => requestKey(id, index));
+    const requests = await this.ctx.storage.get<MessageBatchRequest>(keys);
+    return keys.map((key) => requests.get(key)!);
+  }
+
+  private async runRequest(
+    stored: StoredMessageBatch,
+    request: MessageBatchRequest,
+  ): Promise<MessageBatchResult> {
+    try {
+      // Batch results are whole messages, never streams
+      const { stream, ...params } = request.params;
+      const response = await batchRunner.request(
+        `/${stored.base_url}/v1/messages`,
+        {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "x-api-key": stored.api_key!,
+          },
+          body: JSON.stringify(params),
+        },
+        this.env,
+      );
+      const body: any = await response.json().catch(() => null);
+
+      if (response.ok) {
+        return { type: "succeeded", message: body };
+      }
+      return {
+        type: "errored",
+        error: normalizeClaudeErrorType(
+          {
+            type: "error",
+            error: {
+              type: body?.error?.type,
+              message:
+                body?.error?.message ||
+                `Upstream returned HTTP ${response.status}`,
+            },
+          },
+          response.status,
+        ),
+      };
+    } catch (error: any) {
+      console.error(`Batch request ${request.custom_id} failed: `, error);
+      return {
+        type: "errored",
+        error: {
+          type: "error",
+          error: { type: "api_error", message: error.message },
+        },
+      };
+    }
+  }
+}
+
+function batchNotFound(c: any) {
+  return claudeError(
+    c,
+    "not_found_error",
+    `No message batch with id ${c.req.param("id")}`,
+  );
+}
+
+function indexRange(start: number, end: number): number[] {
+  return Array.from({ length: end - start }, (_, offset) => start + offset);
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, keeping order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index]);
+      }
+    },
+  );
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,264 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import app from "../index";
+import { Env } from "../types/env";
+import { BatchStore } from "./batch-store";
+
+/**
+ * In-memory stand-in for Durable Object storage, enough for `BatchStore`
+ */
+class MemoryStorage {
+  readonly data = new Map<string, any>();
+  alarm: number | null = null;
+
+  async get(key: string | string[]) {
+    if (Array.isArray(key)) {
+      return new Map(
+        key
+          .filter((k) => this.data.has(k))
+          .map((k) => [k, structuredClone(this.data.get(k))]),
+      );
+    }
+    return structuredClone(this.data.get(key));
+  }
+
+  async put(key: string | Record<string, any>, value?: any) {
+    const entries = typeof key === "string" ? { [key]: value } : key;
+    for (const [k, v] of Object.entries(entries)) {
+      this.data.set(k, structuredClone(v));
+    }
+  }
+
+  async delete(key: string | string[]) {
+    for (const k of Array.isArray(key) ? key : [key]) {
+      this.data.delete(k);
+    }
+  }
+
+  async list(options: { prefix: string; startAfter?: string; limit?: number }) {
+    const keys = [...this.data.keys()]
+      .filter((k) => k.startsWith(options.prefix))
+      .filter((k) => !options.startAfter || k > options.startAfter)
+      .sort()
+      .slice(0, options.limit);
+    return new Map(keys.map((k) => [k, structuredClone(this.data.get(k))]));
+  }
+
+  async setAlarm(time: number) {
+    this.alarm = time;
+  }
+}
+
+function createBatchEnv() {
+  const storage = new MemoryStorage();
+  const env = {} as Env;
+  const store = new BatchStore({ storage } as any, env);
+  const names: string[] = [];
+  env.BATCHES = {
+    idFromName: (name: string) => {
+      names.push(name);
+      return name;
+    },
+    get: () => ({
+      fetch: (input: string, init?: RequestInit) =>
+        store.fetch(new Request(input, init)),
+    }),
+  } as any;
+
+  // Run alarms the way the runtime would until none is left
+  const runAlarms = async () => {
+    while (storage.alarm !== null) {
+      storage.alarm = null;
+      await store.alarm();
+    }
+  };
+  return { env, storage, names, runAlarms };
+}
+
+const completion = (content: string) => ({
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  created: 0,
+  model: "gpt-5",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content },
+      finish_reason: "stop",
+    },
+  ],
+  usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+});
+
+const batchRequest = (customId: string, content: string) => ({
+  custom_id: customId,
+  params: {
+    model: "gpt-5",
+    max_tokens: 100,
+    stream: true,
+    messages: [{ role: "user", content }],
+  },
+});
+
+describe("message batches", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const call = (
+    env: Env,
+    method: string,
+    path: string,
+    body?: unknown,
+    apiKey = "sk-batch",
+  ) =>
+    app.request(
+      `/api.openai.com/v1/messages/batches${path}`,
+      {
+        method,
+        headers: { "content-type": "application/json", "x-api-key": apiKey },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      env,
+    );
+
+  it("runs requests from the alarm and serves JSONL results", async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      expect(body.stream).toBeFalsy();
+      if (body.messages[0].content === "fail") {
+        return Response.json(
+          { error: { message: "bad input", type: "invalid_request_error" } },
+          { status: 400 },
+        );
+      }
+      return Response.json(completion(`re: ${body.messages[0].content}`));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const { env, names, runAlarms } = createBatchEnv();
+
+    const created = await call(env, "POST", "", {
+      requests: [
+        batchRequest("a", "hello"),
+        batchRequest("b", "fail"),
+        batchRequest("c", "world"),
+      ],
+    });
+    const batch: any = await created.json();
+    expect(batch).toMatchObject({
+      type: "message_batch",
+      processing_status: "in_progress",
+      request_counts: { processing: 3, succeeded: 0 },
+      results_url: null,
+    });
+    expect(batch.id).toMatch(/^msgbatch_/);
+    expect(names[0]).toMatch(/^[0-9a-f]{64}$/);
+
+    const early = await call(env, "GET", `/${batch.id}/results`);
+    expect(early.status).toBe(400);
+
+    await runAlarms();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    const ended: any = await (await call(env, "GET", `/${batch.id}`)).json();
+    expect(ended).toMatchObject({
+      processing_status: "ended",
+      request_counts: {
+        processing: 0,
+        succeeded: 2,
+        errored: 1,
+        canceled: 0,
+        expired: 0,
+      },
+      results_url: `http://localhost/api.openai.com/v1/messages/batches/${batch.id}/results`,
+    });
+
+    const results = await call(env, "GET", `/${batch.id}/results`);
+    const lines = (await results.text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines.map((line) => [line.custom_id, line.result.type])).toEqual([
+      ["a", "succeeded"],
+      ["b", "errored"],
+      ["c", "succeeded"],
+    ]);
+    expect(lines[0].result.message.content).toEqual([
+      { type: "text", text: "re: hello" },
+    ]);
+    expect(lines[1].result.error).toEqual({
+      type: "error",
+      error: { type: "invalid_request_error", message: "bad input" },
+    });
+  });
+
+  it("cancels, lists and deletes batches", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const { env, storage, runAlarms } = createBatchEnv();
+
+    const first: any = await (
+      await call(env, "POST", "", { requests: [batchRequest("a", "hi")] })
+    ).json();
+    const second: any = await (
+      await call(env, "POST", "", {
+        requests: [batchRequest("a", "hi"), batchRequest("b", "there")],
+      })
+    ).json();
+
+    const canceling: any = await (
+      await call(env, "POST", `/${second.id}/cancel`)
+    ).json();
+    expect(canceling.processing_status).toBe("canceling");
+    expect((await call(env, "DELETE", `/${second.id}`)).status).toBe(400);
+
+    const page: any = await (await call(env, "GET", "?limit=1")).json();
+    expect(page).toMatchObject({
+      has_more: true,
+      first_id: second.id,
+      last_id: second.id,
+    });
+    const next: any = await (
+      await call(env, "GET", `?limit=1&after_id=${second.id}`)
+    ).json();
+    expect(next.data.map((batch: any) => batch.id)).toEqual([first.id]);
+    expect(next.has_more).toBe(false);
+
+    // Cancel the first too so no request reaches the upstream
+    await call(env, "POST", `/${first.id}/cancel`);
+    await runAlarms();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const results = await call(env, "GET", `/${second.id}/results`);
+    expect(await results.text()).toBe(
+      '{"custom_id":"a","result":{"type":"canceled"}}\n' +
+        '{"custom_id":"b","result":{"type":"canceled"}}\n',
+    );
+    const ended: any = await (await call(env, "GET", `/${second.id}`)).json();
+    expect(ended.request_counts).toMatchObject({ processing: 0, canceled: 2 });
+    expect(storage.data.get(`batch:${second.id}`).api_key).toBeUndefined();
+
+    expect(await (await call(env, "DELETE", `/${second.id}`)).json()).toEqual({
+      id: second.id,
+      type: "message_batch_deleted",
+    });
+    expect((await call(env, "GET", `/${second.id}`)).status).toBe(404);
+    expect(
+      [...storage.data.keys()].filter((key) => key.includes(second.id)),
+    ).toEqual([]);
+  });
+
+  it("rejects invalid batches and missing bindings", async () => {
+    const { env } = createBatchEnv();
+
+    const duplicate = await call(env, "POST", "", {
+      requests: [batchRequest("a", "x"), batchRequest("a", "y")],
+    });
+    expect(duplicate.status).toBe(400);
+    expect(((await duplicate.json()) as any).error.message).toContain(
+      "duplicate custom_id",
+    );
+
+    const unbound = await call({} as Env, "GET", "");
+    expect(unbound.status).toBe(404);
+  });
+});
@@ -0,0 +1,52 @@
+import { Env } from "../types/env";
+import { getClientApiKey } from "../utils/auth";
+import { sha256Hex } from "../utils/hash";
+import { BATCH_BASE_URL_HEADER, BATCHES_URL_HEADER } from "./batch-store";
+
+/**
+ * `/{base}/v1/messages/batches[/...]`, forwarded to the client's `BatchStore`.
+ * Each API key gets its own store, so clients only see their own batches.
+ */
+export async function handleMessageBatches(
+  c: any,
+  baseUrl: string,
+  batchPath: string,
+) {
+  const apiKey = getClientApiKey(c);
+  if (!apiKey) {
+    return c.json(
+      { error: { message: "Missing x-api-key or authorization header" } },
+      400,
+    );
+  }
+
+  const env: Env = c.env || {};
+  if (!env.BATCHES) {
+    return c.json(
+      {
+        type: "error",
+        error: {
+          type: "not_found_error",
+          message:
+            "Message batches need a BATCHES Durable Object binding, see wrangler.toml",
+        },
+      },
+      404,
+    );
+  }
+
+  const url = new URL(c.req.url);
+  const store = env.BATCHES.get(
+    env.BATCHES.idFromName(await sha256Hex(apiKey)),
+  );
+  return store.fetch(`https://batches${batchPath || "/"}${url.search}`, {
+    method: c.req.method,
+    headers: {
+      "content-type": "application/json",
+      "x-api-key": apiKey,
+      [BATCH_BASE_URL_HEADER]: baseUrl,
+      [BATCHES_URL_HEADER]: `${url.origin}/${baseUrl}/v1/messages/batches`,
+    },
+    body: c.req.method === "POST" ? await c.req.text() : undefined,
+  });
+}
@@ -0,0 +1,139 @@
+import { stream } from "hono/streaming";
+import {
+  convertClaudeResponseToOpenAI,
+  convertClaudeStreamToOpenAI,
+  convertOpenAIRequestToClaude,
+  createChatCompletionsStreamState,
+} from "../converters/chat-completions";
+import { convertClaudeErrorToOpenAI } from "../converters/error";
+import { ClaudeStreamResponse } from "../types/claude";
+import { OpenAIRequest } from "../types/openai";
+import { getClientApiKey } from "../utils/auth";
+import { readSseData } from "../utils/sse";
+import { extractBaseUrl } from "../utils/url";
+import { getProxyHeaders, proxyClaudeRequest } from "./proxy";
+
+/**
+ * OpenAI chat completions front door. The request is converted to Claude
+ * and proxied like `/v1/messages`, so any upstream (Kiro and native Anthropic
+ * included) can serve OpenAI only clients.
+ */
+export async function handleChatCompletions(c: any) {
+  try {
+    const apiKey = getClientApiKey(c);
+
+    if (!apiKey) {
+      return c.json(
+        convertClaudeErrorToOpenAI({
+          error: {
+            type: "authentication_error",
+            message: "Missing x-api-key or authorization header",
+          },
+        }),
+        400,
+      );
+    }
+
+    const baseUrl = extractBaseUrl(c.req.path, "/v1/chat/completions");
+    if (!baseUrl) {
+      return c.json(
+        convertClaudeErrorToOpenAI({
+          error: {
+            type: "invalid_request_error",
+            message:
+              "Could not extract base URL from path. Format: /<base-url>/v1/chat/completions",
+          },
+        }),
+        400,
+      );
+    }
+
+    const openaiRequest: OpenAIRequest = await c.req.json();
+    const claudeRequest = convertOpenAIRequestToClaude(openaiRequest);
+    const response = await proxyClaudeRequest(
+      c,
+      claudeRequest,
+      baseUrl,
+      apiKey,
+    );
+    const headers = getProxyHeaders(response);
+
+    if (!response.ok) {
+      return c.json(
+        convertClaudeErrorToOpenAI(await response.json()),
+        response.status,
+        headers,
+      );
+    }
+
+    if (
+      (response.headers.get("content-type") || "").includes("text/event-stream")
+    ) {
+      return streamAsChatCompletions(
+        c,
+        response,
+        claudeRequest.model,
+        openaiRequest.stream_options?.include_usage ?? false,
+        headers,
+      );
+    }
+
+    return c.json(
+      convertClaudeResponseToOpenAI(await response.json()),
+      200,
+      headers,
+    );
+  } catch (error: any) {
+    console.error("Internal server error: ", error);
+    return c.json(
+      convertClaudeErrorToOpenAI({
+        error: {
+          type: "api_error",
+          message: `Internal server error: ${error.message}`,
+        },
+      }),
+      500,
+    );
+  }
+}
+
+/**
+ * Re-emit a Claude SSE stream as chat completion chunks. A Claude error
+ * event ends the stream with an OpenAI style error payload.
+ */
+function streamAsChatCompletions(
+  c: any,
+  claudeResponse: Response,
+  model: string,
+  includeUsage: boolean,
+  headers: Record<string, string>,
+) {
+  const state = createChatCompletionsStreamState(model, includeUsage);
+  c.header("Content-Type", "text/event-stream");
+  c.header("Cache-Control", "no-cache");
+  for (const [name, value] of Object.entries(headers)) {
+    c.header(name, value);
+  }
+
+  return stream(c, async (streamWriter) => {
+    try {
+      for await (const data of readSseData(claudeResponse.body!)) {
+        const event: ClaudeStreamResponse = JSON.parse(data);
+        if (event.type === "error") {
+          await streamWriter.write(
+            `data: ${JSON.stringify(convertClaudeErrorToOpenAI({ error: event.error }))}\n\n`,
+          );
+          return;
+        }
+
+        for (const chunk of convertClaudeStreamToOpenAI(event, state)) {
+          await streamWriter.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        }
+      }
+
+      await streamWriter.write("data: [DONE]\n\n");
+    } finally {
+      await streamWriter.close();
+    }
+  });
+}
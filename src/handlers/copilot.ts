@@ -0,0 +1,123 @@
+import { Env } from "../types/env";
+import { pollCopilotDeviceFlow, startCopilotDeviceFlow } from "../utils/auth";
+
+const POLL_PATH = "/copilot/login/poll";
+
+/**
+ * GET /copilot/login, starts GitHub's device flow. Browsers get a page that
+ * shows the code and polls until the token is issued, other clients get the
+ * device code as JSON and poll `POST /copilot/login/poll` themselves.
+ */
+export async function handleCopilotLogin(c: any) {
+  const env: Env = c.env || {};
+
+  try {
+    const device = await startCopilotDeviceFlow(env.GITHUB_BASE_URL);
+
+    if (!(c.req.header("accept") || "").includes("text/html")) {
+      return c.json({ ...device, poll_url: POLL_PATH });
+    }
+
+    return c.html(renderLoginPage(device));
+  } catch (error: any) {
+    console.error("Copilot login failed: ", error);
+    return c.json({ error: { message: error.message } }, 502);
+  }
+}
+
+/**
+ * POST /copilot/login/poll with `{ "device_code": "..." }`
+ */
+export async function handleCopilotLoginPoll(c: any) {
+  const env: Env = c.env || {};
+
+  let deviceCode: unknown;
+  try {
+    deviceCode = (await c.req.json()).device_code;
+  } catch (e) {
+    // Validated below
+  }
+  if (typeof deviceCode !== "string" || !deviceCode) {
+    return c.json({ error: { message: "device_code is required" } }, 400);
+  }
+
+  try {
+    const result = await pollCopilotDeviceFlow(deviceCode, env.GITHUB_BASE_URL);
+    return c.json(result, result.status === "failed" ? 400 : 200);
+  } catch (error: any) {
+    console.error("Copilot login poll failed: ", error);
+    return c.json({ error: { message: error.message } }, 502);
+  }
+}
+
+function renderLoginPage(device: {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  interval: number;
+}): string {
+  const uri = escapeHtml(device.verification_uri);
+  // Only https uris are linked, anything else is shown as text
+  const link = device.verification_uri.startsWith("https://")
+    ? `<a href="${uri}" target="_blank">${uri}</a>`
+    : uri;
+
+  return `<!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Copilot login</title>
+      </head>
+      <body>
+        <p>Open ${link} and enter the code:</p>
+        <h1><code>${escapeHtml(device.user_code)}</code></h1>
+        <p id="status">Waiting for authorization...</p>
+        <pre id="token" hidden></pre>
+        <script>
+          const deviceCode = ${scriptJson(device.device_code)};
+          let interval = ${Number(device.interval) || 5} * 1000;
+          const status = document.getElementById("status");
+          const token = document.getElementById("token");
+
+          async function poll() {
+            const res = await fetch(${JSON.stringify(POLL_PATH)}, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ device_code: deviceCode }),
+            });
+            const result = await res.json();
+            if (result.status === "complete") {
+              status.textContent = "Logged in. Use this as ANTHROPIC_AUTH_TOKEN:";
+              token.textContent = "export ANTHROPIC_AUTH_TOKEN=" + result.access_token;
+              token.hidden = false;
+              return;
+            }
+            if (result.status === "pending") {
+              if (result.interval) interval = result.interval * 1000;
+              setTimeout(poll, interval);
+              return;
+            }
+            status.textContent = "Login failed: " + (result.error_description || result.error?.message || result.error);
+          }
+
+          setTimeout(poll, interval);
+        </script>
+      </body>
+    </html>`;
+}
+
+function escapeHtml(value: string): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * JSON for an inline script, `</script>` cannot end the block early
+ */
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
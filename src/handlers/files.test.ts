@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import app from "../index";
+import { Env } from "../types/env";
+
+/**
+ * In-memory stand-in for a KV namespace, enough for the Files API
+ */
+function createMemoryKV() {
+  const data = new Map<string, { value: ArrayBuffer; metadata: any }>();
+  return {
+    async put(key: string, value: ArrayBuffer, options?: { metadata?: any }) {
+      data.set(key, { value, metadata: options?.metadata });
+    },
+    async getWithMetadata(key: string) {
+      return data.get(key) ?? { value: null, metadata: null };
+    },
+    async list(options: { prefix: string }) {
+      const keys = [...data.keys()]
+        .filter((key) => key.startsWith(options.prefix))
+        .sort()
+        .map((name) => ({ name, metadata: data.get(name)!.metadata }));
+      return { keys, list_complete: true };
+    },
+    async delete(key: string) {
+      data.delete(key);
+    },
+  } as unknown as KVNamespace;
+}
+
+describe("files api", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("uploads, lists, reads and deletes files", async () => {
+    const env = { FILES: createMemoryKV() } as Env;
+    const request = (path: string, init: RequestInit = {}, apiKey = "sk-1") =>
+      app.request(
+        `/api.deepseek.com/v1/files${path}`,
+        { ...init, headers: { "x-api-key": apiKey, ...init.headers } },
+        env,
+      );
+
+    const form = new FormData();
+    form.append(
+      "file",
+      new File(["Launch is on Friday."], "plan.txt", { type: "text/plain" }),
+    );
+    const uploaded: any = await (
+      await request("", { method: "POST", body: form })
+    ).json();
+    expect(uploaded).toMatchObject({
+      type: "file",
+      filename: "plan.txt",
+      mime_type: "text/plain",
+      size_bytes: 20,
+    });
+    expect(uploaded.id).toMatch(/^file_/);
+
+    const list: any = await (await request("")).json();
+    expect(list).toMatchObject({
+      data: [{ id: uploaded.id }],
+      has_more: false,
+      first_id: uploaded.id,
+    });
+    expect(
+      ((await (await request("", {}, "sk-2")).json()) as any).data,
+    ).toEqual([]);
+
+    expect(await (await request(`/${uploaded.id}`)).json()).toEqual(uploaded);
+    expect(await (await request(`/${uploaded.id}/content`)).text()).toBe(
+      "Launch is on Friday.",
+    );
+
+    // DeepSeek has no document input, the file arrives as text
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      expect(body.messages[0].content[0]).toEqual({
+        type: "text",
+        text: '<document title="plan">\nLaunch is on Friday.\n</document>',
+      });
+      return Response.json({
+        id: "chatcmpl-1",
+        object: "chat.completion",
+        created: 0,
+        model: "deepseek-chat",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: "Friday" },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+      });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const message = (fileId: string) =>
+      app.request(
+        "/api.deepseek.com/v1/messages",
+        {
+          method: "POST",
+          headers: { "content-type": "application/json", "x-api-key": "sk-1" },
+          body: JSON.stringify({
+            model: "deepseek-chat",
+            max_tokens: 100,
+            messages: [
+              {
+                role: "user",
+                content: [
+                  {
+                    type: "document",
+                    source: { type: "file", file_id: fileId },
+                    title: "plan",
+                  },
+                  { type: "text", text: "When is launch?" },
+                ],
+              },
+            ],
+          }),
+        },
+        env,
+      );
+    expect((await message(uploaded.id)).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    expect(
+      await (await request(`/${uploaded.id}`, { method: "DELETE" })).json(),
+    ).toEqual({ id: uploaded.id, type: "file_deleted" });
+    expect((await request(`/${uploaded.id}`)).status).toBe(404);
+
+    const missing = await message(uploaded.id);
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toMatchObject({
+      error: { type: "invalid_request_error" },
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("fits long file names in KV metadata", async () => {
+    const env = { FILES: createMemoryKV() } as Env;
+    const form = new FormData();
+    form.append("file", new File(["x"], `${"文档".repeat(400)}.txt`));
+
+    const uploaded: any = await (
+      await app.request(
+        "/api.deepseek.com/v1/files",
+        { method: "POST", headers: { "x-api-key": "sk-1" }, body: form },
+        env,
+      )
+    ).json();
+
+    expect(uploaded.filename.startsWith("文档文档")).toBe(true);
+    expect(
+      new TextEncoder().encode(JSON.stringify(uploaded)).length,
+    ).toBeLessThanOrEqual(1024);
+  });
+});
@@ -0,0 +1,96 @@
+import { claudeError } from "../converters/error";
+import { Env } from "../types/env";
+import { ClaudeFileList } from "../types/files";
+import { getClientApiKey } from "../utils/auth";
+import {
+  deleteFile,
+  getFile,
+  listFiles,
+  MAX_FILE_BYTES,
+  putFile,
+} from "../utils/files";
+import { paginateById } from "../utils/pagination";
+
+/**
+ * `/{base}/v1/files[/{id}[/content]]`, Anthropic's Files API over the `FILES`
+ * KV namespace. Uploaded ids work as `file` sources on any upstream, they are
+ * inlined before the request is converted.
+ */
+export async function handleFiles(c: any, filePath: string) {
+  const apiKey = getClientApiKey(c);
+  if (!apiKey) {
+    return c.json(
+      { error: { message: "Missing x-api-key or authorization header" } },
+      400,
+    );
+  }
+
+  const env: Env = c.env || {};
+  if (!env.FILES) {
+    return claudeError(
+      c,
+      "not_found_error",
+      "The Files API needs a FILES KV namespace binding, see wrangler.toml",
+    );
+  }
+
+  const [, fileId, action] = filePath.split("/");
+  const method = c.req.method;
+
+  try {
+    if (!fileId && method === "POST") {
+      const form = await c.req.formData().catch(() => null);
+      const upload = form?.get("file");
+      if (!(upload instanceof File)) {
+        return claudeError(
+          c,
+          "invalid_request_error",
+          "file: expected a multipart/form-data upload in the file field",
+        );
+      }
+      if (upload.size > MAX_FILE_BYTES) {
+        return claudeError(
+          c,
+          "request_too_large",
+          `file: uploads are limited to ${MAX_FILE_BYTES} bytes`,
+        );
+      }
+      return c.json(await putFile(env.FILES, apiKey, upload));
+    }
+
+    if (!fileId && method === "GET") {
+      const list: ClaudeFileList = paginateById(
+        await listFiles(env.FILES, apiKey),
+        c.req.query(),
+      );
+      return c.json(list);
+    }
+
+    const stored = fileId && (await getFile(env.FILES, apiKey, fileId));
+    if (!stored) {
+      return claudeError(c, "not_found_error", `File not found: ${fileId}`);
+    }
+
+    if (method === "GET" && !action) {
+      return c.json(stored.file);
+    }
+    if (method === "GET" && action === "content") {
+      return c.body(stored.data, 200, {
+        "Content-Type": stored.file.mime_type,
+        "Content-Disposition": `attachment; filename="${encodeURIComponent(stored.file.filename)}"`,
+      });
+    }
+    if (method === "DELETE" && !action) {
+      await deleteFile(env.FILES, apiKey, fileId);
+      return c.json({ id: fileId, type: "file_deleted" });
+    }
+
+    return c.notFound();
+  } catch (error: any) {
+    console.error("Files API error: ", error);
+    return c.json(
+      { error: { message: `Internal server error: ${error.message}` } },
+      500,
+    );
+  }
+}
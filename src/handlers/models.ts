@@ -0,0 +1,145 @@
+import { createAdapter } from "../adapters/factory";
+import {
+  claudeError,
+  statusForClaudeErrorType,
+  UpstreamResponseError,
+} from "../converters/error";
+import { ClaudeModelInfo, ClaudeModelList } from "../types/models";
+import { getClientApiKey } from "../utils/auth";
+import { paginateById } from "../utils/pagination";
+import { isGlob, loadModelRoutes, matchesGlob } from "../utils/routing";
+import { extractBaseUrl } from "../utils/url";
+
+/**
+ * Upstreams rarely report creation dates, Anthropic's shape requires one
+ */
+const UNKNOWN_CREATED_AT = "1970-01-01T00:00:00Z";
+
+/**
+ * GET /{base}/v1/models, the upstream's model list in Anthropic's format
+ */
+export async function handleListModels(c: any) {
+  const baseUrl = extractBaseUrl(c.req.path, "/v1/models");
+  const result = await listClaudeModels(c, baseUrl);
+  if (result instanceof Response) {
+    return result;
+  }
+
+  const list: ClaudeModelList = paginateById(result, c.req.query());
+  return c.json(list);
+}
+
+/**
+ * GET /{base}/v1/models/{id}, a single entry of the same list
+ */
+export async function handleGetModel(c: any, modelId: string) {
+  const baseUrl = extractBaseUrl(
+    c.req.path.slice(0, c.req.path.lastIndexOf("/")),
+    "/v1/models",
+  );
+  const result = await listClaudeModels(c, baseUrl);
+  if (result instanceof Response) {
+    return result;
+  }
+
+  const model = result.find((entry) => entry.id === modelId);
+  if (!model) {
+    return c.json(
+      {
+        type: "error",
+        error: {
+          type: "not_found_error",
+          message: `model: ${modelId}`,
+        },
+      },
+      404,
+    );
+  }
+  return c.json(model);
+}
+
+/**
+ * The upstream's models with configured aliases first, or the error
+ * response to send instead
+ */
+async function listClaudeModels(
+  c: any,
+  baseUrl: string,
+): Promise<ClaudeModelInfo[] | Response> {
+  const apiKey = getClientApiKey(c);
+  if (!apiKey) {
+    return c.json(
+      { error: { message: "Missing x-api-key or authorization header" } },
+      400,
+    );
+  }
+
+  if (!baseUrl) {
+    return claudeError(
+      c,
+      "invalid_request_error",
+      "Could not extract base URL from path. Format: /<base-url>/v1/models",
+    );
+  }
+
+  try {
+    const [models, routes] = await Promise.all([
+      createAdapter(baseUrl).listModels(apiKey),
+      loadModelRoutes(c.env),
+    ]);
+    if (!models) {
+      return c.json(
+        {
+          type: "error",
+          error: {
+            type: "not_found_error",
+            message: `Model listing is not supported for ${baseUrl}`,
+          },
+        },
+        404,
+      );
+    }
+
+    const upstreamModels: ClaudeModelInfo[] = models.map((model) => ({
+      type: "model",
+      id: model.id,
+      display_name: model.display_name || model.id,
+      created_at: model.created_at || UNKNOWN_CREATED_AT,
+    }));
+
+    // Exact route matches are names a client can ask for on this upstream
+    const aliases: ClaudeModelInfo[] = [];
+    for (const route of routes) {
+      if (
+        isGlob(route.match) ||
+        (route.upstream && !matchesGlob(route.upstream, baseUrl)) ||
+        upstreamModels.some((model) => model.id === route.match) ||
+        aliases.some((alias) => alias.id === route.match)
+      ) {
+        continue;
+      }
+
+      const target = upstreamModels.find((model) => model.id === route.model);
+      aliases.push({
+        type: "model",
+        id: route.match,
+        display_name: target?.display_name || route.model,
+        created_at: target?.created_at || UNKNOWN_CREATED_AT,
+      });
+    }
+
+    return [...aliases, ...upstreamModels];
+  } catch (error: any) {
+    if (error instanceof UpstreamResponseError) {
+      return c.json(
+        error.toClaudeError(),
+        error.status ?? statusForClaudeErrorType(error.type),
+      );
+    }
+    console.error("Error listing models:", error);
+    return c.json(
+      { error: { message: `Internal server error: ${error.message}` } },
+      500,
+    );
+  }
+}
@@ -0,0 +1,907 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import app from "../index";
+import { Env } from "../types/env";
+import { UPSTREAM_HEADER } from "./proxy";
+
+const env: Env = {
+  FALLBACK_CHAINS: JSON.stringify([
+    {
+      match: "claude-sonnet-*",
+      targets: [
+        { upstream: "api.openai.com", model: "gpt-5" },
+        {
+          upstream: "generativelanguage.googleapis.com/v1beta/openai",
+          model: "gemini-2.5-pro",
+          api_key_env: "GEMINI_API_KEY",
+        },
+      ],
+    },
+  ]),
+  GEMINI_API_KEY: "gemini-key",
+  PROXY_API_KEY: "proxy-key",
+} as Env;
+
+const completion = {
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  created: 0,
+  model: "gemini-2.5-pro",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content: "hi" },
+      finish_reason: "stop",
+    },
+  ],
+  usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+};
+
+const postMessages = (model: string, apiKey = "client-key") =>
+  app.request(
+    "/api.openai.com/v1/messages",
+    {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-api-key": apiKey,
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: 100,
+        messages: [{ role: "user", content: "hi" }],
+      }),
+    },
+    env,
+  );
+
+describe("fallback chains", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("moves on to the next upstream when rate limited", async () => {
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (url.startsWith("https://api.openai.com")) {
+        return Response.json(
+          { error: { message: "quota", type: "insufficient_quota" } },
+          { status: 429, headers: { "retry-after": "0" } },
+        );
+      }
+      return Response.json(completion);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await postMessages("claude-sonnet-4-5", "proxy-key");
+    const body: any = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get(UPSTREAM_HEADER)).toBe(
+      "generativelanguage.googleapis.com/v1beta/openai",
+    );
+    expect(body.content).toEqual([{ type: "text", text: "hi" }]);
+
+    const [url, init] = fetchMock.mock.calls.at(-1)!;
+    expect(url).toBe(
+      "https://generativelanguage.googleapis.com/v1beta/openai/chat/completions",
+    );
+    expect((init.headers as Record<string, string>).Authorization).toBe(
+      "Bearer gemini-key",
+    );
+    expect(JSON.parse(init.body as string).model).toBe("gemini-2.5-pro");
+  });
+
+  it("keeps worker secrets from clients without the proxy key", async () => {
+    const fetchMock = vi.fn(async (_url: string) =>
+      Response.json(
+        { error: { message: "quota", type: "insufficient_quota" } },
+        { status: 429, headers: { "retry-after": "0" } },
+      ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await postMessages("claude-sonnet-4-5");
+    const body: any = await res.json();
+
+    expect(res.status).toBe(401);
+    expect(body.error.type).toBe("authentication_error");
+    for (const [url] of fetchMock.mock.calls) {
+      expect(url).not.toContain("generativelanguage.googleapis.com");
+    }
+  });
+
+  it("returns client errors from the first upstream without falling back", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({ error: { message: "bad tools" } }, { status: 400 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await postMessages("claude-sonnet-4-5");
+    const body: any = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(res.headers.get(UPSTREAM_HEADER)).toBe("api.openai.com");
+    expect(body.error.type).toBe("invalid_request_error");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("kiro credentials", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("refreshes the access token and retries once on a 403", async () => {
+    let issued = 0;
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (url === "https://oidc.us-east-1.amazonaws.com/token") {
+        issued++;
+        return Response.json({ accessToken: `aoa-${issued}`, expiresIn: 3600 });
+      }
+      const auth = (init.headers as Record<string, string>).Authorization;
+      if (auth === "Bearer aoa-1") {
+        return Response.json(
+          { message: "The bearer token included in the request is invalid." },
+          { status: 403 },
+        );
+      }
+      return new Response(new Uint8Array(0));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await app.request(
+      "/q.us-east-1.amazonaws.com/v1/messages",
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": JSON.stringify({
+            refreshToken: "aor-refresh",
+            clientId: "client",
+            clientSecret: "secret",
+            profileArn: "arn:aws:codewhisperer:us-east-1:1:profile/P",
+          }),
+        },
+        body: JSON.stringify({
+          model: "claude-haiku-4-5",
+          max_tokens: 100,
+          messages: [{ role: "user", content: "hi" }],
+        }),
+      },
+      env,
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("application/json");
+    expect(await res.json()).toMatchObject({
+      type: "message",
+      model: "claude-haiku-4.5",
+      content: [],
+      stop_reason: "end_turn",
+    });
+
+    const upstreamCalls = fetchMock.mock.calls.filter(([url]) =>
+      url.endsWith("/generateAssistantResponse"),
+    );
+    expect(upstreamCalls).toHaveLength(2);
+
+    const [, retry] = upstreamCalls[1];
+    expect((retry.headers as Record<string, string>).Authorization).toBe(
+      "Bearer aoa-2",
+    );
+    expect(JSON.parse(retry.body as string).profileArn).toBe(
+      "arn:aws:codewhisperer:us-east-1:1:profile/P",
+    );
+  });
+});
+
+describe("responses upstream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("ends a failed stream with the error event", async () => {
+    const sse = [
+      {
+        type: "response.created",
+        response: { id: "resp_1", model: "gpt-5" },
+      },
+      {
+        type: "response.failed",
+        response: { error: { message: "server overloaded" } },
+      },
+    ]
+      .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+      .join("");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(sse, {
+            headers: { "content-type": "text/event-stream" },
+          }),
+      ),
+    );
+
+    const res = await app.request(
+      "/api.openai.com/v1/responses/v1/messages",
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": "client-key",
+        },
+        body: JSON.stringify({
+          model: "gpt-5",
+          max_tokens: 100,
+          stream: true,
+          messages: [{ role: "user", content: "hi" }],
+        }),
+      },
+      {} as Env,
+    );
+    const text = await res.text();
+
+    expect(text).toContain("event: error");
+    expect(text).toContain("server overloaded");
+    expect(text).not.toContain("message_delta");
+    expect(text).not.toContain("message_stop");
+  });
+});
+
+describe("adapter retry policy", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("gives Copilot a single retry on rate limits", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url === "https://api.github.com/copilot_internal/v2/token") {
+        return Response.json({
+          token: "copilot-token",
+          expires_at: Math.floor(Date.now() / 1000) + 1800,
+        });
+      }
+      if (url === "https://api.githubcopilot.com/models") {
+        return Response.json({ data: [] });
+      }
+      return Response.json(
+        { error: { message: "rate limited" } },
+        { status: 429, headers: { "retry-after": "0" } },
+      );
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await app.request(
+      "/api.githubcopilot.com/v1/messages",
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": "gho_retry",
+        },
+        body: JSON.stringify({
+          model: "gpt-4.1",
+          max_tokens: 100,
+          messages: [{ role: "user", content: "hi" }],
+        }),
+      },
+      {} as Env,
+    );
+
+    expect(res.status).toBe(429);
+    const completions = fetchMock.mock.calls.filter(([url]) =>
+      url.endsWith("/chat/completions"),
+    );
+    expect(completions).toHaveLength(2);
+  });
+});
+
+describe("model listing", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("serves Kiro ListAvailableModels in Anthropic's shape", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      expect(url).toBe(
+        "https://q.eu-central-1.amazonaws.com/ListAvailableModels?origin=AI_EDITOR",
+      );
+      return Response.json({
+        models: [
+          { modelId: "claude-sonnet-4.5", modelName: "Claude Sonnet 4.5" },
+          { modelId: "claude-haiku-4.5", modelName: "Claude Haiku 4.5" },
+        ],
+      });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await app.request(
+      "/q.eu-central-1.amazonaws.com/v1/models",
+      { headers: { "x-api-key": "aoa-list-token" } },
+      env,
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      data: [
+        {
+          type: "model",
+          id: "claude-sonnet-4.5",
+          display_name: "Claude Sonnet 4.5",
+          created_at: "1970-01-01T00:00:00Z",
+        },
+        {
+          type: "model",
+          id: "claude-haiku-4.5",
+          display_name: "Claude Haiku 4.5",
+          created_at: "1970-01-01T00:00:00Z",
+        },
+      ],
+      has_more: false,
+      first_id: "claude-sonnet-4.5",
+      last_id: "claude-haiku-4.5",
+    });
+    expect((fetchMock.mock.calls[0] as any)[1].headers.Authorization).toBe(
+      "Bearer aoa-list-token",
+    );
+  });
+
+  it("lists OpenAI models with configured aliases first", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        expect(url).toBe("https://api.openai.com/v1/models");
+        return Response.json({
+          object: "list",
+          data: [
+            { id: "gpt-5", object: "model", created: 1754438400 },
+            { id: "gpt-5-mini", object: "model", created: 1754438400 },
+          ],
+        });
+      }),
+    );
+    const aliasEnv = {
+      MODEL_ROUTES: JSON.stringify([
+        { match: "claude-sonnet-4-5", model: "gpt-5" },
+        { match: "claude-*haiku*", model: "gpt-5-mini" },
+        {
+          match: "claude-opus-4-1",
+          model: "gemini-2.5-pro",
+          upstream: "generativelanguage.googleapis.com*",
+        },
+      ]),
+    } as Env;
+    const get = (path: string) =>
+      app.request(path, { headers: { "x-api-key": "sk-list" } }, aliasEnv);
+
+    const res = await get("/api.openai.com/v1/models");
+    const body: any = await res.json();
+    expect(body.data.map((model: any) => model.id)).toEqual([
+      "claude-sonnet-4-5",
+      "gpt-5",
+      "gpt-5-mini",
+    ]);
+    expect(body.data[1].created_at).toBe("2025-08-06T00:00:00.000Z");
+
+    const alias = await get("/api.openai.com/v1/models/claude-sonnet-4-5");
+    expect(await alias.json()).toEqual({
+      type: "model",
+      id: "claude-sonnet-4-5",
+      display_name: "gpt-5",
+      created_at: "2025-08-06T00:00:00.000Z",
+    });
+
+    const missing = await get("/api.openai.com/v1/models/claude-opus-4-1");
+    expect(missing.status).toBe(404);
+    expect(((await missing.json()) as any).error.type).toBe("not_found_error");
+  });
+
+  it("pages the list and rejects a missing base url", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({
+          object: "list",
+          data: ["gpt-5", "gpt-5-mini", "gpt-4.1"].map((id) => ({
+            id,
+            object: "model",
+          })),
+        }),
+      ),
+    );
+    const get = (path: string) =>
+      app.request(path, { headers: { "x-api-key": "sk-list" } }, env);
+
+    const first = await get("/api.openai.com/v1/models?limit=2");
+    expect(await first.json()).toMatchObject({
+      has_more: true,
+      first_id: "gpt-5",
+      last_id: "gpt-5-mini",
+    });
+
+    const next = await get(
+      "/api.openai.com/v1/models?limit=2&after_id=gpt-5-mini",
+    );
+    expect(await next.json()).toMatchObject({
+      data: [{ id: "gpt-4.1" }],
+      has_more: false,
+    });
+
+    const missing = await get("/v1/models");
+    expect(missing.status).toBe(400);
+    expect(((await missing.json()) as any).error.type).toBe(
+      "invalid_request_error",
+    );
+  });
+
+  it("lists Gemini models behind a multi segment base url", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init: RequestInit) => {
+        expect((init.headers as Record<string, string>)["x-goog-api-key"]).toBe(
+          "gemini-key",
+        );
+        if (!url.includes("pageToken")) {
+          return Response.json({
+            models: [
+              {
+                name: "models/gemini-2.5-pro",
+                displayName: "Gemini 2.5 Pro",
+                supportedGenerationMethods: ["generateContent"],
+              },
+              {
+                name: "models/text-embedding-004",
+                supportedGenerationMethods: ["embedContent"],
+              },
+            ],
+            nextPageToken: "page-2",
+          });
+        }
+        return Response.json({
+          models: [
+            {
+              name: "models/gemini-2.5-flash",
+              displayName: "Gemini 2.5 Flash",
+              supportedGenerationMethods: ["generateContent"],
+            },
+          ],
+        });
+      }),
+    );
+
+    const res = await app.request(
+      "/generativelanguage.googleapis.com/v1beta/v1/models",
+      { headers: { "x-api-key": "gemini-key" } },
+      env,
+    );
+    const body: any = await res.json();
+    expect(body.data.map((model: any) => model.id)).toEqual([
+      "gemini-2.5-pro",
+      "gemini-2.5-flash",
+    ]);
+    expect(body.last_id).toBe("gemini-2.5-flash");
+  });
+
+  it("lists models next to a Responses base url", async () => {
+    const fetchMock = vi.fn(async (_url: string) =>
+      Response.json({ object: "list", data: [{ id: "gpt-5" }] }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await app.request(
+      "/gateway.example.com/openai/v1/responses/v1/models",
+      { headers: { "x-api-key": "sk-list" } },
+      env,
+    );
+
+    expect(res.status).toBe(200);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "https://gateway.example.com/openai/v1/models",
+    );
+  });
+
+  it("passes upstream rejections on as Claude errors", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json(
+          {
+            error: {
+              message: "Incorrect API key provided",
+              code: "invalid_api_key",
+            },
+          },
+          { status: 401 },
+        ),
+      ),
+    );
+
+    const res = await app.request(
+      "/api.openai.com/v1/models",
+      { headers: { "x-api-key": "sk-bad" } },
+      env,
+    );
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({
+      type: "error",
+      error: {
+        type: "authentication_error",
+        message: "Incorrect API key provided",
+      },
+    });
+  });
+});
+
+describe("copilot login", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs the device flow against the configured GitHub", async () => {
+    let polls = 0;
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (url === "http://localhost:8788/login/device/code") {
+        return Response.json({
+          device_code: "device-1",
+          user_code: "ABCD-1234",
+          verification_uri: "http://localhost:8788/login/device",
+          expires_in: 900,
+          interval: 5,
+        });
+      }
+      expect(url).toBe("http://localhost:8788/login/oauth/access_token");
+      expect(JSON.parse(init.body as string).device_code).toBe("device-1");
+      return Response.json(
+        ++polls === 1
+          ? { error: "authorization_pending" }
+          : { access_token: "ghu_token", token_type: "bearer" },
+      );
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const githubEnv = { GITHUB_BASE_URL: "http://localhost:8788" } as Env;
+
+    const start = await app.request(
+      "/copilot/login",
+      { headers: { accept: "application/json" } },
+      githubEnv,
+    );
+    expect(await start.json()).toMatchObject({
+      device_code: "device-1",
+      user_code: "ABCD-1234",
+      poll_url: "/copilot/login/poll",
+    });
+
+    const page = await app.request(
+      "/copilot/login",
+      { headers: { accept: "text/html" } },
+      githubEnv,
+    );
+    expect(await page.text()).toContain("ABCD-1234");
+
+    const poll = () =>
+      app.request(
+        "/copilot/login/poll",
+        {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ device_code: "device-1" }),
+        },
+        githubEnv,
+      );
+    expect(await (await poll()).json()).toEqual({ status: "pending" });
+    expect(await (await poll()).json()).toEqual({
+      status: "complete",
+      access_token: "ghu_token",
+    });
+  });
+
+  it("escapes device flow fields in the login page", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({
+          device_code: "</script><script>alert(1)</script>",
+          user_code: "<img src=x onerror=alert(1)>",
+          verification_uri: "javascript:alert(1)",
+          expires_in: 900,
+          interval: 5,
+        }),
+      ),
+    );
+
+    const page = await (
+      await app.request("/copilot/login", { headers: { accept: "text/html" } })
+    ).text();
+    expect(page).toContain("&lt;img src=x onerror=alert(1)&gt;");
+    expect(page).not.toContain("<img");
+    expect(page).not.toContain("href=");
+    expect(page).not.toContain("</script><script>");
+  });
+});
+
+describe("chat completions front door", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const postChatCompletions = (path: string, body: Record<string, any>) =>
+    app.request(
+      path,
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: "Bearer client-key",
+        },
+        body: JSON.stringify(body),
+      },
+      env,
+    );
+
+  it("serves OpenAI clients from an Anthropic upstream", async () => {
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) =>
+      Response.json({
+        id: "msg_1",
+        type: "message",
+        role: "assistant",
+        model: "claude-haiku-4-5",
+        content: [{ type: "text", text: "hello" }],
+        stop_reason: "end_turn",
+        usage: { input_tokens: 4, output_tokens: 1 },
+      }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await postChatCompletions(
+      "/api.anthropic.com/v1/chat/completions",
+      {
+        model: "claude-haiku-4-5",
+        messages: [
+          { role: "system", content: "Be brief." },
+          { role: "user", content: "hi" },
+        ],
+      },
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      object: "chat.completion",
+      choices: [
+        {
+          message: { role: "assistant", content: "hello" },
+          finish_reason: "stop",
+        },
+      ],
+      usage: { prompt_tokens: 4, completion_tokens: 1, total_tokens: 5 },
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      system: [{ type: "text", text: "Be brief." }],
+      messages: [{ role: "user", content: [{ type: "text", text: "hi" }] }],
+      max_tokens: 8192,
+    });
+  });
+
+  it("streams chunks and reports upstream errors in OpenAI's shape", async () => {
+    const sse = [
+      {
+        type: "message_start",
+        message: {
+          id: "msg_2",
+          type: "message",
+          role: "assistant",
+          model: "claude-haiku-4-5",
+          content: [],
+          stop_reason: null,
+          usage: { input_tokens: 4, output_tokens: 0 },
+        },
+      },
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "text_delta", text: "hel" },
+      },
+      {
+        type: "message_delta",
+        delta: { stop_reason: "end_turn" },
+        usage: { output_tokens: 1 },
+      },
+      { type: "message_stop" },
+    ]
+      .map(
+        (event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+      )
+      .join("");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(sse)),
+    );
+
+    const res = await postChatCompletions(
+      "/api.anthropic.com/v1/chat/completions",
+      {
+        model: "claude-haiku-4-5",
+        stream: true,
+        messages: [{ role: "user", content: "hi" }],
+      },
+    );
+    const lines = (await res.text())
+      .split("\n")
+      .filter((line) => line.startsWith("data: "));
+
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+    expect(lines.at(-1)).toBe("data: [DONE]");
+    const chunks = lines.slice(0, -1).map((line) => JSON.parse(line.slice(6)));
+    expect(chunks.map((chunk) => chunk.choices[0].delta.content)).toEqual([
+      "",
+      "hel",
+      undefined,
+    ]);
+    expect(chunks.at(-1).choices[0].finish_reason).toBe("stop");
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json(
+          {
+            type: "error",
+            error: { type: "invalid_request_error", message: "bad model" },
+          },
+          { status: 400 },
+        ),
+      ),
+    );
+    const failed = await postChatCompletions(
+      "/api.anthropic.com/v1/chat/completions",
+      { model: "nope", messages: [{ role: "user", content: "hi" }] },
+    );
+    expect(failed.status).toBe(400);
+    expect(await failed.json()).toEqual({
+      error: {
+        message: "bad model",
+        type: "invalid_request_error",
+        param: "",
+        code: "",
+      },
+    });
+  });
+});
+
+describe("responses front door", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("streams Responses events from an OpenAI chat upstream", async () => {
+    const chunks = [
+      { choices: [{ index: 0, delta: { role: "assistant", content: "Hi" } }] },
+      { choices: [{ index: 0, delta: {}, finish_reason: "stop" }] },
+      {
+        choices: [],
+        usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+      },
+    ]
+      .map(
+        (chunk) =>
+          `data: ${JSON.stringify({ id: "chatcmpl-1", object: "chat.completion.chunk", created: 0, model: "gpt-5", ...chunk })}\n\n`,
+      )
+      .join("");
+    const fetchMock = vi.fn(
+      async () => new Response(chunks + "data: [DONE]\n\n"),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await app.request(
+      "/api.openai.com/v1/responses",
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: "Bearer client-key",
+        },
+        body: JSON.stringify({
+          model: "gpt-5",
+          instructions: "Be brief.",
+          input: "hi",
+          stream: true,
+          store: false,
+        }),
+      },
+      env,
+    );
+
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+    const events = (await res.text())
+      .split("\n")
+      .filter((line) => line.startsWith("data: "))
+      .map((line) => JSON.parse(line.slice(6)));
+
+    expect(events.map((event) => event.type)).toContain(
+      "response.output_text.delta",
+    );
+    const completed = events.at(-1);
+    expect(completed.type).toBe("response.completed");
+    expect(completed.response.output).toMatchObject([
+      {
+        type: "message",
+        role: "assistant",
+        content: [{ type: "output_text", text: "Hi" }],
+      },
+    ]);
+
+    const [url, init] = fetchMock.mock.calls[0] as any;
+    expect(url).toBe("https://api.openai.com/v1/chat/completions");
+    expect(JSON.parse(init.body).messages).toMatchObject([
+      { role: "system", content: [{ type: "text", text: "Be brief." }] },
+      { role: "user", content: [{ type: "text", text: "hi" }] },
+    ]);
+  });
+
+  it("rejects server side conversation state", async () => {
+    const res = await app.request(
+      "/api.openai.com/v1/responses",
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: "Bearer client-key",
+        },
+        body: JSON.stringify({
+          model: "gpt-5",
+          input: "hi",
+          previous_response_id: "resp_1",
+        }),
+      },
+      env,
+    );
+
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).error.type).toBe(
+      "invalid_request_error",
+    );
+  });
+});
+
+describe("count tokens forwarding", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("routes only the model for Anthropic upstreams", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      Response.json({ input_tokens: 12 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await app.request(
+      "/api.anthropic.com/v1/messages/count_tokens",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json", "x-api-key": "sk" },
+        body: JSON.stringify({
+          model: "claude-sonnet-4-5",
+          messages: [{ role: "user", content: "hi" }],
+        }),
+      },
+      {
+        MODEL_ROUTES: JSON.stringify([
+          {
+            match: "claude-sonnet-4-5",
+            model: "claude-opus-4-5",
+            reasoning_effort: "high",
+          },
+        ]),
+      } as Env,
+    );
+
+    expect(await res.json()).toEqual({ input_tokens: 12 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.anthropic.com/v1/messages/count_tokens");
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: "claude-opus-4-5",
+      messages: [{ role: "user", content: "hi" }],
+    });
+  });
+});
@@ -1,12 +1,53 @@
 import { createAdapter } from "../adapters/factory";
+import {
+  convertDocumentsToText,
+  resolveContentSources,
+} from "../converters/document";
+import {
+  claudeError,
+  normalizeClaudeErrorType,
+  statusForClaudeErrorType,
+  UpstreamResponseError,
+} from "../converters/error";
+import { ClaudeAnyContentRequest, ClaudeErrorResponse } from "../types/claude";
 import { OpenAIChatCompletionsResponse } from "../types/openai";
+import { FallbackTarget, ModelRoute } from "../types/routing";
+import {
+  getClientApiKey,
+  isProxyApiKey,
+  redactAuthHeaders,
+  withoutClientAuthHeaders,
+} from "../utils/auth";
+import { fetchWithRetry } from "../utils/retry";
+import {
+  applyModelRoutes,
+  loadFallbackChains,
+  loadModelRoutes,
+  resolveFallbackChain,
+  useStrictToolSchemas,
+} from "../utils/routing";
 import { extractBaseUrl } from "../utils/url";
 
+/**
+ * Error types that move a fallback chain on to its next target by default
+ */
+const DEFAULT_FALLBACK_ON = [
+  "rate_limit_error",
+  "overloaded_error",
+  "api_error",
+];
+
+/**
+ * Response header naming the upstream that finally answered
+ */
+export const UPSTREAM_HEADER = "x-anythropic-upstream";
+
+type UpstreamOutcome =
+  { response: Response } | { claudeError: ClaudeErrorResponse; status: number };
+
 export async function handleClaudeToOpenAI(c: any) {
   try {
-    const apiKey =
-      c.req.header("x-api-key") ||
-      c.req.header("authorization")?.replace("Bearer ", "");
+    const apiKey = getClientApiKey(c);
 
     if (!apiKey) {
       return c.json(
@@ -28,96 +69,122 @@ export async function handleClaudeToOpenAI(c: any) {
       );
     }
 
-    const originalHeaders = c.req.header();
-    const adapter = createAdapter(baseUrl);
-    const claudeRequest = await c.req.json();
-    console.log("claudeRequest: ", claudeRequest);
-    const openaiRequest = adapter.transformRequest(claudeRequest);
-    const authHeaders = await adapter.getAuthHeaders(apiKey);
-
-    const targetUrl = `https://${baseUrl}${adapter.getCompletionPath()}`;
-
-    // Remove proxy authentication headers to prevent passing them upstream
-    const {
-      "x-api-key": _,
-      authorization: __,
-      ...headersWithoutAuth
-    } = originalHeaders;
-
-    const openAIResponse = await fetch(targetUrl, {
-      method: "POST",
-      headers: {
-        ...headersWithoutAuth, // Pass through original headers in case some provider checks them( like kimi)
-        ...authHeaders, // Add upstream authentication
-      },
-      body: JSON.stringify(openaiRequest),
-    });
+    const claudeRequest: ClaudeAnyContentRequest = await c.req.json();
+    return await proxyClaudeRequest(c, claudeRequest, baseUrl, apiKey);
+  } catch (error: any) {
+    console.error("Internal server error: ", error);
+    return c.json(
+      { error: { message: `Internal server error: ${error.message}` } },
+      500,
+    );
+  }
+}
+
+/**
+ * Send a Claude request through routing and fallback chains, answering with
+ * a Claude message, SSE stream or error
+ */
+export async function proxyClaudeRequest(
+  c: any,
+  claudeRequest: ClaudeAnyContentRequest,
+  baseUrl: string,
+  apiKey: string,
+): Promise<Response> {
+  try {
+    try {
+      await resolveContentSources(claudeRequest, c.env, apiKey);
+    } catch (error) {
+      // A missing file id
+      if (error instanceof UpstreamResponseError) {
+        return c.json(
+          error.toClaudeError(),
+          statusForClaudeErrorType(error.type),
+        );
+      }
+      throw error;
+    }
+
+    const [routes, chains] = await Promise.all([
+      loadModelRoutes(c.env),
+      loadFallbackChains(c.env),
+    ]);
 
-    if (!openAIResponse.ok) {
-      const responseClone = openAIResponse.clone();
-      const responseContentType =
-        responseClone.headers.get("content-type") || "";
-      let responseBody: unknown = undefined;
+    // Without a matching chain the upstream from the path is the only target
+    const chain = resolveFallbackChain(claudeRequest.model, chains, baseUrl);
+    const targets: FallbackTarget[] = chain?.targets ?? [{ upstream: baseUrl }];
+    const fallbackOn = chain?.fallback_on ?? DEFAULT_FALLBACK_ON;
 
+    for (const [index, target] of targets.entries()) {
+      const isLast = index === targets.length - 1;
+
+      // Worker secrets are only spent for clients holding the proxy key
+      if (target.api_key_env && !isProxyApiKey(c.env, apiKey)) {
+        console.warn(
+          `Skipping ${target.upstream}, ${target.api_key_env} needs PROXY_API_KEY`,
+        );
+        if (isLast) {
+          return claudeError(
+            c,
+            "authentication_error",
+            `${target.upstream} uses a worker secret, send PROXY_API_KEY as your key`,
+          );
+        }
+        continue;
+      }
+
+      const targetApiKey = target.api_key_env
+        ? c.env?.[target.api_key_env]
+        : apiKey;
+
+      if (!targetApiKey) {
+        console.warn(
+          `No credential in ${target.api_key_env} for ${target.upstream}`,
+        );
+        if (isLast) {
+          return claudeError(
+            c,
+            "api_error",
+            `Missing secret ${target.api_key_env} for ${target.upstream}`,
+          );
+        }
+        continue;
+      }
+
+      let outcome: UpstreamOutcome;
       try {
-        if (responseContentType.includes("application/json")) {
-          responseBody = await responseClone.json();
-        } else {
-          responseBody = await responseClone.text();
+        outcome = await sendToUpstream(
+          c,
+          target,
+          structuredClone(claudeRequest),
+          targetApiKey,
+          routes,
+        );
+      } catch (error) {
+        if (isLast || !fallbackOn.includes("api_error")) {
+          throw error;
         }
-      } catch (readError: any) {
-        responseBody = {
-          error: "Failed to read upstream response body",
-          message: readError?.message || String(readError),
-        };
+        console.log(
+          `upstream ${target.upstream} failed, falling back: `,
+          error,
+        );
+        continue;
       }
 
-      console.log("http error from upstream: ", {
-        request: {
-          url: targetUrl,
-          method: "POST",
-          headers: {
-            ...headersWithoutAuth,
-            ...authHeaders,
-          },
-          body: openaiRequest,
-        },
-        response: {
-          url: openAIResponse.url,
-          status: openAIResponse.status,
-          statusText: openAIResponse.statusText,
-          headers: Object.fromEntries(openAIResponse.headers.entries()),
-          body: responseBody,
-        },
-      });
-      const claudeError = await adapter.transformHttpError(openAIResponse);
-      return c.json(claudeError, openAIResponse.status);
-    }
+      if ("response" in outcome) {
+        return withUpstreamHeader(outcome.response, target.upstream);
+      }
 
-    console.log("check stream", openaiRequest);
-    if (openaiRequest.stream) {
-      // Pass model information to stream handler
-      return adapter.handleStreamResponse(
-        c,
-        openAIResponse,
-        openaiRequest.model,
-      );
-    }
+      const { claudeError: upstreamError, status } = outcome;
+      if (!isLast && fallbackOn.includes(upstreamError.error.type)) {
+        console.log(
+          `upstream ${target.upstream} returned ${upstreamError.error.type}, falling back to ${targets[index + 1].upstream}`,
+        );
+        continue;
+      }
 
-    // Handle Kiro adapter specially since it returns AWS Event Stream format
-    if (adapter.provider === "kiro") {
-      return adapter.handleStreamResponse(
-        c,
-        openAIResponse,
-        openaiRequest.model,
-      );
+      return withUpstreamHeader(c.json(upstreamError, status), target.upstream);
     }
-
-    // Default handling for other adapters
-    const openAIResult: OpenAIChatCompletionsResponse =
-      await adapter.handleJsonResponse(openAIResponse);
-    const claudeResponse = adapter.transformResponse(openAIResult);
-    return c.json(claudeResponse, openAIResponse.status);
+    throw new Error(`No upstream targets for ${claudeRequest.model}`);
   } catch (error: any) {
     console.error("Internal server error: ", error);
     return c.json(
@@ -126,3 +193,186 @@ export async function handleClaudeToOpenAI(c: any) {
     );
   }
 }
+
+/**
+ * Run the request against a single upstream, returning either the response
+ * for the client or the converted error so the caller can decide to fall back
+ */
+async function sendToUpstream(
+  c: any,
+  target: FallbackTarget,
+  claudeRequest: ClaudeAnyContentRequest,
+  apiKey: string,
+  routes: ModelRoute[],
+): Promise<UpstreamOutcome> {
+  const baseUrl = target.upstream;
+  const originalHeaders = c.req.header();
+  const adapter = createAdapter(baseUrl);
+
+  if (target.model) {
+    claudeRequest.model = target.model;
+  }
+  applyModelRoutes(claudeRequest, routes, adapter.defaultModelRoutes, baseUrl);
+  if (
+    adapter.toolSchemaProfile === "openai" &&
+    useStrictToolSchemas(c.env, baseUrl)
+  ) {
+    adapter.toolSchemaProfile = "openai-strict";
+  }
+  let upstreamRequest: any;
+  try {
+    if (!adapter.supportsDocuments) {
+      await convertDocumentsToText(claudeRequest);
+    }
+    console.log("claudeRequest: ", claudeRequest);
+    upstreamRequest = adapter.transformRequest(claudeRequest);
+    await adapter.prepareRequest(
+      upstreamRequest,
+      claudeRequest,
+      apiKey,
+      baseUrl,
+    );
+  } catch (error) {
+    // Rejected before sending, e.g. an oversized document or a capability
+    // the model lacks
+    if (error instanceof UpstreamResponseError) {
+      return {
+        claudeError: error.toClaudeError(),
+        status: statusForClaudeErrorType(error.type),
+      };
+    }
+    throw error;
+  }
+  let authHeaders = await adapter.getAuthHeaders(apiKey);
+
+  const targetUrl = `https://${baseUrl}${adapter.getCompletionPath(claudeRequest)}`;
+
+  // Remove proxy authentication headers to prevent passing them upstream
+  const headersWithoutAuth = withoutClientAuthHeaders(originalHeaders);
+
+  // Retries only happen here, before anything is streamed to the client
+  const send = () =>
+    fetchWithRetry(
+      targetUrl,
+      (attempt, maxAttempts) => ({
+        method: "POST",
+        headers: {
+          ...headersWithoutAuth, // Pass through original headers in case some provider checks them( like kimi)
+          ...authHeaders, // Add upstream authentication
+          ...adapter.getAttemptHeaders(attempt, maxAttempts),
+        },
+        body: JSON.stringify(upstreamRequest),
+      }),
+      adapter.retryConfig,
+    );
+
+  let openAIResponse = await send();
+  if (
+    !openAIResponse.ok &&
+    (await adapter.refreshAuth(openAIResponse, apiKey))
+  ) {
+    await openAIResponse.body?.cancel();
+    authHeaders = await adapter.getAuthHeaders(apiKey);
+    openAIResponse = await send();
+  }
+
+  if (!openAIResponse.ok) {
+    const responseClone = openAIResponse.clone();
+    const responseContentType = responseClone.headers.get("content-type") || "";
+    let responseBody: unknown = undefined;
+
+    try {
+      if (responseContentType.includes("application/json")) {
+        responseBody = await responseClone.json();
+      } else {
+        responseBody = await responseClone.text();
+      }
+    } catch (readError: any) {
+      responseBody = {
+        error: "Failed to read upstream response body",
+        message: readError?.message || String(readError),
+      };
+    }
+
+    console.log("http error from upstream: ", {
+      request: {
+        url: targetUrl,
+        method: "POST",
+        headers: redactAuthHeaders({
+          ...headersWithoutAuth,
+          ...authHeaders,
+        }),
+        body: upstreamRequest,
+      },
+      response: {
+        url: openAIResponse.url,
+        status: openAIResponse.status,
+        statusText: openAIResponse.statusText,
+        headers: Object.fromEntries(openAIResponse.headers.entries()),
+        body: responseBody,
+      },
+    });
+    const claudeError = normalizeClaudeErrorType(
+      await adapter.transformHttpError(openAIResponse),
+      openAIResponse.status,
+    );
+    return { claudeError, status: openAIResponse.status };
+  }
+
+  console.log("check stream", upstreamRequest);
+  if (claudeRequest.stream) {
+    // Pass model information to stream handler
+    return {
+      response: await adapter.handleStreamResponse(
+        c,
+        openAIResponse,
+        claudeRequest.model,
+        claudeRequest.stop_sequences,
+      ),
+    };
+  }
+
+  let openAIResult: OpenAIChatCompletionsResponse;
+  try {
+    openAIResult = await adapter.handleJsonResponse(openAIResponse);
+  } catch (error) {
+    // Reported mid-body, so it can still be returned or fallen back from
+    if (error instanceof UpstreamResponseError) {
+      return {
+        claudeError: error.toClaudeError(),
+        status: statusForClaudeErrorType(error.type),
+      };
+    }
+    throw error;
+  }
+  const claudeResponse = adapter.transformResponse(
+    openAIResult,
+    claudeRequest.model,
+    claudeRequest.stop_sequences,
+  );
+  return {
+    response: c.json(
+      claudeResponse,
+      openAIResponse.status,
+      adapter.getResponseHeaders(),
+    ),
+  };
+}
+
+/**
+ * The proxy's own `x-anythropic-*` headers, e.g. which upstream answered
+ */
+export function getProxyHeaders(response: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (name.startsWith("x-anythropic-")) {
+      headers[name] = value;
+    }
+  });
+  return headers;
+}
+
+function withUpstreamHeader(response: Response, upstream: string): Response {
+  response.headers.set(UPSTREAM_HEADER, upstream);
+  return response;
+}
@@ -0,0 +1,146 @@
+import { stream } from "hono/streaming";
+import { convertClaudeErrorToOpenAI } from "../converters/error";
+import {
+  convertClaudeResponseToResponses,
+  convertClaudeStreamToResponses,
+  convertResponsesRequestToClaude,
+  createResponsesClientStreamState,
+} from "../converters/responses-client";
+import { ClaudeStreamResponse } from "../types/claude";
+import { ResponsesRequest } from "../types/responses";
+import { getClientApiKey } from "../utils/auth";
+import { readSseData } from "../utils/sse";
+import { extractBaseUrl } from "../utils/url";
+import { getProxyHeaders, proxyClaudeRequest } from "./proxy";
+
+/**
+ * OpenAI Responses API front door for Codex style clients. Like
+ * `/v1/chat/completions`, the request is converted to Claude and proxied to
+ * any upstream. Requests are stateless, the client sends the full input.
+ */
+export async function handleResponses(c: any) {
+  try {
+    const apiKey = getClientApiKey(c);
+
+    if (!apiKey) {
+      return c.json(
+        convertClaudeErrorToOpenAI({
+          error: {
+            type: "authentication_error",
+            message: "Missing x-api-key or authorization header",
+          },
+        }),
+        400,
+      );
+    }
+
+    const baseUrl = extractBaseUrl(c.req.path, "/v1/responses");
+    if (!baseUrl) {
+      return c.json(
+        convertClaudeErrorToOpenAI({
+          error: {
+            type: "invalid_request_error",
+            message:
+              "Could not extract base URL from path. Format: /<base-url>/v1/responses",
+          },
+        }),
+        400,
+      );
+    }
+
+    const responsesRequest: ResponsesRequest = await c.req.json();
+    if (responsesRequest.previous_response_id) {
+      return c.json(
+        convertClaudeErrorToOpenAI({
+          error: {
+            type: "invalid_request_error",
+            message:
+              "previous_response_id is not supported, send the full input with store: false",
+          },
+        }),
+        400,
+      );
+    }
+
+    const claudeRequest = convertResponsesRequestToClaude(responsesRequest);
+    const response = await proxyClaudeRequest(
+      c,
+      claudeRequest,
+      baseUrl,
+      apiKey,
+    );
+    const headers = getProxyHeaders(response);
+
+    if (!response.ok) {
+      return c.json(
+        convertClaudeErrorToOpenAI(await response.json()),
+        response.status,
+        headers,
+      );
+    }
+
+    if (
+      (response.headers.get("content-type") || "").includes("text/event-stream")
+    ) {
+      return streamAsResponses(c, response, claudeRequest.model, headers);
+    }
+
+    return c.json(
+      convertClaudeResponseToResponses(await response.json()),
+      200,
+      headers,
+    );
+  } catch (error: any) {
+    console.error("Internal server error: ", error);
+    return c.json(
+      convertClaudeErrorToOpenAI({
+        error: {
+          type: "api_error",
+          message: `Internal server error: ${error.message}`,
+        },
+      }),
+      500,
+    );
+  }
+}
+
+/**
+ * Re-emit a Claude SSE stream as Responses API events. A Claude error event
+ * ends the stream with `response.failed`.
+ */
+function streamAsResponses(
+  c: any,
+  claudeResponse: Response,
+  model: string,
+  headers: Record<string, string>,
+) {
+  const state = createResponsesClientStreamState(model);
+  c.header("Content-Type", "text/event-stream");
+  c.header("Cache-Control", "no-cache");
+  for (const [name, value] of Object.entries(headers)) {
+    c.header(name, value);
+  }
+
+  return stream(c, async (streamWriter) => {
+    try {
+      for await (const data of readSseData(claudeResponse.body!)) {
+        const event: ClaudeStreamResponse = JSON.parse(data);
+
+        for (const responsesEvent of convertClaudeStreamToResponses(
+          event,
+          state,
+        )) {
+          await streamWriter.write(
+            `event: ${responsesEvent.type}\ndata: ${JSON.stringify(responsesEvent)}\n\n`,
+          );
+        }
+
+        if (event.type === "error") {
+          return;
+        }
+      }
+    } finally {
+      await streamWriter.close();
+    }
+  });
+}
@@ -1,121 +1,69 @@
-import { encodingForModel } from "js-tiktoken";
-import {
-  ClaudeAnyContentMessage,
-  ClaudeContent,
-  ClaudeTool,
-} from "../types/claude";
-
-const getEncodingForModel = (modelName: string): string => {
-  // Default to cl100k_base for all models
-  return "cl100k_base";
-};
-
-const countClaudeContentTokens = (
-  content: ClaudeContent,
-  encoding: any,
-): number => {
-  let tokens = 0;
-
-  switch (content.type) {
-    case "text":
-    case "thinking":
-      tokens += encoding.encode(content.text || content.thinking || "").length;
-      break;
-
-    case "tool_use":
-      tokens += 8; // tool call overhead
-      tokens += encoding.encode(content.name || "").length;
-      if (content.input)
-        tokens += encoding.encode(JSON.stringify(content.input)).length;
-      break;
-
-    case "tool_result":
-      tokens += 6; // tool result overhead
-      if (content.content) {
-        if (typeof content.content === "string") {
-          tokens += encoding.encode(content.content).length;
-        } else if (Array.isArray(content.content)) {
-          for (const item of content.content) {
-            tokens +=
-              typeof item === "string"
-                ? encoding.encode(item).length
-                : encoding.encode(JSON.stringify(item)).length;
-          }
-        } else {
-          tokens += encoding.encode(JSON.stringify(content.content)).length;
-        }
-      }
-      break;
-
-    case "image":
-      tokens += 200; // image overhead
-      if (content.source?.data) {
-        tokens += Math.ceil(content.source.data.length / 1000);
-      }
-      break;
-
-    default:
-      tokens += 4;
+import { AnthropicAdapter } from "../adapters/anthropic";
+import { createAdapter } from "../adapters/factory";
+import { ClaudeAnyContentRequest } from "../types/claude";
+import { getClientApiKey, withoutClientAuthHeaders } from "../utils/auth";
+import { fetchWithRetry } from "../utils/retry";
+import { loadModelRoutes, resolveModelRoute } from "../utils/routing";
+import { countClaudeTokens } from "../utils/tokens";
+import { extractBaseUrl } from "../utils/url";
+
+/**
+ * Anthropic compatible upstreams count tokens themselves
+ */
+const forwardCountTokens = async (
+  c: any,
+  adapter: AnthropicAdapter,
+  baseUrl: string,
+) => {
+  const apiKey = getClientApiKey(c);
+  if (!apiKey) {
+    return c.json(
+      { error: { message: "Missing x-api-key or authorization header" } },
+      400,
+    );
   }
 
-  return tokens;
-};
-
-const countClaudeMessageTokens = (
-  message: ClaudeAnyContentMessage,
-  encoding: any,
-): number => {
-  let tokens = 4; // role overhead
-
-  if (typeof message.content === "string") {
-    tokens += encoding.encode(message.content).length;
-  } else if (Array.isArray(message.content)) {
-    for (const content of message.content) {
-      tokens += countClaudeContentTokens(content, encoding);
+  const claudeRequest: ClaudeAnyContentRequest = await c.req.json();
+  // Only the model is routed, thinking a route adds would inflate the count
+  const routes = await loadModelRoutes(c.env);
+  for (const table of [routes, adapter.defaultModelRoutes]) {
+    const route = resolveModelRoute(claudeRequest.model, table, baseUrl);
+    if (route) {
+      claudeRequest.model = route.model;
     }
-  } else {
-    tokens += encoding.encode(JSON.stringify(message.content)).length;
   }
 
-  return tokens;
+  const authHeaders = await adapter.getAuthHeaders(apiKey);
+  const response = await fetchWithRetry(
+    `https://${baseUrl}${adapter.getCountTokensPath()}`,
+    () => ({
+      method: "POST",
+      headers: {
+        ...withoutClientAuthHeaders(c.req.header()),
+        ...authHeaders,
+      },
+      body: JSON.stringify(claudeRequest),
+    }),
+    adapter.retryConfig,
+  );
+
+  return new Response(response.body, {
+    status: response.status,
+    headers: {
+      "Content-Type":
+        response.headers.get("content-type") || "application/json",
+    },
+  });
 };
 
-function countClaudeTokens(request: {
-  model: string;
-  messages: ClaudeAnyContentMessage[];
-  system?: ClaudeContent[];
-  tools?: ClaudeTool[];
-}): number {
-  let total = 0;
-
-  const encodingName = getEncodingForModel(request.model);
-  const encoding = encodingForModel(encodingName as any);
-
-  if (request.system && request.system.length > 0) {
-    for (const content of request.system) {
-      total += countClaudeContentTokens(content, encoding);
-    }
-  }
-
-  for (const message of request.messages) {
-    total += countClaudeMessageTokens(message, encoding);
-  }
-
-  if (request.tools && request.tools.length > 0) {
-    for (const tool of request.tools) {
-      total += 10; // tool definition overhead
-      total += encoding.encode(tool.name).length;
-      if (tool.description) total += encoding.encode(tool.description).length;
-      if (tool.input_schema)
-        total += encoding.encode(JSON.stringify(tool.input_schema)).length;
-    }
-  }
-
-  return total;
-}
-
 export const handleCountTokens = async (c: any) => {
   try {
+    const baseUrl = extractBaseUrl(c.req.path, "/v1/messages/count_tokens");
+    const adapter = baseUrl ? createAdapter(baseUrl) : undefined;
+    if (adapter instanceof AnthropicAdapter) {
+      return await forwardCountTokens(c, adapter, baseUrl);
+    }
+
     const body = await c.req.json();
 
     // Validate required fields
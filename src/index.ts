@@ -1,24 +1,64 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
+import { handleMessageBatches } from "./handlers/batches";
+import { handleChatCompletions } from "./handlers/chat-completions";
+import { handleCopilotLogin, handleCopilotLoginPoll } from "./handlers/copilot";
+import { handleFiles } from "./handlers/files";
+import { handleGetModel, handleListModels } from "./handlers/models";
 import { handleClaudeToOpenAI } from "./handlers/proxy";
+import { handleResponses } from "./handlers/responses";
 import { handleCountTokens, handleCountTokensDetailed } from "./handlers/token";
+import { Env } from "./types/env";
 
-const app = new Hono();
+export { BatchStore } from "./handlers/batch-store";
+
+/**
+ * `/{base}/v1/messages/batches` plus the batch id and action, if any
+ */
+const BATCHES_PATH = /^\/(.+?)\/v1\/messages\/batches(\/.*)?$/;
+
+/**
+ * `/{base}/v1/files` plus the file id and action, if any
+ */
+const FILES_PATH = /^\/(.+?)\/v1\/files(\/.*)?$/;
+
+const app = new Hono<{ Bindings: Env }>();
 
 app.use("*", cors());
 
+app.get("/copilot/login", async (c) => {
+  return handleCopilotLogin(c);
+});
+
+app.post("/copilot/login/poll", async (c) => {
+  return handleCopilotLoginPoll(c);
+});
+
 app.post("*", async (c) => {
   const path = c.req.path;
+  const batchesPath = BATCHES_PATH.exec(path);
+  const filesPath = FILES_PATH.exec(path);
 
-  if (path.endsWith("/v1/messages")) {
+  if (batchesPath) {
+    return handleMessageBatches(c, batchesPath[1], batchesPath[2]);
+  } else if (filesPath) {
+    return handleFiles(c, filesPath[2] || "");
+  } else if (path.endsWith("/v1/messages")) {
     return handleClaudeToOpenAI(c);
   } else if (path.endsWith("/v1/messages/count_tokens")) {
     return handleCountTokens(c);
   } else if (path.endsWith("/v1/messages/count_tokens/detailed")) {
     return handleCountTokensDetailed(c);
+  } else if (path.endsWith("/v1/chat/completions")) {
+    return handleChatCompletions(c);
+  } else if (path.endsWith("/v1/responses")) {
+    return handleResponses(c);
   } else {
     return c.json(
-      { error: "Endpoint not supported. Use /v1/messages for Claude format" },
+      {
+        error:
+          "Endpoint not supported. Use /v1/messages for Claude format or /v1/chat/completions and /v1/responses for OpenAI format",
+      },
       404,
     );
   }
@@ -46,4 +86,36 @@ app.get("/", (c) => {
   );
 });
 
+// Registered last, `*` only spans one path segment in a pattern like
+// `*/v1/models` while base urls can have several
+app.get("*", async (c) => {
+  const path = c.req.path;
+  const modelPath = /\/v1\/models\/([^/]+)$/.exec(path);
+  const batchesPath = BATCHES_PATH.exec(path);
+  const filesPath = FILES_PATH.exec(path);
+
+  if (batchesPath) {
+    return handleMessageBatches(c, batchesPath[1], batchesPath[2]);
+  } else if (filesPath) {
+    return handleFiles(c, filesPath[2] || "");
+  } else if (path.endsWith("/v1/models")) {
+    return handleListModels(c);
+  } else if (modelPath) {
+    return handleGetModel(c, decodeURIComponent(modelPath[1]));
+  }
+  return c.notFound();
+});
+
+app.delete("*", async (c) => {
+  const batchesPath = BATCHES_PATH.exec(c.req.path);
+  const filesPath = FILES_PATH.exec(c.req.path);
+
+  if (batchesPath) {
+    return handleMessageBatches(c, batchesPath[1], batchesPath[2]);
+  } else if (filesPath) {
+    return handleFiles(c, filesPath[2] || "");
+  }
+  return c.notFound();
+});
+
 export default app;
@@ -1,3 +1,4 @@
+import { SchemaProfile } from "../converters/schema";
 import {
   ClaudeAnyContentRequest,
   ClaudeErrorResponse,
@@ -10,16 +11,48 @@ import {
   OpenAIChatCompletionsStreamResponse,
   OpenAIRequest,
 } from "./openai";
+import { UpstreamModel } from "./models";
+import { RetryConfig } from "./retry";
+import { ModelRoute } from "./routing";
 
 export interface ModelAdapter {
   readonly provider: string;
   readonly baseUrl: string;
+  /**
+   * Model routes applied after the configured routing table
+   */
+  readonly defaultModelRoutes: ModelRoute[];
+  /**
+   * Backoff policy for 429/5xx before the response reaches the client
+   */
+  readonly retryConfig: RetryConfig;
+  /**
+   * Whether PDF `document` blocks can be sent as files, otherwise every
+   * document is sent as its extracted text
+   */
+  readonly supportsDocuments: boolean;
+  /**
+   * JSON Schema dialect tool parameters are normalised to
+   */
+  toolSchemaProfile: SchemaProfile;
 
   transformRequest(claudeRequest: ClaudeAnyContentRequest): OpenAIRequest;
 
+  /**
+   * Async work on the transformed request before it is sent, e.g. creating
+   * upstream caches or resolving credentials
+   */
+  prepareRequest(
+    upstreamRequest: any,
+    claudeRequest: ClaudeAnyContentRequest,
+    apiKey: string,
+    baseUrl: string,
+  ): Promise<void>;
+
   transformResponse(
     openaiResponse: OpenAIChatCompletionsResponse,
     model?: string,
+    stopSequences?: string[],
   ): ClaudeResponse;
 
   transformStreamResponse(
@@ -40,9 +73,30 @@ export interface ModelAdapter {
     c: any,
     openAIResponse: Response,
     model?: string,
+    stopSequences?: string[],
   ): Promise<any>;
 
+  getAttemptHeaders(
+    attempt: number,
+    maxAttempts: number,
+  ): Record<string, string>;
+
   getAuthHeaders(apiKey: string): Promise<Record<string, string>>;
 
-  getCompletionPath(): string;
+  /**
+   * Provider details for the client, read after handleJsonResponse
+   */
+  getResponseHeaders(): Record<string, string>;
+
+  /**
+   * Models the upstream offers to this key, undefined when it cannot list them
+   */
+  listModels(apiKey: string): Promise<UpstreamModel[] | undefined>;
+
+  /**
+   * Refresh expired credentials after a rejected request, true means resend
+   */
+  refreshAuth(response: Response, apiKey: string): Promise<boolean>;
+
+  getCompletionPath(claudeRequest?: ClaudeAnyContentRequest): string;
 }
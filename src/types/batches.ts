@@ -0,0 +1,77 @@
+import {
+  ClaudeAnyContentRequest,
+  ClaudeErrorResponse,
+  ClaudeResponse,
+} from "./claude";
+
+export interface MessageBatchRequest {
+  custom_id: string;
+  params: ClaudeAnyContentRequest;
+}
+
+export interface MessageBatchCreateRequest {
+  requests: MessageBatchRequest[];
+}
+
+export interface MessageBatchRequestCounts {
+  processing: number;
+  succeeded: number;
+  errored: number;
+  canceled: number;
+  expired: number;
+}
+
+/**
+ * Anthropic `message_batch` object, timestamps are RFC 3339
+ */
+export interface MessageBatch {
+  id: string;
+  type: "message_batch";
+  processing_status: "in_progress" | "canceling" | "ended";
+  request_counts: MessageBatchRequestCounts;
+  created_at: string;
+  expires_at: string;
+  ended_at: string | null;
+  cancel_initiated_at: string | null;
+  archived_at: string | null;
+  results_url: string | null;
+}
+
+export interface MessageBatchList {
+  data: MessageBatch[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
+
+export type MessageBatchResult =
+  | { type: "succeeded"; message: ClaudeResponse }
+  | { type: "errored"; error: ClaudeErrorResponse }
+  | { type: "canceled" }
+  | { type: "expired" };
+
+/**
+ * One line of the results JSONL
+ */
+export interface MessageBatchIndividualResponse {
+  custom_id: string;
+  result: MessageBatchResult;
+}
+
+/**
+ * A batch as kept in Durable Object storage, with what the alarm needs to
+ * run it without the client
+ */
+export interface StoredMessageBatch {
+  batch: MessageBatch;
+  /** Upstream base URL from the create request path */
+  base_url: string;
+  /** Client key to run the requests with, dropped once the batch ends */
+  api_key?: string;
+  /** `{origin}/{base}/v1/messages/batches`, for building `results_url` */
+  batches_url: string;
+  /** Index of the first request not run yet */
+  next_index: number;
+  /** Total number of requests */
+  size: number;
+}
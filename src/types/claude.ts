@@ -4,10 +4,12 @@ export interface ClaudeCacheControl {
 }
 
 export interface ClaudeImageSource {
-  type: "base64" | "url";
+  type: "base64" | "url" | "text" | "file";
   media_type?: string;
   data?: string;
   url?: string;
+  /** Id from `/v1/files`, for `file` sources */
+  file_id?: string;
 }
 
 export interface ClaudeContent {
@@ -17,6 +19,7 @@ export interface ClaudeContent {
     | "tool_use"
     | "tool_result"
     | "image"
+    | "document"
     | "server_tool_use"
     | "web_search_tool_result";
   text?: string;
@@ -29,6 +32,9 @@ export interface ClaudeContent {
   tool_use_id?: string;
   cache_control?: ClaudeCacheControl;
   signature?: string;
+  /** Document title and context, for `document` blocks */
+  title?: string;
+  context?: string;
 }
 
 export interface ClaudeToolCall {
@@ -155,12 +161,14 @@ export interface ClaudeStreamResponse {
     | "content_block_start"
     | "content_block_delta"
     | "content_block_stop"
-    | "ping";
+    | "ping"
+    | "error";
   message?: ClaudeResponse;
   content_block?: ClaudeContent;
   delta?: ClaudeDelta;
   usage?: ClaudeUsage;
   index?: number;
+  error?: ClaudeError;
 }
 
 export interface ClaudeError {
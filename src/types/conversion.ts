@@ -1,3 +1,5 @@
+import { ClaudeUsage } from "./claude";
+
 export interface StreamConversionState {
   messageId: string;
   sentMessageStart: boolean;
@@ -13,4 +15,22 @@ export interface StreamConversionState {
   }>;
   sentThinkingSignature: boolean;
   thinkingSignature?: string;
+  finishReason: string | null;
+  stopSequence: string | null;
+  stopSequences?: string[];
+  usage?: ClaudeUsage;
+  /**
+   * Original input schemas of tools sent as strict functions, by name
+   */
+  strictToolSchemas?: Record<string, any>;
+  /**
+   * Key in `toolCalls` of a strict tool call whose arguments are held back
+   * until its block closes, so omitted arguments can be dropped
+   */
+  heldToolCall?: number;
+  /**
+   * Set once an error event was sent, the stream then ends without the
+   * closing events
+   */
+  errored?: boolean;
 }
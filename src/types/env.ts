@@ -0,0 +1,43 @@
+export interface Env {
+  /**
+   * Model routing table as JSON, either an array of routes or a
+   * `{ "<match>": "<model>" }` map
+   */
+  MODEL_ROUTES?: string;
+  /**
+   * Fallback chains as a JSON array, see `FallbackChain`
+   */
+  FALLBACK_CHAINS?: string;
+  /**
+   * Comma separated upstream globs whose tools are sent as OpenAI strict
+   * function schemas, e.g. `api.openai.com*`
+   */
+  STRICT_TOOL_SCHEMAS?: string;
+  /**
+   * GitHub web origin for the Copilot device flow login, defaults to
+   * `https://github.com`. Point it at a local stand-in for testing.
+   */
+  GITHUB_BASE_URL?: string;
+  /**
+   * Key clients must send before fallback targets with `api_key_env` may use
+   * worker secrets. Without it those targets are skipped.
+   */
+  PROXY_API_KEY?: string;
+  /**
+   * Optional KV namespace for runtime config, read keys: `model_routes`,
+   * `fallback_chains`
+   */
+  CONFIG?: KVNamespace;
+  /**
+   * `BatchStore` Durable Object namespace backing `/v1/messages/batches`
+   */
+  BATCHES?: DurableObjectNamespace;
+  /**
+   * Requests a message batch runs at once, defaults to 4
+   */
+  BATCH_CONCURRENCY?: string;
+  /**
+   * KV namespace backing `/v1/files`, also read for `file_id` sources
+   */
+  FILES?: KVNamespace;
+}
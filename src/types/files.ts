@@ -0,0 +1,25 @@
+/**
+ * Anthropic `file` object from the Files API
+ */
+export interface ClaudeFile {
+  id: string;
+  type: "file";
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  /** RFC 3339 */
+  created_at: string;
+  downloadable: boolean;
+}
+
+export interface ClaudeFileList {
+  data: ClaudeFile[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
+
+export interface StoredFile {
+  file: ClaudeFile;
+  data: ArrayBuffer;
+}
@@ -0,0 +1,117 @@
+export interface GeminiInlineData {
+  mimeType: string;
+  data: string;
+}
+
+export interface GeminiFileData {
+  mimeType?: string;
+  fileUri: string;
+}
+
+export interface GeminiFunctionCall {
+  id?: string;
+  name: string;
+  args?: Record<string, any>;
+}
+
+export interface GeminiFunctionResponse {
+  id?: string;
+  name: string;
+  response: Record<string, any>;
+}
+
+export interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  thoughtSignature?: string;
+  inlineData?: GeminiInlineData;
+  fileData?: GeminiFileData;
+  functionCall?: GeminiFunctionCall;
+  functionResponse?: GeminiFunctionResponse;
+}
+
+export interface GeminiContent {
+  role?: "user" | "model";
+  parts: GeminiPart[];
+}
+
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description?: string;
+  parameters?: Record<string, any>;
+}
+
+export interface GeminiTool {
+  functionDeclarations?: GeminiFunctionDeclaration[];
+}
+
+export interface GeminiToolConfig {
+  functionCallingConfig: {
+    mode: "AUTO" | "ANY" | "NONE";
+    allowedFunctionNames?: string[];
+  };
+}
+
+export interface GeminiThinkingConfig {
+  thinkingBudget?: number;
+  includeThoughts?: boolean;
+}
+
+export interface GeminiGenerationConfig {
+  maxOutputTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+  thinkingConfig?: GeminiThinkingConfig;
+}
+
+export interface GeminiSafetySetting {
+  category: string;
+  threshold: string;
+}
+
+export interface GeminiRequest {
+  contents: GeminiContent[];
+  systemInstruction?: GeminiContent;
+  tools?: GeminiTool[];
+  toolConfig?: GeminiToolConfig;
+  generationConfig?: GeminiGenerationConfig;
+  safetySettings?: GeminiSafetySetting[];
+  cachedContent?: string;
+}
+
+export interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export interface GeminiCandidate {
+  index?: number;
+  content?: GeminiContent;
+  finishReason?:
+    | "STOP"
+    | "MAX_TOKENS"
+    | "SAFETY"
+    | "RECITATION"
+    | "MALFORMED_FUNCTION_CALL"
+    | string;
+}
+
+export interface GeminiResponse {
+  candidates?: GeminiCandidate[];
+  usageMetadata?: GeminiUsageMetadata;
+  modelVersion?: string;
+  responseId?: string;
+}
+
+export interface GeminiErrorResponse {
+  error: {
+    code: number;
+    message: string;
+    status: string;
+  };
+}
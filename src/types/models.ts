@@ -0,0 +1,28 @@
+/**
+ * A model as listed by the upstream, before it is shaped for the client
+ */
+export interface UpstreamModel {
+  id: string;
+  display_name?: string;
+  /** RFC 3339 timestamp, when the upstream reports one */
+  created_at?: string;
+  /** Context window in tokens, when the upstream reports one */
+  max_input_tokens?: number;
+}
+
+/**
+ * Anthropic `GET /v1/models` entry
+ */
+export interface ClaudeModelInfo {
+  type: "model";
+  id: string;
+  display_name: string;
+  created_at: string;
+}
+
+export interface ClaudeModelList {
+  data: ClaudeModelInfo[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
@@ -32,10 +32,11 @@ export type OpenAIErrorResponse =
     };
 
 export interface MessageContent {
-  type: "text" | "image_url" | "input_audio";
+  type: "text" | "image_url" | "input_audio" | "file";
   text?: string;
   image_url?: ImageURL;
   input_audio?: InputAudio;
+  file?: InputFile;
 }
 
 export interface ImageURL {
@@ -48,6 +49,13 @@ export interface InputAudio {
   format: "wav" | "mp3";
 }
 
+export interface InputFile {
+  filename?: string;
+  /** Data URL, e.g. `data:application/pdf;base64,...` */
+  file_data?: string;
+  file_id?: string;
+}
+
 export interface Tool {
   type: "function" | string;
   function: Function;
@@ -57,6 +65,7 @@ export interface Function {
   name: string;
   description?: string;
   parameters?: Record<string, any>;
+  strict?: boolean;
   arguments?: string;
 }
 
@@ -75,6 +84,8 @@ export interface ToolCall {
   };
 }
 
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
 export interface StreamOptions {
   include_usage: boolean;
 }
@@ -100,6 +111,17 @@ export interface OpenAIRequest {
   stop?: string | string[];
   stream_options?: StreamOptions;
   seed?: number;
+  reasoning_effort?: ReasoningEffort;
+  thinking_budget?: number;
+  prompt_cache_key?: string;
+  extra_body?: {
+    google?: {
+      thinking_config?: {
+        thinking_budget?: number;
+        include_thoughts?: boolean;
+      };
+    };
+  };
 }
 
 export interface ChatUsage {
@@ -135,6 +157,10 @@ export interface OpenAIChatCompletionsResponse {
       annotations?: Annotation[];
     };
     finish_reason: "stop" | "length" | "tool_calls" | "content_filter" | string;
+    /** Matched stop string, reported by vLLM style servers */
+    stop_reason?: string | number | null;
+    /** Matched stop string, reported by SGLang style servers */
+    matched_stop?: string | number | null;
   }>;
   usage?: ChatUsage;
 }
@@ -166,6 +192,8 @@ export interface OpenAIChatCompletionsStreamResponse {
       | "content_filter"
       | string
       | null;
+    stop_reason?: string | number | null;
+    matched_stop?: string | number | null;
   }>;
   usage?: ChatUsage;
 }
@@ -0,0 +1,172 @@
+import { ReasoningEffort } from "./openai";
+
+export interface ResponsesInputText {
+  type: "input_text";
+  text: string;
+}
+
+export interface ResponsesInputImage {
+  type: "input_image";
+  image_url: string;
+  detail?: "auto" | "low" | "high";
+}
+
+export interface ResponsesInputFile {
+  type: "input_file";
+  filename?: string;
+  /** Data URL, e.g. `data:application/pdf;base64,...` */
+  file_data?: string;
+  file_url?: string;
+  file_id?: string;
+}
+
+export interface ResponsesOutputText {
+  type: "output_text";
+  text: string;
+  annotations?: any[];
+}
+
+export interface ResponsesRefusal {
+  type: "refusal";
+  refusal: string;
+}
+
+export type ResponsesContentPart =
+  | ResponsesInputText
+  | ResponsesInputImage
+  | ResponsesInputFile
+  | ResponsesOutputText
+  | ResponsesRefusal;
+
+export interface ResponsesMessageItem {
+  type: "message";
+  id?: string;
+  role: "user" | "assistant" | "system" | "developer";
+  content: string | ResponsesContentPart[];
+  status?: string;
+}
+
+export interface ResponsesFunctionCallItem {
+  type: "function_call";
+  id?: string;
+  call_id: string;
+  name: string;
+  arguments: string;
+  status?: string;
+}
+
+export interface ResponsesFunctionCallOutputItem {
+  type: "function_call_output";
+  call_id: string;
+  output: string;
+}
+
+export interface ResponsesReasoningItem {
+  type: "reasoning";
+  id: string;
+  summary: Array<{ type: "summary_text"; text: string }>;
+  encrypted_content?: string | null;
+}
+
+export type ResponsesItem =
+  | ResponsesMessageItem
+  | ResponsesFunctionCallItem
+  | ResponsesFunctionCallOutputItem
+  | ResponsesReasoningItem;
+
+export interface ResponsesFunctionTool {
+  type: "function";
+  name: string;
+  description?: string;
+  parameters?: Record<string, any>;
+  strict?: boolean;
+}
+
+export type ResponsesToolChoice =
+  "auto" | "none" | "required" | { type: "function"; name: string };
+
+export interface ResponsesRequest {
+  model: string;
+  /** Clients may send a bare string for a single user message */
+  input: string | ResponsesItem[];
+  instructions?: string;
+  tools?: ResponsesFunctionTool[];
+  tool_choice?: ResponsesToolChoice;
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+  store?: boolean;
+  include?: string[];
+  prompt_cache_key?: string;
+  /** Server side conversation state, not supported by the front door */
+  previous_response_id?: string;
+  reasoning?: {
+    effort?: ReasoningEffort;
+    summary?: "auto" | "concise" | "detailed";
+  };
+}
+
+export interface ResponsesUsage {
+  input_tokens: number;
+  input_tokens_details?: {
+    cached_tokens?: number;
+  };
+  output_tokens: number;
+  output_tokens_details?: {
+    reasoning_tokens?: number;
+  };
+  total_tokens?: number;
+}
+
+export interface ResponsesResponse {
+  id: string;
+  object: "response";
+  created_at?: number;
+  model: string;
+  status: "completed" | "incomplete" | "failed" | "in_progress" | string;
+  output: ResponsesItem[];
+  usage?: ResponsesUsage;
+  incomplete_details?: {
+    reason?: "max_output_tokens" | "content_filter" | string;
+  } | null;
+  error?: {
+    code?: string;
+    message: string;
+  } | null;
+}
+
+export interface ResponsesStreamEvent {
+  type:
+    | "response.created"
+    | "response.in_progress"
+    | "response.output_item.added"
+    | "response.output_item.done"
+    | "response.content_part.added"
+    | "response.content_part.done"
+    | "response.output_text.delta"
+    | "response.output_text.done"
+    | "response.refusal.delta"
+    | "response.reasoning_summary_part.added"
+    | "response.reasoning_summary_text.delta"
+    | "response.function_call_arguments.delta"
+    | "response.function_call_arguments.done"
+    | "response.completed"
+    | "response.incomplete"
+    | "response.failed"
+    | "error"
+    | string;
+  sequence_number?: number;
+  response?: ResponsesResponse;
+  output_index?: number;
+  content_index?: number;
+  summary_index?: number;
+  item_id?: string;
+  item?: ResponsesItem;
+  part?: ResponsesContentPart | { type: "summary_text"; text: string };
+  delta?: string;
+  text?: string;
+  arguments?: string;
+  code?: string;
+  message?: string;
+}
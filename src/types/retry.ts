@@ -0,0 +1,12 @@
+export interface RetryConfig {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled on every further attempt */
+  baseDelayMs: number;
+  /** Upper bound for the computed backoff */
+  maxDelayMs: number;
+  /** Give up instead of waiting when the upstream asks for a longer Retry-After */
+  maxRetryAfterMs: number;
+  /** Upstream statuses worth another attempt */
+  retryableStatuses: number[];
+}
@@ -0,0 +1,30 @@
+export interface ModelRoute {
+  /** Exact model name or glob (`*`, `?`), matched case-insensitively */
+  match: string;
+  /** Model name sent upstream */
+  model: string;
+  /** Only apply when the upstream base URL matches this glob */
+  upstream?: string;
+  /** Force extended thinking at this effort, mapped per adapter */
+  reasoning_effort?: "low" | "medium" | "high";
+}
+
+export interface FallbackTarget {
+  /** Upstream base URL, same form as in the proxy path */
+  upstream: string;
+  /** Model to request from this upstream, defaults to the client's model */
+  model?: string;
+  /** Name of the worker secret holding this upstream's key, defaults to the client's key */
+  api_key_env?: string;
+}
+
+export interface FallbackChain {
+  /** Exact model name or glob (`*`, `?`), matched case-insensitively */
+  match: string;
+  /** Only apply when the requested upstream base URL matches this glob */
+  upstream?: string;
+  /** Tried in order until one answers */
+  targets: FallbackTarget[];
+  /** Claude error types that move on to the next target */
+  fallback_on?: string[];
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { parseKiroCredentials, redactAuthHeaders } from "./auth";
+
+describe("kiro credential parsing", () => {
+  it("reads JSON blobs from Kiro IDE and Kiro CLI", () => {
+    expect(
+      parseKiroCredentials(
+        JSON.stringify({
+          accessToken: "aoa-access",
+          refreshToken: "aor-refresh",
+          profileArn: "arn:aws:codewhisperer:us-east-1:1:profile/P",
+          authMethod: "social",
+        }),
+      ),
+    ).toEqual({
+      refreshToken: "aor-refresh",
+      profileArn: "arn:aws:codewhisperer:us-east-1:1:profile/P",
+    });
+
+    expect(
+      parseKiroCredentials(
+        JSON.stringify({
+          refresh_token: "aor-refresh",
+          client_id: "client",
+          client_secret: "secret",
+          region: "eu-central-1",
+        }),
+      ),
+    ).toEqual({
+      refreshToken: "aor-refresh",
+      clientId: "client",
+      clientSecret: "secret",
+      region: "eu-central-1",
+    });
+  });
+
+  it("reads colon separated SSO credentials and bare refresh tokens", () => {
+    expect(parseKiroCredentials("aor-refresh:client:secret")).toEqual({
+      refreshToken: "aor-refresh",
+      clientId: "client",
+      clientSecret: "secret",
+    });
+    expect(parseKiroCredentials("aorAAAAAGrefresh")).toEqual({
+      refreshToken: "aorAAAAAGrefresh",
+    });
+  });
+
+  it("leaves access tokens alone", () => {
+    expect(parseKiroCredentials("aoaAAAAAGaccess")).toBeUndefined();
+    expect(parseKiroCredentials('{"accessToken":"aoa"}')).toBeUndefined();
+  });
+});
+
+describe("auth header redaction", () => {
+  it("masks upstream credentials and keeps other headers", () => {
+    expect(
+      redactAuthHeaders({
+        Authorization: "Bearer sk-secret",
+        "x-api-key": "sk-ant-secret",
+        "x-goog-api-key": "AIza-secret",
+        "content-type": "application/json",
+      }),
+    ).toEqual({
+      Authorization: "[redacted]",
+      "x-api-key": "[redacted]",
+      "x-goog-api-key": "[redacted]",
+      "content-type": "application/json",
+    });
+  });
+});
@@ -8,6 +8,151 @@ const kiroTokenCache = new Map<
   { token: string; expires_at: number; profile_arn?: string }
 >();
 
+/**
+ * Read the client supplied key, sent either as x-api-key or bearer token
+ */
+export function getClientApiKey(c: any): string | undefined {
+  return (
+    c.req.header("x-api-key") ||
+    c.req.header("authorization")?.replace("Bearer ", "")
+  );
+}
+
+/**
+ * Whether the client sent the operator's `PROXY_API_KEY`, which unlocks
+ * worker secrets. Compared in constant time.
+ */
+export function isProxyApiKey(
+  env: { PROXY_API_KEY?: string } | undefined,
+  apiKey: string,
+): boolean {
+  const expected = env?.PROXY_API_KEY;
+  if (!expected || expected.length !== apiKey.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ apiKey.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Original request headers minus the proxy credentials, so they are not
+ * passed upstream
+ */
+export function withoutClientAuthHeaders(
+  headers: Record<string, string>,
+): Record<string, string> {
+  const { "x-api-key": _, authorization: __, ...rest } = headers;
+  return rest;
+}
+
+/**
+ * Headers with upstream credentials masked, for logging
+ */
+export function redactAuthHeaders(
+  headers: Record<string, string>,
+): Record<string, string> {
+  const redacted = { ...headers };
+  for (const name of Object.keys(redacted)) {
+    if (/^(?:authorization|x-api-key|x-goog-api-key)$/i.test(name)) {
+      redacted[name] = "[redacted]";
+    }
+  }
+  return redacted;
+}
+
+/**
+ * OAuth app GitHub's Copilot editor plugins log in with, tokens it issues are
+ * accepted by the Copilot token endpoint
+ */
+const COPILOT_CLIENT_ID = "Iv1.b507a08c87ecfe98";
+
+const DEFAULT_GITHUB_BASE_URL = "https://github.com";
+
+export interface DeviceCodeResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  expires_in: number;
+  interval: number;
+}
+
+export type DeviceFlowResult =
+  | { status: "pending"; interval?: number }
+  | { status: "complete"; access_token: string }
+  | { status: "failed"; error: string; error_description?: string };
+
+/**
+ * Start GitHub's OAuth device flow for Copilot
+ */
+export async function startCopilotDeviceFlow(
+  githubBaseUrl: string = DEFAULT_GITHUB_BASE_URL,
+): Promise<DeviceCodeResponse> {
+  const response = await fetch(`${githubBaseUrl}/login/device/code`, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ client_id: COPILOT_CLIENT_ID, scope: "read:user" }),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to start device flow: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  return (await response.json()) as DeviceCodeResponse;
+}
+
+/**
+ * Ask once whether the user has entered the code yet. The caller polls at
+ * the interval GitHub asks for.
+ */
+export async function pollCopilotDeviceFlow(
+  deviceCode: string,
+  githubBaseUrl: string = DEFAULT_GITHUB_BASE_URL,
+): Promise<DeviceFlowResult> {
+  const response = await fetch(`${githubBaseUrl}/login/oauth/access_token`, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      client_id: COPILOT_CLIENT_ID,
+      device_code: deviceCode,
+      grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to poll device flow: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const data = (await response.json()) as any;
+  if (data.access_token) {
+    return { status: "complete", access_token: data.access_token };
+  }
+
+  switch (data.error) {
+    case "authorization_pending":
+      return { status: "pending" };
+    case "slow_down":
+      return { status: "pending", interval: data.interval };
+    default:
+      return {
+        status: "failed",
+        error: data.error || "unknown_error",
+        error_description: data.error_description,
+      };
+  }
+}
+
 /**
  * Get Copilot token with caching
  */
@@ -44,23 +189,82 @@ export async function getCopilotToken(apiKey: string): Promise<string> {
   return token;
 }
 
+/**
+ * Kiro credentials as sent by the client in place of an access token
+ */
+export interface KiroCredentials {
+  refreshToken: string;
+  clientId?: string;
+  clientSecret?: string;
+  profileArn?: string;
+  /** Region of the OIDC client registration, if it differs from the API */
+  region?: string;
+}
+
+/**
+ * Read Kiro refresh credentials from the client key. Accepts a JSON blob
+ * (Kiro IDE `kiro-auth-token.json` or a Kiro CLI token merged with its device
+ * registration), `refreshToken:clientId:clientSecret`, or a bare refresh
+ * token. Returns undefined for anything that looks like an access token.
+ */
+export function parseKiroCredentials(
+  apiKey: string,
+): KiroCredentials | undefined {
+  const key = apiKey.trim();
+
+  if (key.startsWith("{")) {
+    let blob: any;
+    try {
+      blob = JSON.parse(key);
+    } catch (e) {
+      return undefined;
+    }
+    const refreshToken = blob.refreshToken || blob.refresh_token;
+    if (!refreshToken) {
+      return undefined;
+    }
+    return {
+      refreshToken,
+      clientId: blob.clientId || blob.client_id,
+      clientSecret: blob.clientSecret || blob.client_secret,
+      profileArn: blob.profileArn || blob.profile_arn,
+      region: blob.region,
+    };
+  }
+
+  const [refreshToken, clientId, clientSecret] = key.split(":");
+  if (clientId && clientSecret) {
+    return { refreshToken, clientId, clientSecret };
+  }
+
+  // Kiro refresh tokens are prefixed `aor`, access tokens `aoa`
+  if (key.startsWith("aor")) {
+    return { refreshToken: key };
+  }
+  return undefined;
+}
+
 /**
  * Get Kiro access token with caching
  * Supports both Kiro Desktop Auth and AWS SSO OIDC
  */
 export async function getKiroToken(
-  refreshToken: string,
+  credentials: KiroCredentials,
   region: string,
-  clientId?: string,
-  clientSecret?: string,
-): Promise<string> {
-  const cacheKey = `${refreshToken}:${region}:${clientId || ""}:${clientSecret || ""}`;
+  forceRefresh: boolean = false,
+): Promise<{ accessToken: string; profileArn?: string }> {
+  const { refreshToken, clientId, clientSecret } = credentials;
+  const authRegion = credentials.region || region;
+  const cacheKey = `${refreshToken}:${authRegion}:${clientId || ""}:${clientSecret || ""}`;
   const cached = kiroTokenCache.get(cacheKey);
   const now = Math.floor(Date.now() / 1000);
 
   // Check if token is still valid (with 5 minute buffer)
-  if (cached && cached.expires_at > now + 300) {
-    return cached.token;
+  if (!forceRefresh && cached && cached.expires_at > now + 300) {
+    return {
+      accessToken: cached.token,
+      profileArn: credentials.profileArn || cached.profile_arn,
+    };
   }
 
   // Determine auth type based on presence of client credentials
@@ -74,7 +278,7 @@ export async function getKiroToken(
     // AWS SSO OIDC authentication
     const result = await refreshAwsSsoOidcToken(
       refreshToken,
-      region,
+      authRegion,
       clientId!,
       clientSecret!,
     );
@@ -82,7 +286,7 @@ export async function getKiroToken(
     expiresAt = Math.floor(Date.now() / 1000) + result.expiresIn - 60; // 60 second buffer
   } else {
     // Kiro Desktop authentication
-    const result = await refreshKiroDesktopToken(refreshToken, region);
+    const result = await refreshKiroDesktopToken(refreshToken, authRegion);
     token = result.accessToken;
     expiresAt = Math.floor(Date.now() / 1000) + result.expiresIn - 60; // 60 second buffer
     profileArn = result.profileArn;
@@ -95,7 +299,10 @@ export async function getKiroToken(
     profile_arn: profileArn,
   });
 
-  return token;
+  return {
+    accessToken: token,
+    profileArn: credentials.profileArn || profileArn,
+  };
 }
 
 async function refreshKiroDesktopToken(
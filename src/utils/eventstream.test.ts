@@ -0,0 +1,342 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { KIRO_CONTEXT_USAGE_HEADER, KiroAdapter } from "../adapters/kiro";
+import { ClaudeAnyContentRequest } from "../types/claude";
+import { crc32, EventStreamDecoder, EventStreamError } from "./eventstream";
+
+const utf8 = new TextEncoder();
+
+/**
+ * Build one event stream frame with string headers
+ */
+function encodeMessage(
+  headers: Record<string, string>,
+  payload: string | Uint8Array,
+): Uint8Array {
+  const headerBytes: number[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    const nameBytes = utf8.encode(name);
+    const valueBytes = utf8.encode(value);
+    headerBytes.push(nameBytes.length, ...nameBytes, 7);
+    headerBytes.push(valueBytes.length >> 8, valueBytes.length & 0xff);
+    headerBytes.push(...valueBytes);
+  }
+  const body = typeof payload === "string" ? utf8.encode(payload) : payload;
+
+  const totalLength = 12 + headerBytes.length + body.length + 4;
+  const message = new Uint8Array(totalLength);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, totalLength);
+  view.setUint32(4, headerBytes.length);
+  view.setUint32(8, crc32(message.subarray(0, 8)));
+  message.set(headerBytes, 12);
+  message.set(body, 12 + headerBytes.length);
+  view.setUint32(totalLength - 4, crc32(message.subarray(0, totalLength - 4)));
+  return message;
+}
+
+function kiroEvent(eventType: string, data: any): Uint8Array {
+  return encodeMessage(
+    {
+      ":event-type": eventType,
+      ":content-type": "application/json",
+      ":message-type": "event",
+    },
+    JSON.stringify(data),
+  );
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * A response body that delivers `bytes` in the given chunk sizes
+ */
+function chunkedResponse(bytes: Uint8Array, chunkSize: number): Response {
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += chunkSize) {
+          controller.enqueue(bytes.slice(i, i + chunkSize));
+        }
+        controller.close();
+      },
+    }),
+  );
+}
+
+describe("event stream decoder", () => {
+  it("computes the IEEE crc32", () => {
+    expect(crc32(utf8.encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("decodes several messages from one chunk", () => {
+    const bytes = concat(
+      kiroEvent("assistantResponseEvent", { content: "Hello" }),
+      kiroEvent("assistantResponseEvent", { content: " world" }),
+    );
+
+    const messages = new EventStreamDecoder().feed(bytes);
+    expect(messages).toHaveLength(2);
+    expect(messages[0].headers[":event-type"]).toBe("assistantResponseEvent");
+    expect(new TextDecoder().decode(messages[1].payload)).toBe(
+      '{"content":" world"}',
+    );
+  });
+
+  it("reassembles messages split across chunks", () => {
+    const bytes = concat(
+      kiroEvent("assistantResponseEvent", { content: "héllo 👋" }),
+      kiroEvent("assistantResponseEvent", { content: "again" }),
+    );
+
+    const decoder = new EventStreamDecoder();
+    const payloads: string[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+      for (const message of decoder.feed(bytes.slice(i, i + 1))) {
+        payloads.push(JSON.parse(new TextDecoder().decode(message.payload)));
+      }
+    }
+
+    expect(payloads).toEqual([{ content: "héllo 👋" }, { content: "again" }]);
+    expect(decoder.pendingBytes).toBe(0);
+  });
+
+  it("rejects corrupted frames", () => {
+    const badPrelude = kiroEvent("assistantResponseEvent", { content: "x" });
+    badPrelude[8] ^= 0xff;
+    expect(() => new EventStreamDecoder().feed(badPrelude)).toThrow(
+      EventStreamError,
+    );
+
+    const badMessage = kiroEvent("assistantResponseEvent", { content: "x" });
+    badMessage[badMessage.length - 6] ^= 0xff;
+    expect(() => new EventStreamDecoder().feed(badMessage)).toThrow(
+      "Message checksum mismatch",
+    );
+  });
+});
+
+describe("kiro event stream parsing", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps repeated content and assembles tool input fragments", async () => {
+    const bytes = concat(
+      kiroEvent("assistantResponseEvent", { content: "ok" }),
+      kiroEvent("assistantResponseEvent", { content: "ok" }),
+      kiroEvent("toolUseEvent", {
+        toolUseId: "tooluse_1",
+        name: "Bash",
+        input: '{"comm',
+      }),
+      kiroEvent("toolUseEvent", {
+        toolUseId: "tooluse_1",
+        name: "Bash",
+        input: 'and":"ls"}',
+      }),
+      kiroEvent("toolUseEvent", {
+        toolUseId: "tooluse_1",
+        name: "Bash",
+        stop: true,
+      }),
+    );
+
+    const result = await new KiroAdapter().handleJsonResponse(
+      chunkedResponse(bytes, 7),
+    );
+
+    expect(result.content).toBe("okok");
+    expect(result.tool_calls).toHaveLength(1);
+    expect(result.tool_calls[0].function).toEqual({
+      name: "Bash",
+      arguments: '{"command":"ls"}',
+    });
+
+    expect(
+      new KiroAdapter().transformResponse(result, "claude-haiku-4.5"),
+    ).toMatchObject({
+      type: "message",
+      model: "claude-haiku-4.5",
+      content: [
+        { type: "text", text: "okok" },
+        {
+          type: "tool_use",
+          id: "tooluse_1",
+          name: "Bash",
+          input: { command: "ls" },
+        },
+      ],
+      stop_reason: "tool_use",
+    });
+  });
+
+  it("returns an empty input for malformed tool arguments", () => {
+    const response = new KiroAdapter().transformResponse({
+      content: "",
+      tool_calls: [
+        {
+          id: "tooluse_2",
+          function: { name: "Read", arguments: '{"file_path":' },
+        },
+      ],
+    });
+    expect(response.content).toEqual([
+      { type: "tool_use", id: "tooluse_2", name: "Read", input: {} },
+    ]);
+  });
+
+  it("turns exception frames into Claude errors", async () => {
+    const bytes = concat(
+      kiroEvent("assistantResponseEvent", { content: "partial" }),
+      encodeMessage(
+        {
+          ":exception-type": "ThrottlingException",
+          ":content-type": "application/json",
+          ":message-type": "exception",
+        },
+        JSON.stringify({ message: "Too many requests" }),
+      ),
+    );
+
+    await expect(
+      new KiroAdapter().handleJsonResponse(chunkedResponse(bytes, 64)),
+    ).rejects.toMatchObject({
+      type: "rate_limit_error",
+      message: "ThrottlingException: Too many requests",
+    });
+
+    const response = await new KiroAdapter().handleStreamResponse(
+      { header: () => {} },
+      chunkedResponse(bytes, 64),
+    );
+    const sse = await response.text();
+    expect(sse).toContain("event: error");
+    expect(sse).toContain('"type":"rate_limit_error"');
+    expect(sse).not.toContain("message_stop");
+  });
+
+  it("splits inline thinking into thinking blocks", async () => {
+    const bytes = concat(
+      kiroEvent("assistantResponseEvent", { content: "<thin" }),
+      kiroEvent("assistantResponseEvent", { content: "king>Check the " }),
+      kiroEvent("assistantResponseEvent", { content: "files</thi" }),
+      kiroEvent("assistantResponseEvent", { content: "nking>\n\nDone." }),
+    );
+    const thinkingRequest: ClaudeAnyContentRequest = {
+      model: "claude-sonnet-4.5",
+      thinking: { type: "enabled", budget_tokens: 4096 },
+      messages: [{ role: "user", content: "hi" }],
+    };
+
+    const adapter = new KiroAdapter();
+    adapter.transformRequest(thinkingRequest);
+    const result = await adapter.handleJsonResponse(chunkedResponse(bytes, 64));
+    expect(adapter.transformResponse(result)).toMatchObject({
+      model: "claude-sonnet-4.5",
+      content: [
+        { type: "thinking", thinking: "Check the files", signature: "" },
+        { type: "text", text: "Done." },
+      ],
+    });
+
+    const streaming = new KiroAdapter();
+    streaming.transformRequest(thinkingRequest);
+    const response = await streaming.handleStreamResponse(
+      { header: () => {} },
+      chunkedResponse(bytes, 64),
+    );
+    const events = (await response.text())
+      .split("\n")
+      .filter((line: string) => line.startsWith("data: {"))
+      .map((line: string) => JSON.parse(line.slice(6)));
+
+    expect(events[0].message.model).toBe("claude-sonnet-4.5");
+    expect(
+      events
+        .filter((event: any) => event.type === "content_block_start")
+        .map((event: any) => [event.index, event.content_block.type]),
+    ).toEqual([
+      [0, "thinking"],
+      [1, "text"],
+    ]);
+    expect(
+      events
+        .filter((event: any) => event.type === "content_block_delta")
+        .map((event: any) => event.delta.thinking ?? event.delta.text)
+        .join("|"),
+    ).toBe("Check the |files|Done.");
+  });
+
+  it("derives input tokens from the context usage percentage", async () => {
+    // The catalogue gives the model's context window
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({
+          models: [
+            {
+              modelId: "claude-sonnet-4.5",
+              tokenLimits: { maxInputTokens: 1_000_000 },
+            },
+          ],
+        }),
+      ),
+    );
+    const bytes = concat(
+      kiroEvent("assistantResponseEvent", { content: "Done." }),
+      kiroEvent("meteringEvent", { unit: "credit", usage: 0.017 }),
+      kiroEvent("contextUsageEvent", { contextUsagePercentage: 12.5 }),
+    );
+    const request: ClaudeAnyContentRequest = {
+      model: "claude-sonnet-4.5",
+      messages: [{ role: "user", content: "Summarise the repo" }],
+    };
+
+    const adapter = new KiroAdapter();
+    const payload = adapter.transformRequest(request);
+    await adapter.prepareRequest(
+      payload,
+      request,
+      "aoa-window-token",
+      adapter.baseUrl,
+    );
+    const result = await adapter.handleJsonResponse(chunkedResponse(bytes, 64));
+
+    expect(result.usage.prompt_tokens).toBe(125000);
+    expect(adapter.getResponseHeaders()).toEqual({
+      [KIRO_CONTEXT_USAGE_HEADER]: "12.5",
+    });
+
+    const streaming = new KiroAdapter();
+    await streaming.prepareRequest(
+      streaming.transformRequest(request),
+      request,
+      "aoa-window-token",
+      streaming.baseUrl,
+    );
+    const response = await streaming.handleStreamResponse(
+      { header: () => {} },
+      chunkedResponse(bytes, 64),
+    );
+    const events = (await response.text())
+      .split("\n")
+      .filter((line: string) => line.startsWith("data: {"))
+      .map((line: string) => JSON.parse(line.slice(6)));
+
+    const start = events.find((event: any) => event.type === "message_start");
+    expect(start.message.usage.input_tokens).toBeGreaterThan(0);
+    const delta = events.find((event: any) => event.type === "message_delta");
+    expect(delta.usage).toEqual({
+      input_tokens: 125000,
+      output_tokens: 0,
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Decoder for the AWS `application/vnd.amazon.eventstream` binary framing.
+ *
+ * Each message is laid out as:
+ *   total length (u32) | headers length (u32) | prelude crc (u32)
+ *   headers | payload | message crc (u32)
+ * where the prelude crc covers the first 8 bytes and the message crc covers
+ * everything before it.
+ */
+
+export type EventStreamHeaderValue =
+  string | number | boolean | Uint8Array | Date;
+
+export interface EventStreamMessage {
+  headers: Record<string, EventStreamHeaderValue>;
+  payload: Uint8Array;
+}
+
+export class EventStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EventStreamError";
+  }
+}
+
+const PRELUDE_LENGTH = 12;
+const CRC_LENGTH = 4;
+const MIN_MESSAGE_LENGTH = PRELUDE_LENGTH + CRC_LENGTH;
+// The service limit is 16 MiB per message, anything larger is corrupt framing
+const MAX_MESSAGE_LENGTH = 16 * 1024 * 1024 + MIN_MESSAGE_LENGTH;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * IEEE CRC-32, as used by the event stream prelude and message checksums
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const utf8 = new TextDecoder("utf-8");
+
+function decodeHeaders(
+  bytes: Uint8Array,
+): Record<string, EventStreamHeaderValue> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headers: Record<string, EventStreamHeaderValue> = {};
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const nameLength = view.getUint8(offset);
+    offset += 1;
+    const name = utf8.decode(bytes.subarray(offset, offset + nameLength));
+    offset += nameLength;
+
+    const type = view.getUint8(offset);
+    offset += 1;
+
+    switch (type) {
+      case 0:
+        headers[name] = true;
+        break;
+      case 1:
+        headers[name] = false;
+        break;
+      case 2:
+        headers[name] = view.getInt8(offset);
+        offset += 1;
+        break;
+      case 3:
+        headers[name] = view.getInt16(offset);
+        offset += 2;
+        break;
+      case 4:
+        headers[name] = view.getInt32(offset);
+        offset += 4;
+        break;
+      case 5:
+        headers[name] = Number(view.getBigInt64(offset));
+        offset += 8;
+        break;
+      case 6: {
+        const length = view.getUint16(offset);
+        offset += 2;
+        headers[name] = bytes.slice(offset, offset + length);
+        offset += length;
+        break;
+      }
+      case 7: {
+        const length = view.getUint16(offset);
+        offset += 2;
+        headers[name] = utf8.decode(bytes.subarray(offset, offset + length));
+        offset += length;
+        break;
+      }
+      case 8:
+        headers[name] = new Date(Number(view.getBigInt64(offset)));
+        offset += 8;
+        break;
+      case 9:
+        headers[name] = bytes.slice(offset, offset + 16);
+        offset += 16;
+        break;
+      default:
+        throw new EventStreamError(
+          `Unknown header type ${type} for header "${name}"`,
+        );
+    }
+  }
+
+  if (offset !== bytes.length) {
+    throw new EventStreamError("Header block overruns its declared length");
+  }
+  return headers;
+}
+
+/**
+ * Incremental decoder, feed it response chunks as they arrive and it yields
+ * every message completed so far. Partial messages are kept until the rest
+ * of their bytes show up, so each byte is only inspected once.
+ */
+export class EventStreamDecoder {
+  private buffer: Uint8Array = new Uint8Array(0);
+
+  feed(chunk: Uint8Array): EventStreamMessage[] {
+    if (this.buffer.length === 0) {
+      this.buffer = chunk;
+    } else {
+      const merged = new Uint8Array(this.buffer.length + chunk.length);
+      merged.set(this.buffer);
+      merged.set(chunk, this.buffer.length);
+      this.buffer = merged;
+    }
+
+    const messages: EventStreamMessage[] = [];
+    let offset = 0;
+
+    while (this.buffer.length - offset >= PRELUDE_LENGTH) {
+      const view = new DataView(
+        this.buffer.buffer,
+        this.buffer.byteOffset + offset,
+        this.buffer.length - offset,
+      );
+      const totalLength = view.getUint32(0);
+      const headersLength = view.getUint32(4);
+
+      if (
+        totalLength < MIN_MESSAGE_LENGTH ||
+        totalLength > MAX_MESSAGE_LENGTH ||
+        headersLength > totalLength - MIN_MESSAGE_LENGTH
+      ) {
+        throw new EventStreamError(
+          `Invalid message lengths: total ${totalLength}, headers ${headersLength}`,
+        );
+      }
+
+      const preludeCrc = view.getUint32(8);
+      if (crc32(this.buffer.subarray(offset, offset + 8)) !== preludeCrc) {
+        throw new EventStreamError("Prelude checksum mismatch");
+      }
+
+      if (this.buffer.length - offset < totalLength) {
+        break;
+      }
+
+      const message = this.buffer.subarray(offset, offset + totalLength);
+      const messageCrc = view.getUint32(totalLength - CRC_LENGTH);
+      if (crc32(message.subarray(0, totalLength - CRC_LENGTH)) !== messageCrc) {
+        throw new EventStreamError("Message checksum mismatch");
+      }
+
+      const headersEnd = PRELUDE_LENGTH + headersLength;
+      messages.push({
+        headers: decodeHeaders(message.subarray(PRELUDE_LENGTH, headersEnd)),
+        payload: message.slice(headersEnd, totalLength - CRC_LENGTH),
+      });
+      offset += totalLength;
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+    return messages;
+  }
+
+  /**
+   * Bytes received that do not form a complete message yet
+   */
+  get pendingBytes(): number {
+    return this.buffer.length;
+  }
+}
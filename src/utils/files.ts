@@ -0,0 +1,144 @@
+import { ClaudeFile, StoredFile } from "../types/files";
+import { sha256Hex } from "./hash";
+
+/**
+ * KV's value size limit
+ */
+export const MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+/**
+ * KV's metadata size limit, counted on the serialized JSON
+ */
+const MAX_METADATA_BYTES = 1024;
+
+/**
+ * Files live under a hash of the client's key, so clients only see their own
+ */
+async function filePrefix(apiKey: string): Promise<string> {
+  return `files/${await sha256Hex(apiKey)}/`;
+}
+
+/**
+ * Store an upload, the `file` object is kept as KV metadata so listing does
+ * not read the contents
+ */
+export async function putFile(
+  files: KVNamespace,
+  apiKey: string,
+  upload: File,
+): Promise<ClaudeFile> {
+  const now = Date.now();
+  // Time prefixed so key order is creation order
+  const id = `file_${now.toString(36).padStart(9, "0")}${crypto
+    .randomUUID()
+    .replace(/-/g, "")
+    .slice(0, 15)}`;
+  const file: ClaudeFile = {
+    id,
+    type: "file",
+    filename: "",
+    mime_type: (upload.type || "application/octet-stream").slice(0, 127),
+    size_bytes: upload.size,
+    created_at: new Date(now).toISOString(),
+    downloadable: true,
+  };
+  // The name gets whatever metadata space the other fields leave
+  file.filename = truncateJsonBytes(
+    upload.name || "upload",
+    MAX_METADATA_BYTES - jsonBytes(file),
+  );
+
+  await files.put(
+    `${await filePrefix(apiKey)}${id}`,
+    await upload.arrayBuffer(),
+    {
+      metadata: file,
+    },
+  );
+  return file;
+}
+
+export async function getFile(
+  files: KVNamespace,
+  apiKey: string,
+  id: string,
+): Promise<StoredFile | null> {
+  const { value, metadata } = await files.getWithMetadata<ClaudeFile>(
+    `${await filePrefix(apiKey)}${id}`,
+    "arrayBuffer",
+  );
+  return value && metadata ? { file: metadata, data: value } : null;
+}
+
+/**
+ * All of the client's files, newest first
+ */
+export async function listFiles(
+  files: KVNamespace,
+  apiKey: string,
+): Promise<ClaudeFile[]> {
+  const prefix = await filePrefix(apiKey);
+  const result: ClaudeFile[] = [];
+  let cursor: string | undefined;
+
+  while (true) {
+    const page = await files.list<ClaudeFile>({ prefix, cursor });
+    for (const key of page.keys) {
+      if (key.metadata) {
+        result.push(key.metadata);
+      }
+    }
+    if (page.list_complete) {
+      break;
+    }
+    cursor = page.cursor;
+  }
+  return result.reverse();
+}
+
+export async function deleteFile(
+  files: KVNamespace,
+  apiKey: string,
+  id: string,
+): Promise<void> {
+  await files.delete(`${await filePrefix(apiKey)}${id}`);
+}
+
+/**
+ * Cut a string so its JSON form, quotes aside, fits in `maxBytes` of UTF-8.
+ * Whole code points are dropped, never half a surrogate pair.
+ */
+function truncateJsonBytes(value: string, maxBytes: number): string {
+  const codePoints = Array.from(value);
+  let end = Math.min(codePoints.length, Math.max(maxBytes, 0));
+  while (
+    end > 0 &&
+    jsonBytes(codePoints.slice(0, end).join("")) - 2 > maxBytes
+  ) {
+    end--;
+  }
+  return codePoints.slice(0, end).join("");
+}
+
+function jsonBytes(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  // Chunked, spreading a large array overflows the call stack
+  for (let start = 0; start < bytes.length; start += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
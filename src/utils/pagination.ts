@@ -0,0 +1,37 @@
+/**
+ * Anthropic style list page over items already in list order, honouring
+ * `limit` (1 to 1000, default 20), `after_id` and `before_id`
+ */
+export function paginateById<T extends { id: string }>(
+  items: T[],
+  query: { limit?: string; after_id?: string; before_id?: string },
+): {
+  data: T[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+} {
+  const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 1000);
+
+  let start = 0;
+  let end = items.length;
+  if (query.after_id) {
+    start = items.findIndex((item) => item.id === query.after_id) + 1;
+  }
+  if (query.before_id) {
+    const index = items.findIndex((item) => item.id === query.before_id);
+    end = index === -1 ? end : index;
+  }
+
+  // `before_id` alone pages backwards, ending right before that id
+  const fromEnd = query.before_id && !query.after_id;
+  const data = fromEnd
+    ? items.slice(Math.max(start, end - limit), end)
+    : items.slice(start, Math.min(start + limit, end));
+  return {
+    data,
+    has_more: fromEnd ? end - limit > start : start + limit < end,
+    first_id: data[0]?.id ?? null,
+    last_id: data[data.length - 1]?.id ?? null,
+  };
+}
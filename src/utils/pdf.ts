@@ -0,0 +1,259 @@
+/**
+ * Stream dictionaries that never hold page text
+ */
+const NON_TEXT_STREAM =
+  /\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType|XML)|\/Type\s*\/(XRef|ObjStm|Metadata|EmbeddedFile)|\/Length[123]\b/;
+
+/**
+ * Best effort text of a PDF for upstreams without document input: the
+ * strings shown by text operators in its content streams, uncompressed or
+ * FlateDecode. Scanned pages come out empty and fonts with custom encodings
+ * may come out garbled.
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const raw = decodeLatin1(bytes);
+  const pages: string[] = [];
+  const streamStart = /stream\r?\n/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = streamStart.exec(raw))) {
+    // Skip the tail of `endstream`
+    if (raw.slice(match.index - 3, match.index) === "end") {
+      continue;
+    }
+    const dataStart = match.index + match[0].length;
+    const dataEnd = raw.indexOf("endstream", dataStart);
+    if (dataEnd === -1) {
+      break;
+    }
+    streamStart.lastIndex = dataEnd + "endstream".length;
+
+    const dictionary = raw.slice(
+      Math.max(raw.lastIndexOf("obj", match.index), 0),
+      match.index,
+    );
+    const filters = [...dictionary.matchAll(/\/(\w+Decode)\b/g)].map(
+      (filter) => filter[1],
+    );
+    if (
+      NON_TEXT_STREAM.test(dictionary) ||
+      filters.some((filter) => filter !== "FlateDecode")
+    ) {
+      continue;
+    }
+
+    // A direct /Length is exact, otherwise drop the end of line before `endstream`
+    const length = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(dictionary);
+    const data = length
+      ? bytes.subarray(dataStart, dataStart + Number(length[1]))
+      : bytes.subarray(dataStart, dataEnd).subarray(0, -1);
+
+    let content: string;
+    try {
+      content = filters.length ? await inflate(data) : decodeLatin1(data);
+    } catch {
+      continue;
+    }
+    if (!/\bBT\b/.test(content)) {
+      continue;
+    }
+
+    const text = extractContentText(content).trim();
+    if (text) {
+      pages.push(text);
+    }
+  }
+
+  return pages.join("\n\n").replace(/\n{3,}/g, "\n\n");
+}
+
+async function inflate(data: Uint8Array): Promise<string> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return decodeLatin1(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+function decodeLatin1(bytes: Uint8Array): string {
+  let text = "";
+  for (let start = 0; start < bytes.length; start += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+  }
+  return text;
+}
+
+type Operand = string | number | Operand[];
+
+/**
+ * Walk a content stream's operators, keeping what `Tj`, `TJ`, `'` and `"`
+ * show and turning line moves into newlines
+ */
+function extractContentText(content: string): string {
+  let text = "";
+  let operands: Operand[] = [];
+  const stack: Operand[][] = [];
+  let index = 0;
+
+  const push = (operand: Operand) =>
+    (stack.length ? stack[stack.length - 1] : operands).push(operand);
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === "%") {
+      const end = content.indexOf("\n", index);
+      index = end === -1 ? content.length : end;
+    } else if (char === "(") {
+      const [value, end] = readLiteralString(content, index);
+      push(value);
+      index = end;
+    } else if (char === "<" && content[index + 1] !== "<") {
+      const end = content.indexOf(">", index);
+      if (end === -1) {
+        break;
+      }
+      push(decodeHexString(content.slice(index + 1, end)));
+      index = end + 1;
+    } else if (char === "[") {
+      stack.push([]);
+      index++;
+    } else if (char === "]") {
+      const array = stack.pop() || [];
+      push(array);
+      index++;
+    } else if (/[-+.\d]/.test(char)) {
+      const number = /^[-+]?\d*\.?\d*/.exec(content.slice(index, index + 32))!;
+      push(Number(number[0]) || 0);
+      index += Math.max(number[0].length, 1);
+    } else if (char === "/") {
+      const name = /^\/[^\s/<>[\]()%{}]*/.exec(content.slice(index))!;
+      index += name[0].length;
+    } else {
+      const operator = /^[A-Za-z'"*]+/.exec(content.slice(index));
+      if (!operator) {
+        index++;
+        continue;
+      }
+      index += operator[0].length;
+
+      switch (operator[0]) {
+        case "Tj":
+          text += stringOperand(operands[operands.length - 1]);
+          break;
+        case "'":
+        case '"':
+          text += `\n${stringOperand(operands[operands.length - 1])}`;
+          break;
+        case "TJ":
+          text += showArray(operands[operands.length - 1]);
+          break;
+        case "Td":
+        case "TD":
+          if (operands[1] !== 0) {
+            text += "\n";
+          }
+          break;
+        case "T*":
+        case "ET":
+          text += "\n";
+          break;
+        case "ID": {
+          // Inline image data, skip to its end marker
+          const end = content.indexOf("EI", index);
+          index = end === -1 ? content.length : end + 2;
+          break;
+        }
+      }
+      operands = [];
+      stack.length = 0;
+    }
+  }
+
+  return text
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n");
+}
+
+function stringOperand(operand: Operand | undefined): string {
+  return typeof operand === "string" ? operand : "";
+}
+
+/**
+ * `TJ` arrays interleave strings with kerning, a large gap is a space
+ */
+function showArray(operand: Operand | undefined): string {
+  if (!Array.isArray(operand)) {
+    return "";
+  }
+  return operand
+    .map((item) =>
+      typeof item === "string"
+        ? item
+        : typeof item === "number" && item < -200
+          ? " "
+          : "",
+    )
+    .join("");
+}
+
+const LITERAL_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+};
+
+function readLiteralString(content: string, start: number): [string, number] {
+  let value = "";
+  let depth = 0;
+  let index = start;
+
+  while (index < content.length) {
+    const char = content[index];
+    if (char === "\\") {
+      const next = content[index + 1];
+      const octal = /^[0-7]{1,3}/.exec(content.slice(index + 1, index + 4));
+      if (octal) {
+        value += String.fromCharCode(parseInt(octal[0], 8));
+        index += octal[0].length + 1;
+        continue;
+      }
+      if (next !== "\n" && next !== "\r") {
+        value += LITERAL_ESCAPES[next] ?? next;
+      }
+      index += 2;
+      continue;
+    }
+    if (char === "(") {
+      depth++;
+      if (depth > 1) value += char;
+    } else if (char === ")") {
+      depth--;
+      if (depth === 0) return [value, index + 1];
+      value += char;
+    } else {
+      value += char;
+    }
+    index++;
+  }
+  return [value, index];
+}
+
+/**
+ * Single byte hex strings only, two byte glyph ids of CID fonts have no
+ * meaning without the font's ToUnicode map
+ */
+function decodeHexString(hex: string): string {
+  const digits = hex.replace(/\s/g, "");
+  let value = "";
+  for (let i = 0; i < digits.length; i += 2) {
+    value += String.fromCharCode(
+      parseInt(digits.slice(i, i + 2).padEnd(2, "0"), 16),
+    );
+  }
+  return /[\x00-\x08\x0e-\x1f]/.test(value) ? "" : value;
+}
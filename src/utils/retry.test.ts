@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { KiroAdapter } from "../adapters/kiro";
+import { RetryConfig } from "../types/retry";
+import { fetchWithRetry, getRetryDelay, parseRetryAfter } from "./retry";
+
+const config: RetryConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  maxRetryAfterMs: 1000,
+  retryableStatuses: [429, 500, 502, 503, 529],
+};
+
+describe("upstream retry", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("honours Retry-After in seconds and as a date", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("2", now)).toBe(2000);
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+
+    const response = new Response(null, {
+      status: 429,
+      headers: { "retry-after": "1" },
+    });
+    expect(getRetryDelay(1, config, response)).toBe(1000);
+  });
+
+  it("keeps the jittered backoff within bounds", () => {
+    const backoff = { ...config, baseDelayMs: 100, maxDelayMs: 300 };
+    for (let i = 0; i < 20; i++) {
+      const first = getRetryDelay(1, backoff);
+      expect(first).toBeGreaterThanOrEqual(50);
+      expect(first).toBeLessThanOrEqual(100);
+      expect(getRetryDelay(5, backoff)).toBeLessThanOrEqual(300);
+    }
+  });
+
+  it("retries retryable statuses and stamps the attempt header", async () => {
+    const kiro = new KiroAdapter();
+    const seen: string[] = [];
+    const fetchMock = vi
+      .fn()
+      .mockImplementationOnce(async () => new Response("busy", { status: 529 }))
+      .mockImplementationOnce(async () => {
+        throw new TypeError("network down");
+      })
+      .mockImplementationOnce(async () => new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await fetchWithRetry(
+      "https://upstream.test",
+      (attempt, maxAttempts) => {
+        const headers = kiro.getAttemptHeaders(attempt, maxAttempts);
+        seen.push(headers["amz-sdk-request"]);
+        return { method: "POST", headers };
+      },
+      config,
+    );
+
+    expect(await response.text()).toBe("ok");
+    expect(seen).toEqual([
+      "attempt=1; max=3",
+      "attempt=2; max=3",
+      "attempt=3; max=3",
+    ]);
+  });
+
+  it("returns non-retryable and exhausted responses as is", async () => {
+    const fetchMock = vi.fn(async () => new Response("bad", { status: 400 }));
+    vi.stubGlobal("fetch", fetchMock);
+    expect(
+      (await fetchWithRetry("https://u.test", () => ({}), config)).status,
+    ).toBe(400);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockImplementation(
+      async () => new Response("x", { status: 503 }),
+    );
+    fetchMock.mockClear();
+    expect(
+      (await fetchWithRetry("https://u.test", () => ({}), config)).status,
+    ).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up when Retry-After exceeds the limit", async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response("slow down", {
+          status: 429,
+          headers: { "retry-after": "60" },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await fetchWithRetry("https://u.test", () => ({}), config);
+    expect(response.status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
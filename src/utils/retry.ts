@@ -0,0 +1,104 @@
+import { RetryConfig } from "../types/retry";
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+  retryableStatuses: [429, 500, 502, 503, 529],
+};
+
+/**
+ * Parse a Retry-After header given either as seconds or as an HTTP date
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with jitter for the given retry (1 = first retry).
+ * A Retry-After from the upstream wins over the computed delay.
+ */
+export function getRetryDelay(
+  retry: number,
+  config: RetryConfig,
+  response?: Response,
+): number {
+  const retryAfter = parseRetryAfter(
+    response?.headers.get("retry-after") ?? null,
+  );
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+
+  const backoff = Math.min(
+    config.maxDelayMs,
+    config.baseDelayMs * 2 ** (retry - 1),
+  );
+  return backoff / 2 + (Math.random() * backoff) / 2;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetch, retrying network errors and retryable statuses before anything is
+ * handed back to the caller. `buildInit` receives the 1-based attempt number
+ * so adapters can stamp per-attempt headers.
+ */
+export async function fetchWithRetry(
+  url: string,
+  buildInit: (attempt: number, maxAttempts: number) => RequestInit,
+  config: RetryConfig = DEFAULT_RETRY_CONFIG,
+): Promise<Response> {
+  const maxAttempts = Math.max(1, config.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, buildInit(attempt, maxAttempts));
+    } catch (error) {
+      if (attempt >= maxAttempts) throw error;
+      const delay = getRetryDelay(attempt, config);
+      console.log(
+        `upstream fetch failed, retrying in ${Math.round(delay)}ms (attempt ${attempt}/${maxAttempts}): `,
+        error,
+      );
+      await sleep(delay);
+      continue;
+    }
+
+    if (
+      response.ok ||
+      attempt >= maxAttempts ||
+      !config.retryableStatuses.includes(response.status)
+    ) {
+      return response;
+    }
+
+    const delay = getRetryDelay(attempt, config, response);
+    if (delay > config.maxRetryAfterMs) {
+      return response;
+    }
+
+    console.log(
+      `upstream returned ${response.status}, retrying in ${Math.round(delay)}ms (attempt ${attempt}/${maxAttempts})`,
+    );
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+}
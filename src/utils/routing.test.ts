@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { KiroAdapter } from "../adapters/kiro";
+import { ClaudeAnyContentRequest } from "../types/claude";
+import { ModelRoute } from "../types/routing";
+import {
+  applyModelRoutes,
+  loadModelRoutes,
+  resolveModelRoute,
+} from "./routing";
+
+const request = (model: string): ClaudeAnyContentRequest => ({
+  model,
+  messages: [{ role: "user", content: "hi" }],
+});
+
+describe("model routing", () => {
+  const routes: ModelRoute[] = [
+    { match: "claude-*haiku*", model: "gemini-2.5-flash" },
+    { match: "claude-*opus*", model: "gpt-5", reasoning_effort: "high" },
+    { match: "claude-opus-4-1", model: "gpt-5-pro" },
+    {
+      match: "claude-sonnet-*",
+      model: "grok-code-fast-1",
+      upstream: "api.githubcopilot.com",
+    },
+  ];
+
+  it("prefers exact matches over globs", () => {
+    expect(resolveModelRoute("claude-opus-4-1", routes)?.model).toBe(
+      "gpt-5-pro",
+    );
+    expect(resolveModelRoute("claude-opus-4-5-20251101", routes)?.model).toBe(
+      "gpt-5",
+    );
+    expect(resolveModelRoute("CLAUDE-3-5-HAIKU", routes)?.model).toBe(
+      "gemini-2.5-flash",
+    );
+    expect(resolveModelRoute("gpt-4.1", routes)).toBeUndefined();
+  });
+
+  it("scopes routes to an upstream", () => {
+    expect(
+      resolveModelRoute("claude-sonnet-4-5", routes, "api.openai.com"),
+    ).toBeUndefined();
+    expect(
+      resolveModelRoute("claude-sonnet-4-5", routes, "api.githubcopilot.com")
+        ?.model,
+    ).toBe("grok-code-fast-1");
+  });
+
+  it("rewrites the model and forces the route's reasoning effort", () => {
+    const result = applyModelRoutes(
+      request("claude-opus-4-5-20251101"),
+      routes,
+      [],
+      "api.openai.com",
+    );
+
+    expect(result.model).toBe("gpt-5");
+    expect(result.thinking).toEqual({ type: "enabled", budget_tokens: 32768 });
+  });
+
+  it("raises a small max_tokens above the forced budget", () => {
+    const result = applyModelRoutes(
+      { ...request("claude-opus-4-5-20251101"), max_tokens: 1024 },
+      routes,
+      [],
+      "api.openai.com",
+    );
+
+    expect(result.thinking?.budget_tokens).toBe(32768);
+    expect(result.max_tokens).toBe(32768 + 8192);
+  });
+
+  it("applies adapter defaults after the configured table", () => {
+    const kiro = new KiroAdapter();
+    const configured: ModelRoute[] = [
+      { match: "claude-3-7-sonnet*", model: "claude-sonnet-4.5" },
+    ];
+
+    expect(
+      applyModelRoutes(
+        request("claude-3-7-sonnet-20250219"),
+        configured,
+        kiro.defaultModelRoutes,
+        kiro.baseUrl,
+      ).model,
+    ).toBe("claude-sonnet-4.5");
+    expect(
+      applyModelRoutes(
+        request("claude-haiku-4-5-20251001"),
+        [],
+        kiro.defaultModelRoutes,
+        kiro.baseUrl,
+      ).model,
+    ).toBe("claude-haiku-4.5");
+  });
+
+  it("loads routes from KV and the env var", async () => {
+    const loaded = await loadModelRoutes({
+      MODEL_ROUTES: JSON.stringify({ "claude-*haiku*": "gemini-2.5-flash" }),
+      CONFIG: {
+        get: async () => [{ match: "claude-*opus*", model: "gpt-5" }],
+      } as unknown as KVNamespace,
+    });
+
+    expect(loaded).toEqual([
+      { match: "claude-*opus*", model: "gpt-5" },
+      { match: "claude-*haiku*", model: "gemini-2.5-flash" },
+    ]);
+  });
+});
@@ -0,0 +1,218 @@
+import { REASONING_EFFORT_BUDGETS } from "../converters/constants";
+import { resolveClaudeMaxTokens } from "../converters/request";
+import { ClaudeAnyContentRequest } from "../types/claude";
+import { Env } from "../types/env";
+import { FallbackChain, ModelRoute } from "../types/routing";
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Test a name against a glob where `*` matches any run of characters and `?`
+ * a single one, case-insensitively
+ */
+export function matchesGlob(pattern: string, value: string): boolean {
+  let regex = globCache.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split("")
+      .map((char) =>
+        char === "*"
+          ? ".*"
+          : char === "?"
+            ? "."
+            : char.replace(/[.+^${}()|[\]\\]/g, "\\$&"),
+      )
+      .join("");
+    regex = new RegExp(`^${source}$`, "i");
+    globCache.set(pattern, regex);
+  }
+  return regex.test(value);
+}
+
+export function isGlob(pattern: string): boolean {
+  return pattern.includes("*") || pattern.includes("?");
+}
+
+/**
+ * Accept both the array form and the `{ match: model }` shorthand
+ */
+function normalizeRoutes(raw: unknown): ModelRoute[] {
+  if (Array.isArray(raw)) {
+    return raw.filter(
+      (route): route is ModelRoute =>
+        typeof route?.match === "string" && typeof route?.model === "string",
+    );
+  }
+  if (raw && typeof raw === "object") {
+    return Object.entries(raw as Record<string, unknown>).flatMap(
+      ([match, target]) => {
+        if (typeof target === "string") {
+          return [{ match, model: target }];
+        }
+        if (target && typeof (target as any).model === "string") {
+          return [{ ...(target as Omit<ModelRoute, "match">), match }];
+        }
+        return [];
+      },
+    );
+  }
+  return [];
+}
+
+/**
+ * Read a JSON config value from KV and from its env var, in that order
+ */
+async function readJsonConfig(
+  env: Env | undefined,
+  kvKey: string,
+  envValue: string | undefined,
+  envName: string,
+): Promise<unknown[]> {
+  const values: unknown[] = [];
+
+  if (env?.CONFIG) {
+    try {
+      values.push(await env.CONFIG.get(kvKey, "json"));
+    } catch (e) {
+      console.warn(`Failed to read ${kvKey} from KV:`, e);
+    }
+  }
+
+  if (envValue) {
+    try {
+      values.push(JSON.parse(envValue));
+    } catch (e) {
+      console.warn(`Failed to parse ${envName}:`, e);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Load the configured routing table, KV entries take precedence over the
+ * `MODEL_ROUTES` env var
+ */
+export async function loadModelRoutes(env?: Env): Promise<ModelRoute[]> {
+  const values = await readJsonConfig(
+    env,
+    "model_routes",
+    env?.MODEL_ROUTES,
+    "MODEL_ROUTES",
+  );
+  return values.flatMap(normalizeRoutes);
+}
+
+/**
+ * Load fallback chains, KV entries take precedence over the
+ * `FALLBACK_CHAINS` env var
+ */
+export async function loadFallbackChains(env?: Env): Promise<FallbackChain[]> {
+  const values = await readJsonConfig(
+    env,
+    "fallback_chains",
+    env?.FALLBACK_CHAINS,
+    "FALLBACK_CHAINS",
+  );
+  return values.flatMap((value) =>
+    Array.isArray(value)
+      ? value.filter(
+          (chain): chain is FallbackChain =>
+            typeof chain?.match === "string" &&
+            Array.isArray(chain?.targets) &&
+            chain.targets.length > 0 &&
+            chain.targets.every(
+              (target: any) => typeof target?.upstream === "string",
+            ),
+        )
+      : [],
+  );
+}
+
+/**
+ * Find the route for a model, exact matches win over globs, otherwise the
+ * first matching entry in table order
+ */
+export function resolveModelRoute(
+  model: string,
+  routes: ModelRoute[],
+  upstream?: string,
+): ModelRoute | undefined {
+  return findByModel(model, routes, upstream);
+}
+
+/**
+ * Find the fallback chain for a model, with the same precedence as routes
+ */
+export function resolveFallbackChain(
+  model: string,
+  chains: FallbackChain[],
+  upstream?: string,
+): FallbackChain | undefined {
+  return findByModel(model, chains, upstream);
+}
+
+function findByModel<T extends { match: string; upstream?: string }>(
+  model: string,
+  routes: T[],
+  upstream?: string,
+): T | undefined {
+  const candidates = routes.filter(
+    (route) =>
+      !route.upstream || (upstream && matchesGlob(route.upstream, upstream)),
+  );
+
+  return (
+    candidates.find(
+      (route) =>
+        !isGlob(route.match) &&
+        route.match.toLowerCase() === model.toLowerCase(),
+    ) ||
+    candidates.find(
+      (route) => isGlob(route.match) && matchesGlob(route.match, model),
+    )
+  );
+}
+
+/**
+ * Rewrite the request model through the configured table and then the
+ * adapter's own defaults
+ */
+export function applyModelRoutes(
+  claudeRequest: ClaudeAnyContentRequest,
+  routes: ModelRoute[],
+  defaultRoutes: ModelRoute[],
+  upstream: string,
+): ClaudeAnyContentRequest {
+  for (const table of [routes, defaultRoutes]) {
+    const route = resolveModelRoute(claudeRequest.model, table, upstream);
+    if (!route) {
+      continue;
+    }
+
+    claudeRequest.model = route.model;
+    if (route.reasoning_effort) {
+      claudeRequest.thinking = {
+        type: "enabled",
+        budget_tokens: REASONING_EFFORT_BUDGETS[route.reasoning_effort],
+      };
+      // The budget counts against max_tokens, keep room for the answer
+      claudeRequest.max_tokens = resolveClaudeMaxTokens(
+        claudeRequest.max_tokens,
+        claudeRequest.thinking,
+      );
+    }
+  }
+
+  return claudeRequest;
+}
+
+/**
+ * Whether `STRICT_TOOL_SCHEMAS` opts this upstream into OpenAI strict tools
+ */
+export function useStrictToolSchemas(env: Env | undefined, upstream: string) {
+  return (env?.STRICT_TOOL_SCHEMAS || "")
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .some((pattern) => pattern && matchesGlob(pattern, upstream));
+}
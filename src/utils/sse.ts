@@ -0,0 +1,37 @@
+/**
+ * `data:` payloads of an SSE body as they arrive, `[DONE]` excluded.
+ * Stopping early cancels the body.
+ */
+export async function* readSseData(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let done = false;
+
+  try {
+    while (true) {
+      const chunk = await reader.read();
+      if (chunk.done) {
+        done = true;
+        break;
+      }
+
+      buffer += decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (!line.startsWith("data: ")) continue;
+        const data = line.slice(6);
+        if (data === "[DONE]") continue;
+        yield data;
+      }
+    }
+  } finally {
+    if (!done) {
+      await reader.cancel();
+    }
+  }
+}
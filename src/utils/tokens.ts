@@ -0,0 +1,138 @@
+import { getEncoding, Tiktoken, TiktokenEncoding } from "js-tiktoken";
+import {
+  ClaudeAnyContentMessage,
+  ClaudeContent,
+  ClaudeTool,
+} from "../types/claude";
+
+const getEncodingForModel = (modelName: string): TiktokenEncoding => {
+  // Default to cl100k_base for all models
+  return "cl100k_base";
+};
+
+// Building the ranks is expensive, keep one encoder per encoding
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+const loadEncoding = (name: TiktokenEncoding): Tiktoken => {
+  let encoding = encodings.get(name);
+  if (!encoding) {
+    encoding = getEncoding(name);
+    encodings.set(name, encoding);
+  }
+  return encoding;
+};
+
+const countClaudeContentTokens = (
+  content: ClaudeContent,
+  encoding: any,
+): number => {
+  let tokens = 0;
+
+  switch (content.type) {
+    case "text":
+    case "thinking":
+      tokens += encoding.encode(content.text || content.thinking || "").length;
+      break;
+
+    case "tool_use":
+      tokens += 8; // tool call overhead
+      tokens += encoding.encode(content.name || "").length;
+      if (content.input)
+        tokens += encoding.encode(JSON.stringify(content.input)).length;
+      break;
+
+    case "tool_result":
+      tokens += 6; // tool result overhead
+      if (content.content) {
+        if (typeof content.content === "string") {
+          tokens += encoding.encode(content.content).length;
+        } else if (Array.isArray(content.content)) {
+          for (const item of content.content) {
+            tokens +=
+              typeof item === "string"
+                ? encoding.encode(item).length
+                : encoding.encode(JSON.stringify(item)).length;
+          }
+        } else {
+          tokens += encoding.encode(JSON.stringify(content.content)).length;
+        }
+      }
+      break;
+
+    case "image":
+      tokens += 200; // image overhead
+      if (content.source?.data) {
+        tokens += Math.ceil(content.source.data.length / 1000);
+      }
+      break;
+
+    case "document":
+      if (content.source?.type === "text") {
+        tokens += encoding.encode(content.source.data || "").length;
+      } else if (content.source?.data) {
+        tokens += Math.ceil(content.source.data.length / 1000);
+      }
+      break;
+
+    default:
+      tokens += 4;
+  }
+
+  return tokens;
+};
+
+const countClaudeMessageTokens = (
+  message: ClaudeAnyContentMessage,
+  encoding: any,
+): number => {
+  let tokens = 4; // role overhead
+
+  if (typeof message.content === "string") {
+    tokens += encoding.encode(message.content).length;
+  } else if (Array.isArray(message.content)) {
+    for (const content of message.content) {
+      tokens += countClaudeContentTokens(content, encoding);
+    }
+  } else {
+    tokens += encoding.encode(JSON.stringify(message.content)).length;
+  }
+
+  return tokens;
+};
+
+/**
+ * Estimate the input tokens of a Claude request with tiktoken
+ */
+export function countClaudeTokens(request: {
+  model: string;
+  messages: ClaudeAnyContentMessage[];
+  system?: ClaudeContent[];
+  tools?: ClaudeTool[];
+}): number {
+  let total = 0;
+
+  const encodingName = getEncodingForModel(request.model);
+  const encoding = loadEncoding(encodingName);
+
+  if (request.system && request.system.length > 0) {
+    for (const content of request.system) {
+      total += countClaudeContentTokens(content, encoding);
+    }
+  }
+
+  for (const message of request.messages) {
+    total += countClaudeMessageTokens(message, encoding);
+  }
+
+  if (request.tools && request.tools.length > 0) {
+    for (const tool of request.tools) {
+      total += 10; // tool definition overhead
+      total += encoding.encode(tool.name).length;
+      if (tool.description) total += encoding.encode(tool.description).length;
+      if (tool.input_schema)
+        total += encoding.encode(JSON.stringify(tool.input_schema)).length;
+    }
+  }
+
+  return total;
+}
@@ -1,6 +1,11 @@
 export function extractBaseUrl(
   path: string,
-  endpoint: "/v1/messages" | "/v1/chat/completions",
+  endpoint:
+    | "/v1/messages"
+    | "/v1/messages/count_tokens"
+    | "/v1/chat/completions"
+    | "/v1/responses"
+    | "/v1/models",
 ): string {
   const baseUrl = path.replace(endpoint, "").substring(1);
   return baseUrl;